@@ -1,5 +1,12 @@
 import { useState, useMemo, useEffect, useRef } from 'react'
-import { Plus, Trash2, Download, RotateCcw, Printer, TrendingUp, TrendingDown, AlertTriangle, ChevronUp, ChevronDown, ChevronRight, Settings, Check, X } from 'lucide-react'
+import { Plus, Trash2, Download, FileText, RotateCcw, Printer, TrendingUp, TrendingDown, AlertTriangle, ChevronUp, ChevronDown, ChevronRight, Settings, Check, X } from 'lucide-react'
+import { format } from 'date-fns'
+import { jsPDF } from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import type { CellHookData, UserOptions } from 'jspdf-autotable'
+import { calculateIRR } from './engine'
+import { CURRENCY, CURRENCY_CENTS, MULTIPLE, NUMBER, PERCENT, RATIO, cellRef, colName, formula, num, safeFileName, saveWorkbook, sheetFromRows, workbookFileName } from './lib/workbookExport'
+import type { SheetRow } from './lib/workbookExport'
 
 // ============================================================================
 // TYPES
@@ -157,6 +164,137 @@ const fmtDec = (n: number, dec: number = 2): string => {
 // ANALYSIS ENGINE
 // ============================================================================
 
+// Year 1 metrics and the annual projection for a set of inputs
+function calculateDeal(inputs: Inputs) {
+  const { purchasePrice, closingCosts, immediateRepairs, downPaymentPct, interestRate, loanTermYears, units,
+    laundryIncome, parkingIncome, storageIncome, otherIncome, realEstateTaxes, insurance, water, sewer, gas, electric, trash,
+    landscaping, snowRemoval, repairsMaintenance, pestControl, managementPct, legalAccounting, advertising, miscellaneous, replacementReserves,
+    vacancyPct, annualRentIncrease, annualExpenseIncrease, projectionYears, exitCapRate } = inputs
+
+  const totalUnits = units.length
+  const totalSqft = units.reduce((sum, u) => sum + u.sqft, 0)
+  const monthlyRent = units.reduce((sum, u) => sum + u.rent, 0)
+  const annualRent = monthlyRent * 12
+  const pricePerSqft = totalSqft > 0 ? purchasePrice / totalSqft : 0
+  const pricePerUnit = totalUnits > 0 ? purchasePrice / totalUnits : 0
+  const monthlyOtherIncome = laundryIncome + parkingIncome + storageIncome + otherIncome
+  const annualOtherIncome = monthlyOtherIncome * 12
+  const grossPotentialIncome = annualRent + annualOtherIncome
+  const downPayment = purchasePrice * (downPaymentPct / 100)
+  const loanAmount = purchasePrice - downPayment
+  const ltv = purchasePrice > 0 ? (loanAmount / purchasePrice) * 100 : 0
+  const monthlyRate = interestRate / 100 / 12
+  const numPayments = loanTermYears * 12
+  const monthlyMortgage = loanAmount > 0 && monthlyRate > 0 ? loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numPayments)) / (Math.pow(1 + monthlyRate, numPayments) - 1) : 0
+  const annualDebtService = monthlyMortgage * 12
+  const totalCashRequired = downPayment + closingCosts + immediateRepairs
+  const year1Vacancy = grossPotentialIncome * (vacancyPct / 100)
+  const year1EGI = grossPotentialIncome - year1Vacancy
+  const year1Management = year1EGI * (managementPct / 100)
+  const baseExpensesTotal = realEstateTaxes + insurance + water + sewer + gas + electric + trash + landscaping + snowRemoval + repairsMaintenance + pestControl + legalAccounting + advertising + miscellaneous + replacementReserves
+  const year1TotalExpenses = baseExpensesTotal + year1Management
+  const year1NOI = year1EGI - year1TotalExpenses
+  const year1CashFlow = year1NOI - annualDebtService
+  const capRate = purchasePrice > 0 ? (year1NOI / purchasePrice) * 100 : 0
+  const cashOnCash = totalCashRequired > 0 ? (year1CashFlow / totalCashRequired) * 100 : 0
+  const grossRentMultiplier = annualRent > 0 ? purchasePrice / annualRent : 0
+  const dscr = annualDebtService > 0 ? year1NOI / annualDebtService : 999
+  const expenseRatio = year1EGI > 0 ? (year1TotalExpenses / year1EGI) * 100 : 0
+
+  const years: YearProjection[] = []
+  const currentYear = new Date().getFullYear()
+  for (let i = 0; i <= projectionYears; i++) {
+    const rentGrowth = Math.pow(1 + annualRentIncrease / 100, i)
+    const expenseGrowth = Math.pow(1 + annualExpenseIncrease / 100, i)
+    const scheduledRent = annualRent * rentGrowth
+    const yearLaundry = laundryIncome * 12 * rentGrowth
+    const yearParking = parkingIncome * 12 * rentGrowth
+    const yearStorage = storageIncome * 12 * rentGrowth
+    const yearOther = otherIncome * 12 * rentGrowth
+    const gpi = scheduledRent + yearLaundry + yearParking + yearStorage + yearOther
+    const vacancy = gpi * (vacancyPct / 100)
+    const egi = gpi - vacancy
+    const yearTaxes = realEstateTaxes * expenseGrowth
+    const yearInsurance = insurance * expenseGrowth
+    const yearWater = water * expenseGrowth
+    const yearSewer = sewer * expenseGrowth
+    const yearGas = gas * expenseGrowth
+    const yearElectric = electric * expenseGrowth
+    const yearUtilities = yearWater + yearSewer + yearGas + yearElectric
+    const yearTrash = trash * expenseGrowth
+    const yearLandscaping = landscaping * expenseGrowth
+    const yearSnow = snowRemoval * expenseGrowth
+    const yearRepairs = repairsMaintenance * expenseGrowth
+    const yearPest = pestControl * expenseGrowth
+    const yearMgmt = egi * (managementPct / 100)
+    const yearLegal = legalAccounting * expenseGrowth
+    const yearAd = advertising * expenseGrowth
+    const yearMisc = miscellaneous * expenseGrowth
+    const yearReserves = replacementReserves * expenseGrowth
+    const totalOpex = yearTaxes + yearInsurance + yearUtilities + yearTrash + yearLandscaping + yearSnow + yearRepairs + yearPest + yearMgmt + yearLegal + yearAd + yearMisc + yearReserves
+    const noi = egi - totalOpex
+    const cashFlow = noi - annualDebtService
+    years.push({
+      year: currentYear + i, scheduledRent, laundryIncome: yearLaundry, parkingIncome: yearParking, storageIncome: yearStorage, otherIncome: yearOther,
+      grossPotentialIncome: gpi, vacancy, effectiveGrossIncome: egi,
+      realEstateTaxes: yearTaxes, insurance: yearInsurance, water: yearWater, sewer: yearSewer, gas: yearGas, electric: yearElectric, utilitiesTotal: yearUtilities,
+      trash: yearTrash, landscaping: yearLandscaping, snowRemoval: yearSnow, repairsMaintenance: yearRepairs, pestControl: yearPest,
+      management: yearMgmt, legalAccounting: yearLegal, advertising: yearAd, miscellaneous: yearMisc, replacementReserves: yearReserves,
+      totalOperatingExpenses: totalOpex, netOperatingIncome: noi, debtService: annualDebtService, cashFlowBeforeTax: cashFlow,
+    })
+  }
+  const exitValue = exitCapRate > 0 ? (years[projectionYears]?.netOperatingIncome || 0) / (exitCapRate / 100) : 0
+
+  return { totalUnits, totalSqft, monthlyRent, annualRent, pricePerSqft, pricePerUnit, grossPotentialIncome, downPayment, loanAmount, ltv, monthlyMortgage, annualDebtService, totalCashRequired, year1EGI, year1TotalExpenses, year1NOI, year1CashFlow, years, capRate, cashOnCash, grossRentMultiplier, dscr, expenseRatio, exitValue }
+}
+
+type DealCalc = ReturnType<typeof calculateDeal>
+
+interface DealReturns {
+  holdYears: number
+  loanAmount: number
+  cashRequired: number
+  exitValue: number
+  exitBalance: number
+  netProceeds: number
+  // Year 0 equity outflow, then annual cash flow with the sale in the final year
+  cashFlows: number[]
+  // Null when the cash flows have no IRR
+  irr: number | null
+  equityMultiple: number
+  totalProfit: number
+}
+
+// Sale at the end of the hold, valued on the following year's NOI
+function calculateReturns(inputs: Inputs, years: YearProjection[]): DealReturns {
+  const holdYears = Math.max(1, Math.min(inputs.projectionYears, years.length - 1))
+  const loanAmount = inputs.purchasePrice * (1 - inputs.downPaymentPct / 100)
+  const cashRequired = inputs.purchasePrice * inputs.downPaymentPct / 100 + inputs.closingCosts + inputs.immediateRepairs
+  const monthlyPayment = years[0].debtService / 12
+  const monthlyRate = inputs.interestRate / 100 / 12
+  const paid = Math.min(holdYears, inputs.loanTermYears) * 12
+  const exitBalance = loanAmount > 0 && monthlyRate > 0
+    ? loanAmount * Math.pow(1 + monthlyRate, paid) - monthlyPayment * (Math.pow(1 + monthlyRate, paid) - 1) / monthlyRate
+    : 0
+  const exitValue = inputs.exitCapRate > 0 ? (years[holdYears]?.netOperatingIncome || 0) / (inputs.exitCapRate / 100) : 0
+  const netProceeds = exitValue - exitBalance
+  const cashFlows = [-cashRequired, ...years.slice(0, holdYears).map(y => y.cashFlowBeforeTax)]
+  cashFlows[holdYears] += netProceeds
+  const totalProfit = cashFlows.reduce((sum, cf) => sum + cf, 0)
+  return {
+    holdYears,
+    loanAmount,
+    cashRequired,
+    exitValue,
+    exitBalance,
+    netProceeds,
+    cashFlows,
+    irr: calculateIRR(cashFlows),
+    equityMultiple: cashRequired > 0 ? (totalProfit + cashRequired) / cashRequired : 0,
+    totalProfit,
+  }
+}
+
 interface AnalysisInsight {
   type: 'positive' | 'negative' | 'warning' | 'info'
   title: string
@@ -245,6 +383,552 @@ function generateAnalysis(inputs: Inputs, calc: {
   return { dealType, isCashDeal, score, grade, kpis, breakeven: { occupancy: occupancyBE, rent: rentBE, rate: rateBE }, insights }
 }
 
+// ============================================================================
+// WORKBOOK EXPORT
+// ============================================================================
+
+// Inputs, rent roll, projection, analysis and returns. Subtotals, debt service
+// and returns are live formulas that trace back to the Inputs sheet.
+function exportWorkbook(inputs: Inputs, years: YearProjection[], analysis: InvestmentAnalysis) {
+  // Inputs: one assumption per row; percentages are stored as decimals
+  const inputLines: [keyof Inputs, string, string][] = [
+    ['purchasePrice', 'Purchase Price', CURRENCY],
+    ['closingCosts', 'Closing Costs', CURRENCY],
+    ['immediateRepairs', 'Immediate Repairs', CURRENCY],
+    ['downPaymentPct', 'Down Payment', PERCENT],
+    ['interestRate', 'Interest Rate', PERCENT],
+    ['loanTermYears', 'Loan Term (Years)', NUMBER],
+    ['laundryIncome', 'Laundry Income (Monthly)', CURRENCY_CENTS],
+    ['parkingIncome', 'Parking Income (Monthly)', CURRENCY_CENTS],
+    ['storageIncome', 'Storage Income (Monthly)', CURRENCY_CENTS],
+    ['otherIncome', 'Other Income (Monthly)', CURRENCY_CENTS],
+    ['realEstateTaxes', 'Real Estate Taxes', CURRENCY],
+    ['insurance', 'Insurance', CURRENCY],
+    ['water', 'Water', CURRENCY],
+    ['sewer', 'Sewer', CURRENCY],
+    ['gas', 'Gas', CURRENCY],
+    ['electric', 'Electric', CURRENCY],
+    ['trash', 'Trash', CURRENCY],
+    ['landscaping', 'Landscaping', CURRENCY],
+    ['snowRemoval', 'Snow Removal', CURRENCY],
+    ['repairsMaintenance', 'Repairs & Maintenance', CURRENCY],
+    ['pestControl', 'Pest Control', CURRENCY],
+    ['managementPct', 'Management (% of EGI)', PERCENT],
+    ['legalAccounting', 'Legal & Accounting', CURRENCY],
+    ['advertising', 'Advertising', CURRENCY],
+    ['miscellaneous', 'Miscellaneous', CURRENCY],
+    ['replacementReserves', 'Replacement Reserves', CURRENCY],
+    ['vacancyPct', 'Vacancy', PERCENT],
+    ['annualRentIncrease', 'Annual Rent Increase', PERCENT],
+    ['annualExpenseIncrease', 'Annual Expense Increase', PERCENT],
+    ['projectionYears', 'Hold Period (Years)', NUMBER],
+    ['exitCapRate', 'Exit Cap Rate', PERCENT],
+  ]
+  const inputRows: SheetRow[] = [['Property', inputs.propertyName], ['Address', inputs.propertyAddress], [], ['Assumption', 'Value']]
+  const input: Partial<Record<keyof Inputs, string>> = {}
+  for (const [key, label, numberFormat] of inputLines) {
+    const value = inputs[key] as number
+    inputRows.push([label, num(numberFormat === PERCENT ? value / 100 : value, numberFormat)])
+    input[key] = cellRef(1, inputRows.length, 'Inputs')
+  }
+  const at = (key: keyof Inputs) => input[key] as string
+
+  // Rent roll with formula totals
+  const totalSqft = inputs.units.reduce((sum, u) => sum + u.sqft, 0)
+  const monthlyRent = inputs.units.reduce((sum, u) => sum + u.rent, 0)
+  const lastUnit = inputs.units.length + 1
+  const rentRollRows: SheetRow[] = [
+    ['Unit', 'Tenant', 'Sq Ft', 'Monthly Rent', 'Annual Rent', 'Rent / SF'],
+    ...inputs.units.map((u, i): SheetRow => [
+      u.unitNumber,
+      u.tenant,
+      num(u.sqft, NUMBER),
+      num(u.rent),
+      formula(`D${i + 2}*12`, u.rent * 12),
+      formula(`IF(C${i + 2}>0,D${i + 2}/C${i + 2},0)`, u.sqft > 0 ? u.rent / u.sqft : 0, CURRENCY_CENTS),
+    ]),
+    [
+      'Total', `${inputs.units.length} units`,
+      formula(`SUM(C2:C${lastUnit})`, totalSqft, NUMBER),
+      formula(`SUM(D2:D${lastUnit})`, monthlyRent),
+      formula(`SUM(E2:E${lastUnit})`, monthlyRent * 12),
+      formula(`IF(C${lastUnit + 1}>0,D${lastUnit + 1}/C${lastUnit + 1},0)`, totalSqft > 0 ? monthlyRent / totalSqft : 0, CURRENCY_CENTS),
+    ],
+  ]
+  const annualRentTotal = `'Rent Roll'!E${lastUnit + 1}`
+
+  // Projection: line items as values, subtotals as formulas down each column
+  const projectionRows: SheetRow[] = [['Line Item', ...years.map(y => y.year)]]
+  const lineRow: Partial<Record<keyof YearProjection, number>> = {}
+  const addLine = (key: keyof YearProjection, label: string, f?: (col: string) => string, sign = 1) => {
+    projectionRows.push([
+      label,
+      ...years.map((y, i) => f ? formula(f(colName(i + 1)), y[key] * sign) : num(y[key] * sign)),
+    ])
+    lineRow[key] = projectionRows.length
+  }
+  const ref = (key: keyof YearProjection, col: string) => `${col}${lineRow[key]}`
+
+  addLine('scheduledRent', 'Scheduled Rent')
+  addLine('laundryIncome', 'Laundry Income')
+  addLine('parkingIncome', 'Parking Income')
+  addLine('storageIncome', 'Storage Income')
+  addLine('otherIncome', 'Other Income')
+  addLine('grossPotentialIncome', 'Gross Potential Income', c => `SUM(${ref('scheduledRent', c)}:${ref('otherIncome', c)})`)
+  addLine('vacancy', 'Less: Vacancy', c => `-${ref('grossPotentialIncome', c)}*${at('vacancyPct')}`, -1)
+  addLine('effectiveGrossIncome', 'Effective Gross Income', c => `${ref('grossPotentialIncome', c)}+${ref('vacancy', c)}`)
+  projectionRows.push([])
+  addLine('realEstateTaxes', 'Real Estate Taxes')
+  addLine('insurance', 'Insurance')
+  addLine('water', 'Water')
+  addLine('sewer', 'Sewer')
+  addLine('gas', 'Gas')
+  addLine('electric', 'Electric')
+  addLine('utilitiesTotal', 'Utilities Total', c => `SUM(${ref('water', c)}:${ref('electric', c)})`)
+  addLine('trash', 'Trash')
+  addLine('landscaping', 'Landscaping')
+  addLine('snowRemoval', 'Snow Removal')
+  addLine('repairsMaintenance', 'Repairs & Maintenance')
+  addLine('pestControl', 'Pest Control')
+  addLine('management', 'Management', c => `${ref('effectiveGrossIncome', c)}*${at('managementPct')}`)
+  addLine('legalAccounting', 'Legal & Accounting')
+  addLine('advertising', 'Advertising')
+  addLine('miscellaneous', 'Miscellaneous')
+  addLine('replacementReserves', 'Replacement Reserves')
+  addLine('totalOperatingExpenses', 'Total Operating Expenses', c =>
+    `${ref('realEstateTaxes', c)}+${ref('insurance', c)}+${ref('utilitiesTotal', c)}+SUM(${ref('trash', c)}:${ref('replacementReserves', c)})`)
+  projectionRows.push([])
+  addLine('netOperatingIncome', 'Net Operating Income', c => `${ref('effectiveGrossIncome', c)}-${ref('totalOperatingExpenses', c)}`)
+  addLine('debtService', 'Less: Debt Service', () => '-Returns!B6', -1)
+  addLine('cashFlowBeforeTax', 'Cash Flow Before Tax', c => `${ref('netOperatingIncome', c)}+${ref('debtService', c)}`)
+
+  // Returns: sale at the end of the hold on the following year's NOI
+  const { holdYears, loanAmount, cashRequired, exitValue, exitBalance, netProceeds, cashFlows, irr, equityMultiple, totalProfit } =
+    calculateReturns(inputs, years)
+  const projected = (key: keyof YearProjection, year: number) => `'Projection'!${ref(key, colName(year))}`
+  const year1 = years[0]
+  const annualDebtService = year1.debtService
+  const firstFlow = 21
+  const lastFlow = firstFlow + holdYears
+
+  const returnsRows: SheetRow[] = [
+    ['Metric', 'Value'],
+    ['Purchase Price', formula(at('purchasePrice'), inputs.purchasePrice)],
+    ['Loan Amount', formula(`B2*(1-${at('downPaymentPct')})`, loanAmount)],
+    ['Total Cash Required', formula(`B2*${at('downPaymentPct')}+${at('closingCosts')}+${at('immediateRepairs')}`, cashRequired)],
+    ['Monthly P&I', formula(`IF(B3>0,PMT(${at('interestRate')}/12,${at('loanTermYears')}*12,-B3),0)`, annualDebtService / 12)],
+    ['Annual Debt Service', formula('B5*12', annualDebtService)],
+    ['Year 1 NOI', formula(projected('netOperatingIncome', 1), year1.netOperatingIncome)],
+    ['Year 1 Cash Flow', formula(projected('cashFlowBeforeTax', 1), year1.cashFlowBeforeTax)],
+    ['Going-In Cap Rate', formula('IF(B2>0,B7/B2,0)', inputs.purchasePrice > 0 ? year1.netOperatingIncome / inputs.purchasePrice : 0, PERCENT)],
+    ['Cash-on-Cash', formula('IF(B4>0,B8/B4,0)', cashRequired > 0 ? year1.cashFlowBeforeTax / cashRequired : 0, PERCENT)],
+    ['DSCR', formula('IF(B6>0,B7/B6,0)', annualDebtService > 0 ? year1.netOperatingIncome / annualDebtService : 0, RATIO)],
+    ['Gross Rent Multiplier', formula(`IF(${annualRentTotal}>0,B2/${annualRentTotal},0)`, monthlyRent > 0 ? inputs.purchasePrice / (monthlyRent * 12) : 0, RATIO)],
+    [`Exit Value (Year ${holdYears + 1} NOI)`, formula(`IF(${at('exitCapRate')}>0,${projected('netOperatingIncome', holdYears + 1)}/${at('exitCapRate')},0)`, exitValue)],
+    ['Loan Balance at Exit', formula(`IF(B3>0,-FV(${at('interestRate')}/12,MIN(${holdYears},${at('loanTermYears')})*12,-B5,B3),0)`, exitBalance)],
+    ['Net Sale Proceeds', formula('B13-B14', netProceeds)],
+    ['Levered IRR', formula(`IRR(B${firstFlow}:B${lastFlow})`, (irr ?? 0) / 100, PERCENT)],
+    ['Equity Multiple', formula(`IF(B4>0,SUM(B${firstFlow + 1}:B${lastFlow})/B4,0)`, equityMultiple, MULTIPLE)],
+    ['Total Profit', formula(`SUM(B${firstFlow}:B${lastFlow})`, totalProfit)],
+    [],
+    ['Year', 'Cash Flow'],
+    [0, formula('-B4', -cashRequired)],
+    ...cashFlows.slice(1).map((cf, i): SheetRow => [
+      i + 1,
+      formula(`${projected('cashFlowBeforeTax', i + 1)}${i + 1 === holdYears ? '+B15' : ''}`, cf),
+    ]),
+  ]
+
+  // Analysis: the same KPIs and insights shown on screen
+  const analysisRows: SheetRow[] = [
+    ['Deal Type', analysis.dealType],
+    ['Score', num(analysis.score, NUMBER)],
+    ['Grade', analysis.grade],
+    [],
+    ['KPI', 'Value', 'Status'],
+    ...analysis.kpis.map((kpi): SheetRow => [kpi.label, kpi.value, kpi.status]),
+    [],
+    ['Breakeven', 'Value'],
+    ['Occupancy', num(analysis.breakeven.occupancy / 100, PERCENT)],
+    ['Rent / Unit / Month', num(analysis.breakeven.rent)],
+    ['Interest Rate', analysis.breakeven.rate === null ? 'N/A' : num(analysis.breakeven.rate / 100, PERCENT)],
+    [],
+    ['Insight', 'Value', 'Type', 'Detail'],
+    ...analysis.insights.map((insight): SheetRow => [insight.title, insight.value || '', insight.type, insight.detail]),
+  ]
+
+  saveWorkbook(
+    [
+      ['Inputs', sheetFromRows(inputRows, [28, 40])],
+      ['Rent Roll', sheetFromRows(rentRollRows, [14, 24, 10, 14, 14, 10])],
+      ['Projection', sheetFromRows(projectionRows, [28, ...years.map(() => 13)])],
+      ['Analysis', sheetFromRows(analysisRows, [24, 16, 12, 80])],
+      ['Returns', sheetFromRows(returnsRows, [28, 16])],
+    ],
+    workbookFileName(inputs.propertyName, 'Pro_Forma')
+  )
+}
+
+// ============================================================================
+// INVESTMENT MEMO
+// ============================================================================
+
+type MemoDoc = jsPDF & { lastAutoTable: { finalY: number } }
+type RGB = [number, number, number]
+
+const MEMO_NAVY: RGB = [15, 23, 42]
+const MEMO_AMBER: RGB = [245, 158, 11]
+const MEMO_MUTED: RGB = [100, 116, 139]
+const MEMO_BASE_CASE: RGB = [254, 243, 199]
+const MEMO_MARGIN = 48
+
+const usd = (n: number) => n < 0 ? `($${fmt(-n)})` : `$${fmt(n)}`
+const pct = (n: number, dec: number = 2) => `${fmtDec(n, dec)}%`
+const irrPct = (n: number | null) => n === null ? 'N/A' : pct(n, 1)
+
+// Paginated lender memo: cover, executive summary, sources & uses, rent roll,
+// projection, debt, returns and sensitivities, with a footer on every page
+function generateMemo(inputs: Inputs, calc: DealCalc, analysis: InvestmentAnalysis) {
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' }) as MemoDoc
+  const asOf = format(new Date(), 'MMMM d, yyyy')
+  const returns = calculateReturns(inputs, calc.years)
+  const holdYears = calc.years.slice(0, returns.holdYears)
+  const right = { halign: 'right' } as const
+
+  const pageHeight = () => doc.internal.pageSize.getHeight()
+  const pageWidth = () => doc.internal.pageSize.getWidth()
+
+  const heading = (title: string, y: number = MEMO_MARGIN) => {
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(16)
+    doc.setTextColor(...MEMO_NAVY)
+    doc.text(title, MEMO_MARGIN, y)
+    doc.setDrawColor(...MEMO_AMBER)
+    doc.setLineWidth(2)
+    doc.line(MEMO_MARGIN, y + 6, MEMO_MARGIN + 40, y + 6)
+    return y + 28
+  }
+
+  const subheading = (title: string, y: number) => {
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(11)
+    doc.setTextColor(...MEMO_NAVY)
+    doc.text(title, MEMO_MARGIN, y)
+    return y + 8
+  }
+
+  const paragraph = (text: string, y: number) => {
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(10)
+    doc.setTextColor(51, 65, 85)
+    const lines = doc.splitTextToSize(text, pageWidth() - MEMO_MARGIN * 2)
+    doc.text(lines, MEMO_MARGIN, y)
+    return y + lines.length * 13 + 10
+  }
+
+  const table = (startY: number, options: UserOptions) => {
+    autoTable(doc, {
+      startY,
+      margin: { left: MEMO_MARGIN, right: MEMO_MARGIN, top: MEMO_MARGIN, bottom: 56 },
+      theme: 'striped',
+      styles: { fontSize: 9, cellPadding: 4, textColor: [30, 41, 59] },
+      headStyles: { fillColor: MEMO_NAVY, textColor: 255, fontStyle: 'bold' },
+      footStyles: { fillColor: [226, 232, 240], textColor: MEMO_NAVY, fontStyle: 'bold' },
+      ...options,
+    })
+    return doc.lastAutoTable.finalY + 24
+  }
+
+  // Starts a new page when fewer than `needed` points remain
+  const ensureSpace = (y: number, needed: number) => {
+    if (y + needed <= pageHeight() - 64) return y
+    doc.addPage('letter', 'portrait')
+    return MEMO_MARGIN
+  }
+
+  // Cover
+  doc.setFillColor(...MEMO_NAVY)
+  doc.rect(0, 0, pageWidth(), 300, 'F')
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(10)
+  doc.setTextColor(...MEMO_AMBER)
+  doc.text('INVESTMENT MEMORANDUM', MEMO_MARGIN, 120)
+  doc.setFontSize(26)
+  doc.setTextColor(255, 255, 255)
+  doc.text(doc.splitTextToSize(inputs.propertyName, pageWidth() - MEMO_MARGIN * 2), MEMO_MARGIN, 160)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(12)
+  doc.setTextColor(203, 213, 225)
+  doc.text(inputs.propertyAddress, MEMO_MARGIN, 250)
+  doc.text(`Prepared ${asOf}`, MEMO_MARGIN, 270)
+  table(340, {
+    theme: 'grid',
+    styles: { fontSize: 11, cellPadding: 8 },
+    head: [['Purchase Price', 'Units', 'Going-In Cap', 'Levered IRR', 'Equity Multiple', 'Grade']],
+    body: [[
+      usd(inputs.purchasePrice),
+      String(calc.totalUnits),
+      pct(calc.capRate),
+      irrPct(returns.irr),
+      `${fmtDec(returns.equityMultiple)}x`,
+      `${analysis.grade} (${analysis.score}/100)`,
+    ]],
+  })
+
+  // Executive summary
+  doc.addPage('letter', 'portrait')
+  let y = heading('Executive Summary')
+  y = paragraph(
+    `${inputs.propertyName} is a ${calc.totalUnits}-unit property totaling ${fmt(calc.totalSqft)} SF, offered at ${usd(inputs.purchasePrice)} ` +
+    `(${usd(calc.pricePerUnit)} per unit, $${fmtDec(calc.pricePerSqft, 0)}/SF). Year 1 NOI of ${usd(calc.year1NOI)} implies a ${pct(calc.capRate)} ` +
+    `going-in cap rate. The plan assumes a ${returns.holdYears}-year hold and a sale at a ${pct(inputs.exitCapRate)} cap rate, producing a ` +
+    `${irrPct(returns.irr)} levered IRR and a ${fmtDec(returns.equityMultiple)}x equity multiple on ${usd(returns.cashRequired)} of equity. ` +
+    `Classification: ${analysis.dealType}; overall grade ${analysis.grade} (${analysis.score}/100).`,
+    y
+  )
+  y = subheading('Key Metrics', y)
+  y = table(y, {
+    head: [['Metric', 'Value', 'Assessment']],
+    body: [
+      ['Cash-on-Cash (Year 1)', pct(calc.cashOnCash), calc.cashOnCash >= 8 ? 'positive' : calc.cashOnCash < 0 ? 'negative' : 'neutral'],
+      ['DSCR (Year 1)', analysis.isCashDeal ? 'No debt' : `${fmtDec(calc.dscr)}x`, analysis.isCashDeal ? 'neutral' : calc.dscr >= 1.25 ? 'positive' : calc.dscr < 1 ? 'negative' : 'warning'],
+      ['Expense Ratio', pct(calc.expenseRatio, 1), calc.expenseRatio > 50 ? 'warning' : 'neutral'],
+      ...analysis.kpis.map(kpi => [kpi.label, kpi.value, kpi.status]),
+    ],
+    columnStyles: { 1: right },
+  })
+  y = ensureSpace(y, 120)
+  y = subheading('Findings', y)
+  y = table(y, {
+    head: [['Finding', 'Detail', 'Value']],
+    body: analysis.insights.map(insight => [insight.title, insight.detail, insight.value || '']),
+    columnStyles: { 0: { cellWidth: 120, fontStyle: 'bold' }, 2: { ...right, cellWidth: 70 } },
+  })
+  y = ensureSpace(y, 100)
+  y = subheading('Breakeven', y)
+  table(y, {
+    head: [['Measure', 'Breakeven', 'Current']],
+    body: [
+      ['Occupancy', pct(analysis.breakeven.occupancy, 1), pct(100 - inputs.vacancyPct, 1)],
+      [
+        'Rent / Unit / Month',
+        calc.totalUnits > 0 ? usd(analysis.breakeven.rent) : '—',
+        calc.totalUnits > 0 ? usd(calc.monthlyRent / calc.totalUnits) : '—',
+      ],
+      ['Interest Rate', analysis.breakeven.rate === null ? 'N/A' : pct(analysis.breakeven.rate), pct(inputs.interestRate)],
+    ],
+    columnStyles: { 1: right, 2: right },
+  })
+
+  // Sources & uses and rent roll
+  doc.addPage('letter', 'portrait')
+  y = heading('Sources & Uses')
+  const totalUses = inputs.purchasePrice + inputs.closingCosts + inputs.immediateRepairs
+  const share = (n: number) => totalUses > 0 ? pct(n / totalUses * 100, 1) : '—'
+  y = table(y, {
+    head: [['Sources', 'Amount', '% of Total']],
+    body: [
+      ['Senior Loan', usd(returns.loanAmount), share(returns.loanAmount)],
+      ['Sponsor Equity', usd(returns.cashRequired), share(returns.cashRequired)],
+    ],
+    foot: [['Total Sources', usd(returns.loanAmount + returns.cashRequired), share(returns.loanAmount + returns.cashRequired)]],
+    columnStyles: { 1: right, 2: right },
+  })
+  y = table(y, {
+    head: [['Uses', 'Amount', '% of Total']],
+    body: [
+      ['Purchase Price', usd(inputs.purchasePrice), share(inputs.purchasePrice)],
+      ['Closing Costs', usd(inputs.closingCosts), share(inputs.closingCosts)],
+      ['Immediate Repairs', usd(inputs.immediateRepairs), share(inputs.immediateRepairs)],
+    ],
+    foot: [['Total Uses', usd(totalUses), share(totalUses)]],
+    columnStyles: { 1: right, 2: right },
+  })
+  y = ensureSpace(y, 120)
+  y = heading('Rent Roll', y + 8)
+  table(y, {
+    head: [['Unit', 'Tenant', 'Sq Ft', 'Monthly Rent', 'Rent / SF']],
+    body: inputs.units.map(u => [u.unitNumber, u.tenant || '—', fmt(u.sqft), usd(u.rent), u.sqft > 0 ? `$${fmtDec(u.rent / u.sqft)}` : '—']),
+    foot: [[
+      'Total', `${calc.totalUnits} units`, fmt(calc.totalSqft), usd(calc.monthlyRent),
+      calc.totalSqft > 0 ? `$${fmtDec(calc.monthlyRent / calc.totalSqft)}` : '—',
+    ]],
+    columnStyles: { 2: right, 3: right, 4: right },
+  })
+
+  // Projection on a landscape page so every year fits
+  doc.addPage('letter', 'landscape')
+  y = heading(`${calc.years.length}-Year Projection`)
+  const projectionLine = (label: string, values: number[]) => [label, ...values.map(usd)]
+  table(y, {
+    styles: { fontSize: 7.5, cellPadding: 3 },
+    head: [['', ...calc.years.map(yr => String(yr.year))]],
+    body: [
+      projectionLine('Gross Potential Income', calc.years.map(yr => yr.grossPotentialIncome)),
+      projectionLine('Less: Vacancy', calc.years.map(yr => -yr.vacancy)),
+      projectionLine('Effective Gross Income', calc.years.map(yr => yr.effectiveGrossIncome)),
+      projectionLine('Real Estate Taxes', calc.years.map(yr => yr.realEstateTaxes)),
+      projectionLine('Insurance', calc.years.map(yr => yr.insurance)),
+      projectionLine('Utilities', calc.years.map(yr => yr.utilitiesTotal)),
+      projectionLine('Repairs & Maintenance', calc.years.map(yr => yr.repairsMaintenance)),
+      projectionLine('Management', calc.years.map(yr => yr.management)),
+      projectionLine('Other Operating', calc.years.map(yr => yr.trash + yr.landscaping + yr.snowRemoval + yr.pestControl + yr.legalAccounting + yr.advertising + yr.miscellaneous + yr.replacementReserves)),
+      projectionLine('Total Operating Expenses', calc.years.map(yr => yr.totalOperatingExpenses)),
+      projectionLine('Net Operating Income', calc.years.map(yr => yr.netOperatingIncome)),
+      projectionLine('Less: Debt Service', calc.years.map(yr => -yr.debtService)),
+      projectionLine('Cash Flow Before Tax', calc.years.map(yr => yr.cashFlowBeforeTax)),
+    ],
+    columnStyles: Object.fromEntries(calc.years.map((_, i) => [i + 1, right])),
+    // Subtotal rows: EGI, total expenses, NOI and cash flow
+    didParseCell: (data) => {
+      if (data.section === 'body' && [2, 9, 10, 12].includes(data.row.index)) data.cell.styles.fontStyle = 'bold'
+    },
+  })
+
+  // Debt
+  doc.addPage('letter', 'portrait')
+  y = heading('Debt Summary')
+  if (analysis.isCashDeal) {
+    y = paragraph('The acquisition is funded entirely with equity; there is no debt service.', y)
+  } else {
+    y = table(y, {
+      head: [['Term', 'Value']],
+      body: [
+        ['Loan Amount', usd(returns.loanAmount)],
+        ['Loan-to-Value', pct(calc.ltv, 1)],
+        ['Interest Rate', pct(inputs.interestRate)],
+        ['Amortization', `${inputs.loanTermYears} years`],
+        ['Monthly P&I', usd(calc.monthlyMortgage)],
+        ['Annual Debt Service', usd(calc.annualDebtService)],
+        ['Balance at Exit', usd(returns.exitBalance)],
+      ],
+      columnStyles: { 1: right },
+    })
+    y = ensureSpace(y, 120)
+    y = subheading('Debt Service Coverage by Year', y)
+    y = table(y, {
+      head: [['Year', 'NOI', 'Debt Service', 'DSCR', 'Cash Flow']],
+      body: holdYears.map(yr => [
+        String(yr.year),
+        usd(yr.netOperatingIncome),
+        usd(yr.debtService),
+        yr.debtService > 0 ? `${fmtDec(yr.netOperatingIncome / yr.debtService)}x` : '—',
+        usd(yr.cashFlowBeforeTax),
+      ]),
+      columnStyles: { 1: right, 2: right, 3: right, 4: right },
+      didParseCell: (data) => {
+        const yr = holdYears[data.row.index]
+        if (data.section === 'body' && data.column.index === 3 && yr && yr.netOperatingIncome < yr.debtService * 1.25) {
+          data.cell.styles.textColor = [185, 28, 28]
+        }
+      },
+    })
+  }
+
+  // Returns
+  y = ensureSpace(y, 200)
+  y = heading('Returns', y + 8)
+  y = table(y, {
+    head: [['Measure', 'Value']],
+    body: [
+      ['Equity Invested', usd(returns.cashRequired)],
+      [`Exit Value (Year ${returns.holdYears + 1} NOI at ${pct(inputs.exitCapRate)})`, usd(returns.exitValue)],
+      ['Less: Loan Payoff', usd(-returns.exitBalance)],
+      ['Net Sale Proceeds', usd(returns.netProceeds)],
+      ['Total Profit', usd(returns.totalProfit)],
+      ['Levered IRR', irrPct(returns.irr)],
+      ['Equity Multiple', `${fmtDec(returns.equityMultiple)}x`],
+    ],
+    columnStyles: { 1: right },
+  })
+  y = ensureSpace(y, 120)
+  y = subheading('Cash Flows to Equity', y)
+  table(y, {
+    head: [['Year', 'Operating', 'Sale', 'Total']],
+    body: returns.cashFlows.map((cf, year) => {
+      const sale = year === returns.holdYears ? returns.netProceeds : 0
+      return [String(year), usd(year === 0 ? cf : cf - sale), usd(sale), usd(cf)]
+    }),
+    columnStyles: { 1: right, 2: right, 3: right },
+  })
+
+  // Sensitivities rerun the model with one pair of inputs changed
+  const sensitivity = (
+    rowLabel: (v: number) => string,
+    colLabel: (v: number) => string,
+    rows: number[],
+    cols: number[],
+    apply: (row: number, col: number) => Partial<Inputs>,
+    metric: (calc: DealCalc, returns: DealReturns) => string
+  ) => ({
+    head: [['', ...cols.map(colLabel)]],
+    body: rows.map(row => [
+      rowLabel(row),
+      ...cols.map(col => {
+        const scenario = { ...inputs, ...apply(row, col) }
+        const scenarioCalc = calculateDeal(scenario)
+        return metric(scenarioCalc, calculateReturns(scenario, scenarioCalc.years))
+      }),
+    ]),
+    columnStyles: Object.fromEntries(cols.map((_, i) => [i + 1, right])),
+    // The center cell is the base case
+    didParseCell: (data: CellHookData) => {
+      if (data.section !== 'body') return
+      if (data.column.index === 0) data.cell.styles.fontStyle = 'bold'
+      if (data.row.index === Math.floor(rows.length / 2) && data.column.index === Math.floor(cols.length / 2) + 1) {
+        data.cell.styles.fillColor = MEMO_BASE_CASE
+        data.cell.styles.fontStyle = 'bold'
+      }
+    },
+  })
+  const steps = (base: number, step: number) => [-2, -1, 0, 1, 2].map(i => base + i * step)
+
+  doc.addPage('letter', 'portrait')
+  y = heading('Sensitivity Analysis')
+  y = subheading('Levered IRR — Exit Cap Rate (rows) vs. Annual Rent Growth (columns)', y)
+  y = table(y, sensitivity(
+    v => pct(v), v => pct(v, 1),
+    steps(inputs.exitCapRate, 0.5), steps(inputs.annualRentIncrease, 1),
+    (exitCapRate, annualRentIncrease) => ({ exitCapRate, annualRentIncrease }),
+    (_, r) => irrPct(r.irr)
+  ))
+  y = ensureSpace(y, 160)
+  y = subheading('Year 1 Cash-on-Cash — Purchase Price (rows) vs. Interest Rate (columns)', y)
+  y = table(y, sensitivity(
+    v => usd(v), v => pct(v),
+    steps(inputs.purchasePrice, inputs.purchasePrice * 0.05), steps(inputs.interestRate, 0.5),
+    (purchasePrice, interestRate) => ({ purchasePrice, interestRate }),
+    c => pct(c.cashOnCash, 1)
+  ))
+  y = ensureSpace(y, 160)
+  y = subheading('Year 1 DSCR — Vacancy (rows) vs. Interest Rate (columns)', y)
+  table(y, sensitivity(
+    v => pct(v, 1), v => pct(v),
+    steps(inputs.vacancyPct, 2.5).map(v => Math.max(0, v)), steps(inputs.interestRate, 0.5),
+    (vacancyPct, interestRate) => ({ vacancyPct, interestRate }),
+    c => c.annualDebtService > 0 ? `${fmtDec(c.dscr)}x` : '—'
+  ))
+
+  // Footer on every page after the cover
+  const pageCount = doc.getNumberOfPages()
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page)
+    const width = pageWidth()
+    const bottom = pageHeight() - 28
+    doc.setDrawColor(226, 232, 240)
+    doc.setLineWidth(0.5)
+    doc.line(MEMO_MARGIN, bottom - 12, width - MEMO_MARGIN, bottom - 12)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(8)
+    doc.setTextColor(...MEMO_MUTED)
+    doc.text(inputs.propertyName, MEMO_MARGIN, bottom)
+    doc.text(`As of ${asOf}`, width / 2, bottom, { align: 'center' })
+    doc.text(`Page ${page} of ${pageCount}`, width - MEMO_MARGIN, bottom, { align: 'right' })
+  }
+
+  doc.save(`${safeFileName(inputs.propertyName)}_Investment_Memo.pdf`)
+}
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -271,88 +955,7 @@ export function ProFormaApp() {
   const reset = () => { if (confirm('Reset all values?')) setInputs(defaultInputs) }
   const scrollToSection = (section: string) => sectionsRef.current[section]?.scrollIntoView({ behavior: 'smooth', block: 'start' })
 
-  const calc = useMemo(() => {
-    const { purchasePrice, closingCosts, immediateRepairs, downPaymentPct, interestRate, loanTermYears, units,
-      laundryIncome, parkingIncome, storageIncome, otherIncome, realEstateTaxes, insurance, water, sewer, gas, electric, trash,
-      landscaping, snowRemoval, repairsMaintenance, pestControl, managementPct, legalAccounting, advertising, miscellaneous, replacementReserves,
-      vacancyPct, annualRentIncrease, annualExpenseIncrease, projectionYears, exitCapRate } = inputs
-
-    const totalUnits = units.length
-    const totalSqft = units.reduce((sum, u) => sum + u.sqft, 0)
-    const monthlyRent = units.reduce((sum, u) => sum + u.rent, 0)
-    const annualRent = monthlyRent * 12
-    const pricePerSqft = totalSqft > 0 ? purchasePrice / totalSqft : 0
-    const pricePerUnit = totalUnits > 0 ? purchasePrice / totalUnits : 0
-    const monthlyOtherIncome = laundryIncome + parkingIncome + storageIncome + otherIncome
-    const annualOtherIncome = monthlyOtherIncome * 12
-    const grossPotentialIncome = annualRent + annualOtherIncome
-    const downPayment = purchasePrice * (downPaymentPct / 100)
-    const loanAmount = purchasePrice - downPayment
-    const ltv = purchasePrice > 0 ? (loanAmount / purchasePrice) * 100 : 0
-    const monthlyRate = interestRate / 100 / 12
-    const numPayments = loanTermYears * 12
-    const monthlyMortgage = loanAmount > 0 && monthlyRate > 0 ? loanAmount * (monthlyRate * Math.pow(1 + monthlyRate, numPayments)) / (Math.pow(1 + monthlyRate, numPayments) - 1) : 0
-    const annualDebtService = monthlyMortgage * 12
-    const totalCashRequired = downPayment + closingCosts + immediateRepairs
-    const year1Vacancy = grossPotentialIncome * (vacancyPct / 100)
-    const year1EGI = grossPotentialIncome - year1Vacancy
-    const year1Management = year1EGI * (managementPct / 100)
-    const baseExpensesTotal = realEstateTaxes + insurance + water + sewer + gas + electric + trash + landscaping + snowRemoval + repairsMaintenance + pestControl + legalAccounting + advertising + miscellaneous + replacementReserves
-    const year1TotalExpenses = baseExpensesTotal + year1Management
-    const year1NOI = year1EGI - year1TotalExpenses
-    const year1CashFlow = year1NOI - annualDebtService
-    const capRate = purchasePrice > 0 ? (year1NOI / purchasePrice) * 100 : 0
-    const cashOnCash = totalCashRequired > 0 ? (year1CashFlow / totalCashRequired) * 100 : 0
-    const grossRentMultiplier = annualRent > 0 ? purchasePrice / annualRent : 0
-    const dscr = annualDebtService > 0 ? year1NOI / annualDebtService : 999
-    const expenseRatio = year1EGI > 0 ? (year1TotalExpenses / year1EGI) * 100 : 0
-
-    const years: YearProjection[] = []
-    const currentYear = new Date().getFullYear()
-    for (let i = 0; i <= projectionYears; i++) {
-      const rentGrowth = Math.pow(1 + annualRentIncrease / 100, i)
-      const expenseGrowth = Math.pow(1 + annualExpenseIncrease / 100, i)
-      const scheduledRent = annualRent * rentGrowth
-      const yearLaundry = laundryIncome * 12 * rentGrowth
-      const yearParking = parkingIncome * 12 * rentGrowth
-      const yearStorage = storageIncome * 12 * rentGrowth
-      const yearOther = otherIncome * 12 * rentGrowth
-      const gpi = scheduledRent + yearLaundry + yearParking + yearStorage + yearOther
-      const vacancy = gpi * (vacancyPct / 100)
-      const egi = gpi - vacancy
-      const yearTaxes = realEstateTaxes * expenseGrowth
-      const yearInsurance = insurance * expenseGrowth
-      const yearWater = water * expenseGrowth
-      const yearSewer = sewer * expenseGrowth
-      const yearGas = gas * expenseGrowth
-      const yearElectric = electric * expenseGrowth
-      const yearUtilities = yearWater + yearSewer + yearGas + yearElectric
-      const yearTrash = trash * expenseGrowth
-      const yearLandscaping = landscaping * expenseGrowth
-      const yearSnow = snowRemoval * expenseGrowth
-      const yearRepairs = repairsMaintenance * expenseGrowth
-      const yearPest = pestControl * expenseGrowth
-      const yearMgmt = egi * (managementPct / 100)
-      const yearLegal = legalAccounting * expenseGrowth
-      const yearAd = advertising * expenseGrowth
-      const yearMisc = miscellaneous * expenseGrowth
-      const yearReserves = replacementReserves * expenseGrowth
-      const totalOpex = yearTaxes + yearInsurance + yearUtilities + yearTrash + yearLandscaping + yearSnow + yearRepairs + yearPest + yearMgmt + yearLegal + yearAd + yearMisc + yearReserves
-      const noi = egi - totalOpex
-      const cashFlow = noi - annualDebtService
-      years.push({
-        year: currentYear + i, scheduledRent, laundryIncome: yearLaundry, parkingIncome: yearParking, storageIncome: yearStorage, otherIncome: yearOther,
-        grossPotentialIncome: gpi, vacancy, effectiveGrossIncome: egi,
-        realEstateTaxes: yearTaxes, insurance: yearInsurance, water: yearWater, sewer: yearSewer, gas: yearGas, electric: yearElectric, utilitiesTotal: yearUtilities,
-        trash: yearTrash, landscaping: yearLandscaping, snowRemoval: yearSnow, repairsMaintenance: yearRepairs, pestControl: yearPest,
-        management: yearMgmt, legalAccounting: yearLegal, advertising: yearAd, miscellaneous: yearMisc, replacementReserves: yearReserves,
-        totalOperatingExpenses: totalOpex, netOperatingIncome: noi, debtService: annualDebtService, cashFlowBeforeTax: cashFlow,
-      })
-    }
-    const exitValue = exitCapRate > 0 ? (years[projectionYears]?.netOperatingIncome || 0) / (exitCapRate / 100) : 0
-
-    return { totalUnits, totalSqft, monthlyRent, annualRent, pricePerSqft, pricePerUnit, grossPotentialIncome, downPayment, loanAmount, ltv, monthlyMortgage, annualDebtService, totalCashRequired, year1EGI, year1TotalExpenses, year1NOI, year1CashFlow, years, capRate, cashOnCash, grossRentMultiplier, dscr, expenseRatio, exitValue }
-  }, [inputs])
+  const calc = useMemo(() => calculateDeal(inputs), [inputs])
 
   const analysis = useMemo(() => generateAnalysis(inputs, calc), [inputs, calc])
 
@@ -383,7 +986,8 @@ export function ProFormaApp() {
             </button>
             <button onClick={reset} className="p-2 bg-[#1e293b] hover:bg-[#2d3748] rounded transition-colors"><RotateCcw size={14} /></button>
             <button onClick={() => window.print()} className="p-2 bg-[#1e293b] hover:bg-[#2d3748] rounded transition-colors"><Printer size={14} /></button>
-            <button className="flex items-center gap-2 px-3 py-1.5 bg-[#f59e0b] hover:bg-[#d97706] text-black rounded text-xs font-bold tracking-wide transition-colors"><Download size={14} /> EXPORT</button>
+            <button onClick={() => generateMemo(inputs, calc, analysis)} className="flex items-center gap-2 px-3 py-1.5 bg-[#1e293b] hover:bg-[#2d3748] text-[#94a3b8] rounded text-xs font-medium tracking-wide transition-colors"><FileText size={14} /> GENERATE MEMO</button>
+            <button onClick={() => exportWorkbook(inputs, calc.years, analysis)} className="flex items-center gap-2 px-3 py-1.5 bg-[#f59e0b] hover:bg-[#d97706] text-black rounded text-xs font-bold tracking-wide transition-colors"><Download size={14} /> EXPORT</button>
           </div>
         </div>
       </header>
@@ -1,8 +1,9 @@
-import React, { useState } from 'react'
+import React, { useMemo, useState } from 'react'
 import { DollarSign, Plus, Trash2, Calculator } from 'lucide-react'
 import { Card, CardHeader, CardTitle, CardContent, Input, Select, Button } from '../ui'
 import { useProjectStore } from '../../store/projectStore'
 import { v4 as uuidv4 } from 'uuid'
+import { closingCostAmount, runProForma } from '../../engine'
 import type { ClosingCostItem, ImmediateCapitalItem } from '../../types'
 
 const closingCostCategories = [
@@ -36,6 +37,13 @@ const immediateCapitalCategories = [
   'Other',
 ]
 
+// How a closing cost is entered; percentages of the loan are solved with the sizing
+const closingCostBases = [
+  { value: 'flat', label: 'Flat Amount' },
+  { value: 'purchase_price', label: '% of Price' },
+  { value: 'loan_amount', label: '% of Loan' },
+]
+
 interface AcquisitionSectionProps {
   onChange: () => void
 }
@@ -43,14 +51,18 @@ interface AcquisitionSectionProps {
 export const AcquisitionSection: React.FC<AcquisitionSectionProps> = ({ onChange }) => {
   const { currentProject, updateAcquisition } = useProjectStore()
   const [showCalculator, setShowCalculator] = useState(false)
+  // Closing costs on the loan depend on its sizing, so read them from the solved model
+  const proforma = useMemo(() => currentProject ? runProForma(currentProject) : null, [currentProject])
   
   if (!currentProject) return null
 
   const acquisition = currentProject.acquisition
   const property = currentProject.property
+  const loanAmount = proforma?.sourcesUses.totalDebt || 0
+  const itemAmount = (item: ClosingCostItem) => closingCostAmount(item, acquisition?.purchase_price || 0, loanAmount)
 
   // Calculate totals
-  const closingCostsTotal = acquisition?.closing_costs?.reduce((sum, item) => sum + (item.amount || 0), 0) || 0
+  const closingCostsTotal = Math.round(proforma?.sourcesUses.closingCosts || 0)
   const immediateCapitalTotal = acquisition?.immediate_capital?.reduce((sum, item) => sum + (item.amount || 0), 0) || 0
   const totalBasis = (acquisition?.purchase_price || 0) + closingCostsTotal + immediateCapitalTotal
 
@@ -302,7 +314,7 @@ export const AcquisitionSection: React.FC<AcquisitionSectionProps> = ({ onChange
             <div className="space-y-3">
               {acquisition?.closing_costs?.map((item) => (
                 <div key={item.id} className="flex items-center gap-4 p-4 rounded-lg bg-slate-800/50 border border-slate-700">
-                  <div className="flex-1 grid grid-cols-3 gap-4">
+                  <div className="flex-1 grid grid-cols-4 gap-4">
                     <Select
                       options={closingCostCategories.map(c => ({ value: c, label: c }))}
                       value={item.category}
@@ -314,13 +326,32 @@ export const AcquisitionSection: React.FC<AcquisitionSectionProps> = ({ onChange
                       value={item.description}
                       onChange={(e) => updateClosingCost(item.id, { description: e.target.value })}
                     />
-                    <Input
-                      type="number"
-                      leftAddon="$"
-                      placeholder="0"
-                      value={item.amount || ''}
-                      onChange={(e) => updateClosingCost(item.id, { amount: e.target.value ? Number(e.target.value) : 0 })}
+                    <Select
+                      options={closingCostBases}
+                      value={item.calculation_type === 'percentage' ? item.percentage_of : 'flat'}
+                      onChange={(e) => updateClosingCost(item.id, e.target.value === 'flat'
+                        ? { calculation_type: 'flat' }
+                        : { calculation_type: 'percentage', percentage_of: e.target.value as ClosingCostItem['percentage_of'] }
+                      )}
                     />
+                    {item.calculation_type === 'percentage' ? (
+                      <Input
+                        type="number"
+                        rightAddon="%"
+                        placeholder="0.00"
+                        value={item.percentage || ''}
+                        onChange={(e) => updateClosingCost(item.id, { percentage: e.target.value ? Number(e.target.value) : 0 })}
+                        helperText={`$${Math.round(itemAmount(item)).toLocaleString()}`}
+                      />
+                    ) : (
+                      <Input
+                        type="number"
+                        leftAddon="$"
+                        placeholder="0"
+                        value={item.amount || ''}
+                        onChange={(e) => updateClosingCost(item.id, { amount: e.target.value ? Number(e.target.value) : 0 })}
+                      />
+                    )}
                   </div>
                   <button
                     onClick={() => removeClosingCost(item.id)}
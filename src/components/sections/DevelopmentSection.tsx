@@ -0,0 +1,534 @@
+import React, { useMemo } from 'react'
+import { AlertTriangle, Calendar, HardHat, Plus, RefreshCw, Table, Trash2 } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardContent, Input, Select, Button } from '../ui'
+import { useProjectStore } from '../../store/projectStore'
+import { v4 as uuidv4 } from 'uuid'
+import { runProForma, DEFAULT_CONSTRUCTION_MONTHS, TAKEOUT_ID } from '../../engine'
+import { createDebtTranche } from '../../lib/debtTranche'
+import type { DebtTranche, DevelopmentBudgetItem, DevelopmentCostCategory, DrawCurve } from '../../types'
+
+const costCategories: { value: DevelopmentCostCategory; label: string }[] = [
+  { value: 'Hard Costs', label: 'Hard Costs' },
+  { value: 'Soft Costs', label: 'Soft Costs' },
+]
+
+const drawCurves: { value: DrawCurve; label: string }[] = [
+  { value: 'S-Curve', label: 'S-Curve (slow start and finish)' },
+  { value: 'Straight-Line', label: 'Straight-Line' },
+]
+
+const takeoutAmortizationOptions = [
+  { value: 'Interest Only (Full Term)', label: 'Interest Only (Full Term)' },
+  { value: 'Interest Only then Amortizing', label: 'IO then Amortizing' },
+  { value: 'Balloon', label: 'Amortizing with Balloon' },
+]
+
+interface DevelopmentSectionProps {
+  onChange: () => void
+}
+
+export const DevelopmentSection: React.FC<DevelopmentSectionProps> = ({ onChange }) => {
+  const { currentProject, updateDevelopment } = useProjectStore()
+  const proforma = useMemo(() => currentProject ? runProForma(currentProject) : null, [currentProject])
+
+  if (!currentProject) return null
+
+  const development = currentProject.development
+  const budget = development?.budget || []
+  const isDevelopment = currentProject.analysis?.analysis_type === 'Development'
+  const result = proforma?.development
+  const sourcesUses = proforma?.sourcesUses
+  const construction = sourcesUses?.construction
+  const takeout = development?.takeout_loan
+  const takeoutResult = proforma?.refinances.find(r => r.id === TAKEOUT_ID)
+
+  const fmt = (value: number) => `$${Math.round(value).toLocaleString()}`
+
+  const addItem = (category: DevelopmentCostCategory) => {
+    onChange()
+    const item: DevelopmentBudgetItem = { id: uuidv4(), category, description: '', amount: null }
+    updateDevelopment({ budget: [...budget, item] })
+  }
+
+  const updateItem = (id: string, updates: Partial<DevelopmentBudgetItem>) => {
+    onChange()
+    updateDevelopment({ budget: budget.map(item => item.id === id ? { ...item, ...updates } : item) })
+  }
+
+  const removeItem = (id: string) => {
+    onChange()
+    updateDevelopment({ budget: budget.filter(item => item.id !== id) })
+  }
+
+  const addTakeout = () => {
+    onChange()
+    updateDevelopment({
+      takeout_loan: { ...createDebtTranche('Permanent Loan'), sizing_method: 'LTV', loan_term_months: 120 },
+    })
+  }
+
+  const updateTakeout = (updates: Partial<DebtTranche>) => {
+    if (!takeout) return
+    onChange()
+    updateDevelopment({ takeout_loan: { ...takeout, ...updates } })
+  }
+
+  const takeoutHint = (type: 'LTV' | 'DSCR') => {
+    const constraint = takeoutResult?.sizing.constraints.find(c => c.type === type)
+    if (!constraint) return undefined
+    return `Max ${fmt(constraint.maxLoan)}${takeoutResult?.sizing.binding?.type === type ? ' • binding' : ''}`
+  }
+
+  // Closing, then each month through stabilization
+  const drawMonths = result && construction && proforma
+    ? Array.from({ length: Math.min(result.stabilizationMonth, proforma.holdMonths) + 1 }, (_, month) => ({
+        month,
+        equity: construction.equity[month],
+        loanDraws: construction.loanDraws[month],
+        capitalizedInterest: construction.capitalizedInterest[month],
+        balance: construction.loans.reduce((sum, l) => sum + (month === 0
+          ? l.periods[0]?.beginningBalance || 0
+          : l.periods[month - 1]?.endingBalance || 0), 0),
+      }))
+    : []
+  const drawTotal = (key: 'equity' | 'loanDraws' | 'capitalizedInterest') =>
+    drawMonths.reduce((sum, row) => sum + row[key], 0)
+
+  return (
+    <div className="space-y-6">
+      {!isDevelopment && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 text-sm text-amber-400">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          Set the analysis type to Development on the Property tab to include this budget and schedule in the model
+        </div>
+      )}
+
+      {/* Budget */}
+      <Card variant="elevated">
+        <CardHeader
+          action={
+            <div className="flex gap-2">
+              <Button variant="secondary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={() => addItem('Hard Costs')}>
+                Hard Cost
+              </Button>
+              <Button variant="secondary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={() => addItem('Soft Costs')}>
+                Soft Cost
+              </Button>
+            </div>
+          }
+        >
+          <CardTitle subtitle="Line items drawn over construction; the land is the acquisition purchase price">
+            <div className="flex items-center gap-2">
+              <HardHat className="w-5 h-5 text-emerald-400" />
+              Development Budget
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {budget.length === 0 ? (
+            <div className="text-center py-8 text-slate-400">
+              <p>No budget line items</p>
+              <p className="text-sm mt-1">Add hard costs (sitework, shell, interiors) and soft costs (design, permits, legal)</p>
+            </div>
+          ) : (
+            <div className="space-y-3 mb-6">
+              {budget.map(item => (
+                <div key={item.id} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+                  <div className="md:col-span-3">
+                    <Select
+                      label="Category"
+                      options={costCategories}
+                      value={item.category}
+                      onChange={(e) => updateItem(item.id, { category: e.target.value as DevelopmentCostCategory })}
+                    />
+                  </div>
+                  <div className="md:col-span-5">
+                    <Input
+                      label="Description"
+                      placeholder={item.category === 'Hard Costs' ? 'Building shell' : 'Architecture & engineering'}
+                      value={item.description}
+                      onChange={(e) => updateItem(item.id, { description: e.target.value })}
+                    />
+                  </div>
+                  <div className="md:col-span-3">
+                    <Input
+                      label="Amount"
+                      type="number"
+                      leftAddon="$"
+                      placeholder="0"
+                      value={item.amount || ''}
+                      onChange={(e) => updateItem(item.id, { amount: e.target.value ? Number(e.target.value) : null })}
+                    />
+                  </div>
+                  <div className="md:col-span-1 flex justify-end">
+                    <button
+                      onClick={() => removeItem(item.id)}
+                      className="p-2 text-slate-400 hover:text-red-400 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-6 border-t border-slate-700">
+            <Input
+              label="Hard Cost Contingency"
+              type="number"
+              rightAddon="%"
+              placeholder="5.00"
+              value={development?.hard_cost_contingency_pct || ''}
+              onChange={(e) => {
+                onChange()
+                updateDevelopment({ hard_cost_contingency_pct: e.target.value ? Number(e.target.value) : null })
+              }}
+            />
+            <Input
+              label="Soft Cost Contingency"
+              type="number"
+              rightAddon="%"
+              placeholder="3.00"
+              value={development?.soft_cost_contingency_pct || ''}
+              onChange={(e) => {
+                onChange()
+                updateDevelopment({ soft_cost_contingency_pct: e.target.value ? Number(e.target.value) : null })
+              }}
+            />
+          </div>
+
+          {result && sourcesUses && (
+            <div className="mt-6 pt-6 border-t border-slate-700 grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-xs text-slate-400">Land</p>
+                <p className="text-lg font-semibold text-white">{fmt(sourcesUses.purchasePrice)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Hard Costs</p>
+                <p className="text-lg font-semibold text-white">{fmt(result.hardCosts)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Soft Costs</p>
+                <p className="text-lg font-semibold text-white">{fmt(result.softCosts)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Contingency</p>
+                <p className="text-lg font-semibold text-white">{fmt(result.hardContingency + result.softContingency)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Construction Mgmt Fee</p>
+                <p className="text-lg font-semibold text-white">{fmt(result.managementFee)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Capitalized Interest</p>
+                <p className="text-lg font-semibold text-white">{fmt(sourcesUses.capitalizedInterest)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Total Project Cost</p>
+                <p className="text-lg font-semibold text-emerald-400">{fmt(sourcesUses.totalUses)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Yield on Cost</p>
+                <p className="text-lg font-semibold text-emerald-400">
+                  {proforma?.returns.yield_on_cost != null ? `${proforma.returns.yield_on_cost.toFixed(2)}%` : '—'}
+                </p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Schedule */}
+      <Card variant="elevated">
+        <CardHeader>
+          <CardTitle subtitle="Construction starts the month after closing; income begins at completion">
+            <div className="flex items-center gap-2">
+              <Calendar className="w-5 h-5 text-emerald-400" />
+              Construction & Lease-Up
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              label="Construction Period"
+              type="number"
+              rightAddon="months"
+              placeholder={String(DEFAULT_CONSTRUCTION_MONTHS)}
+              value={development?.construction_months || ''}
+              onChange={(e) => {
+                onChange()
+                updateDevelopment({ construction_months: e.target.value ? Number(e.target.value) : null })
+              }}
+            />
+            <Select
+              label="Draw Curve"
+              options={drawCurves}
+              value={development?.draw_curve || 'S-Curve'}
+              onChange={(e) => {
+                onChange()
+                updateDevelopment({ draw_curve: e.target.value as DrawCurve })
+              }}
+            />
+            <Input
+              label="Lease-Up Period"
+              type="number"
+              rightAddon="months"
+              placeholder="0"
+              helperText="From completion to full occupancy"
+              value={development?.lease_up_months || ''}
+              onChange={(e) => {
+                onChange()
+                updateDevelopment({ lease_up_months: e.target.value ? Number(e.target.value) : null })
+              }}
+            />
+          </div>
+          <p className="text-xs text-slate-500 mt-4">
+            Equity funds the closing and the draws first, then the loans up to their commitments, most junior first.
+            Loan interest capitalizes for each loan's interest reserve months on the Financing tab, or through
+            stabilization when blank.
+          </p>
+          {result && (
+            <div className="mt-6 pt-6 border-t border-slate-700 grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-xs text-slate-400">Completion</p>
+                <p className="text-lg font-semibold text-white">Month {result.completionMonth}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Stabilization</p>
+                <p className="text-lg font-semibold text-white">Month {result.stabilizationMonth}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Total Equity</p>
+                <p className="text-lg font-semibold text-white">{fmt(proforma?.totalEquity || 0)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-400">Loan Commitments</p>
+                <p className="text-lg font-semibold text-white">
+                  {fmt((sourcesUses?.totalDebt || 0) + (sourcesUses?.totalPreferredEquity || 0))}
+                </p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Draw Schedule */}
+      {drawMonths.length > 0 && (
+        <Card variant="elevated">
+          <CardHeader>
+            <CardTitle subtitle="Month 0 is closing; costs are funded by equity until it runs out">
+              <div className="flex items-center gap-2">
+                <Table className="w-5 h-5 text-emerald-400" />
+                Draw Schedule
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-slate-900">
+                  <tr className="border-b border-slate-700">
+                    <th className="text-left py-2 pr-4 font-medium text-slate-400">Month</th>
+                    <th className="text-right py-2 px-3 font-medium text-slate-400">Costs</th>
+                    <th className="text-right py-2 px-3 font-medium text-slate-400">Equity</th>
+                    <th className="text-right py-2 px-3 font-medium text-slate-400">Loan Draws</th>
+                    <th className="text-right py-2 px-3 font-medium text-slate-400">Capitalized Interest</th>
+                    <th className="text-right py-2 px-3 font-medium text-slate-400">Loan Balance</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700/50">
+                  {drawMonths.map(row => (
+                    <tr key={row.month}>
+                      <td className="py-1.5 pr-4 text-slate-300">{row.month === 0 ? 'Closing' : row.month}</td>
+                      <td className="py-1.5 px-3 text-right text-white tabular-nums">{fmt(row.equity + row.loanDraws)}</td>
+                      <td className="py-1.5 px-3 text-right text-white tabular-nums">{fmt(row.equity)}</td>
+                      <td className="py-1.5 px-3 text-right text-white tabular-nums">{fmt(row.loanDraws)}</td>
+                      <td className="py-1.5 px-3 text-right text-white tabular-nums">{fmt(row.capitalizedInterest)}</td>
+                      <td className="py-1.5 px-3 text-right text-slate-300 tabular-nums">{fmt(row.balance)}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t-2 border-slate-600">
+                    <td className="py-2 pr-4 font-semibold text-white">Total</td>
+                    <td className="py-2 px-3 text-right font-semibold text-emerald-400 tabular-nums">
+                      {fmt(drawTotal('equity') + drawTotal('loanDraws'))}
+                    </td>
+                    <td className="py-2 px-3 text-right font-semibold text-white tabular-nums">{fmt(drawTotal('equity'))}</td>
+                    <td className="py-2 px-3 text-right font-semibold text-white tabular-nums">{fmt(drawTotal('loanDraws'))}</td>
+                    <td className="py-2 px-3 text-right font-semibold text-white tabular-nums">{fmt(drawTotal('capitalizedInterest'))}</td>
+                    <td />
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Permanent Takeout */}
+      <Card variant="elevated">
+        <CardHeader
+          action={!takeout && (
+            <Button variant="secondary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={addTakeout}>
+              Add Takeout Loan
+            </Button>
+          )}
+        >
+          <CardTitle subtitle="Repays the construction debt at stabilization, sized on the stabilized value">
+            <div className="flex items-center gap-2">
+              <RefreshCw className="w-5 h-5 text-emerald-400" />
+              Permanent Takeout
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!takeout ? (
+            <div className="text-center py-8 text-slate-400">
+              <p>No permanent loan; the construction debt runs to maturity or the sale</p>
+            </div>
+          ) : (
+            <div className="p-6 rounded-xl bg-slate-800/50 border border-slate-700">
+              <div className="flex items-center justify-between mb-6">
+                <Input
+                  value={takeout.tranche_name}
+                  onChange={(e) => updateTakeout({ tranche_name: e.target.value })}
+                  className="text-lg font-semibold bg-transparent border-none p-0 focus:ring-0 max-w-xs"
+                />
+                <button
+                  onClick={() => {
+                    onChange()
+                    updateDevelopment({ takeout_loan: null })
+                  }}
+                  className="p-2 text-slate-400 hover:text-red-400 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+                <Input
+                  label="Takeout Cap Rate"
+                  type="number"
+                  rightAddon="%"
+                  placeholder={String(proforma?.exit.exitCapRate ?? 6.5)}
+                  helperText="On forward 12-month NOI; blank uses the exit cap"
+                  value={development?.takeout_cap_rate || ''}
+                  onChange={(e) => {
+                    onChange()
+                    updateDevelopment({ takeout_cap_rate: e.target.value ? Number(e.target.value) : null })
+                  }}
+                />
+                <Select
+                  label="Sizing Method"
+                  options={[
+                    { value: 'LTV', label: 'LTV on Stabilized Value' },
+                    { value: 'DSCR Constrained', label: 'DSCR Constrained' },
+                    { value: 'Loan Amount (direct)', label: 'Loan Amount (Direct)' },
+                  ]}
+                  value={takeout.sizing_method}
+                  onChange={(e) => updateTakeout({ sizing_method: e.target.value as never })}
+                />
+                {takeout.sizing_method === 'Loan Amount (direct)' ? (
+                  <Input
+                    label="Loan Amount"
+                    type="number"
+                    leftAddon="$"
+                    placeholder="0"
+                    value={takeout.loan_amount || ''}
+                    onChange={(e) => updateTakeout({ loan_amount: e.target.value ? Number(e.target.value) : null })}
+                  />
+                ) : (
+                  <>
+                    <Input
+                      label="Max LTV"
+                      type="number"
+                      rightAddon="%"
+                      placeholder="65"
+                      helperText={takeoutHint('LTV')}
+                      value={takeout.ltv_percentage || ''}
+                      onChange={(e) => updateTakeout({ ltv_percentage: e.target.value ? Number(e.target.value) : null })}
+                    />
+                    <Input
+                      label="Min DSCR"
+                      type="number"
+                      rightAddon="x"
+                      placeholder="1.25"
+                      helperText={takeoutHint('DSCR')}
+                      value={takeout.target_dscr || ''}
+                      onChange={(e) => updateTakeout({ target_dscr: e.target.value ? Number(e.target.value) : null })}
+                    />
+                  </>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+                <Input
+                  label="Interest Rate"
+                  type="number"
+                  rightAddon="%"
+                  placeholder="6.00"
+                  value={takeout.interest_rate_annual || ''}
+                  onChange={(e) => updateTakeout({ interest_rate_annual: e.target.value ? Number(e.target.value) : null })}
+                />
+                <Input
+                  label="Loan Term"
+                  type="number"
+                  rightAddon="months"
+                  placeholder="120"
+                  value={takeout.loan_term_months || ''}
+                  onChange={(e) => updateTakeout({ loan_term_months: e.target.value ? Number(e.target.value) : null })}
+                />
+                <Select
+                  label="Amortization"
+                  options={takeoutAmortizationOptions}
+                  value={takeout.amortization_type}
+                  onChange={(e) => updateTakeout({ amortization_type: e.target.value as never })}
+                />
+                <Input
+                  label="Origination Fee"
+                  type="number"
+                  rightAddon="%"
+                  placeholder="1.00"
+                  value={takeout.origination_fee_pct || ''}
+                  onChange={(e) => updateTakeout({ origination_fee_pct: e.target.value ? Number(e.target.value) : null })}
+                />
+              </div>
+
+              {takeoutResult ? (
+                <div className="pt-6 border-t border-slate-700 grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <div>
+                    <p className="text-xs text-slate-400">Takeout Month</p>
+                    <p className="text-lg font-semibold text-white">{takeoutResult.month}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400">Stabilized Value</p>
+                    <p className="text-lg font-semibold text-white">{fmt(takeoutResult.value)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400">Permanent Loan</p>
+                    <p className="text-lg font-semibold text-white">{fmt(takeoutResult.newLoanAmount)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400">Construction Payoff</p>
+                    <p className="text-lg font-semibold text-white">{fmt(takeoutResult.payoff)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400">Net to Equity</p>
+                    <p className={`text-lg font-semibold ${takeoutResult.netProceeds >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                      {fmt(takeoutResult.netProceeds)}
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-xs text-slate-500">
+                  {isDevelopment ? 'Stabilization falls after the sale, so the takeout is not placed' : 'Applies to Development analyses'}
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,15 +1,27 @@
-import React from 'react'
-import { CreditCard, Plus, Trash2 } from 'lucide-react'
-import { Card, CardHeader, CardTitle, CardContent, Input, Select, Button } from '../ui'
+import React, { useMemo, useState } from 'react'
+import { AlertTriangle, CreditCard, Plus, RefreshCw, Table, Trash2 } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardContent, Input, Select, Button, Modal } from '../ui'
 import { useProjectStore } from '../../store/projectStore'
+import { createDebtTranche } from '../../lib/debtTranche'
 import { v4 as uuidv4 } from 'uuid'
-import type { DebtTranche, CapitalStructureType } from '../../types'
+import { buildLoanSchedule, indexRateForMonth, isFloatingRate, runProForma, DEFAULT_STEP_DOWN, DEFAULT_TREASURY_RATE } from '../../engine'
+import type { ReserveType, SizingConstraintType } from '../../engine'
+import type {
+  DebtTranche,
+  CapitalPosition,
+  CapitalStructureType,
+  ForwardIndexCurve,
+  PrepaymentType,
+  RateIndex,
+  RefinanceEvent,
+} from '../../types'
 
 const capitalStructureTypes: { value: CapitalStructureType; label: string }[] = [
   { value: 'All Cash', label: 'All Cash' },
   { value: 'Single Senior Loan', label: 'Single Senior Loan' },
   { value: 'Senior + Mezzanine', label: 'Senior + Mezzanine' },
   { value: 'Senior + Preferred Equity', label: 'Senior + Preferred Equity' },
+  { value: 'Senior + Mezz + Pref', label: 'Senior + Mezz + Pref' },
   { value: 'Construction Loan', label: 'Construction Loan' },
   { value: 'Bridge Loan', label: 'Bridge Loan' },
   { value: 'Seller Financing', label: 'Seller Financing' },
@@ -17,66 +29,138 @@ const capitalStructureTypes: { value: CapitalStructureType; label: string }[] =
   { value: 'Multiple Loans', label: 'Multiple Loans' },
 ]
 
+const positionOptions: { value: CapitalPosition; label: string }[] = [
+  { value: 'Senior', label: 'Senior' },
+  { value: 'Mezzanine', label: 'Mezzanine' },
+  { value: 'Preferred Equity', label: 'Preferred Equity' },
+]
+
+// Layers each structure starts with, in pay order
+const structureLayers: Partial<Record<CapitalStructureType, CapitalPosition[]>> = {
+  'Senior + Mezzanine': ['Senior', 'Mezzanine'],
+  'Senior + Preferred Equity': ['Senior', 'Preferred Equity'],
+  'Senior + Mezz + Pref': ['Senior', 'Mezzanine', 'Preferred Equity'],
+}
+
+const layerNames: Record<CapitalPosition, string> = {
+  'Senior': 'Senior Loan',
+  'Mezzanine': 'Mezzanine Loan',
+  'Preferred Equity': 'Preferred Equity',
+}
+
+const amortizationOptions = [
+  { value: 'Interest Only (Full Term)', label: 'Interest Only (Full Term)' },
+  { value: 'Interest Only then Amortizing', label: 'IO then Amortizing' },
+  { value: 'Partial IO', label: 'Partial IO' },
+  { value: 'Fully Amortizing', label: 'Fully Amortizing (over term)' },
+  { value: 'Balloon', label: 'Amortizing with Balloon' },
+]
+
+const prepaymentOptions = [
+  { value: 'None', label: 'No Penalty' },
+  { value: 'Lockout then Open', label: 'Lockout then Open' },
+  { value: 'Yield Maintenance', label: 'Yield Maintenance' },
+  { value: 'Step-Down', label: 'Step-Down' },
+  { value: 'Defeasance', label: 'Defeasance' },
+]
+
+// Tenors offered on the Treasury curve, in years
+const treasuryTenors = [1, 2, 3, 5, 7, 10]
+
+// Prepayment type with the inputs it needs; shared by tranches and refinance loans
+const PrepaymentFields: React.FC<{
+  tranche: DebtTranche
+  onUpdate: (updates: Partial<DebtTranche>) => void
+}> = ({ tranche, onUpdate }) => (
+  <>
+    <Select
+      label="Prepayment Terms"
+      options={prepaymentOptions}
+      value={tranche.prepayment_type}
+      onChange={(e) => onUpdate({ prepayment_type: e.target.value as PrepaymentType })}
+    />
+    {tranche.prepayment_type !== 'None' && (
+      <Input
+        label="Lockout"
+        type="number"
+        rightAddon="months"
+        placeholder="0"
+        value={tranche.prepayment_lockout_months || ''}
+        onChange={(e) => onUpdate({ prepayment_lockout_months: e.target.value ? Number(e.target.value) : null })}
+      />
+    )}
+    {tranche.prepayment_type === 'Step-Down' && (
+      // Parsed on blur so a half-typed schedule isn't rewritten mid-edit
+      <Input
+        key={(tranche.prepayment_step_down || DEFAULT_STEP_DOWN).join('-')}
+        label="Step-Down Schedule"
+        placeholder={DEFAULT_STEP_DOWN.join('-')}
+        helperText="Percent of balance by loan year"
+        defaultValue={tranche.prepayment_step_down?.join('-') || ''}
+        onBlur={(e) => {
+          const steps = e.target.value.split(/[-,\s]+/).filter(Boolean).map(Number).filter(v => Number.isFinite(v) && v >= 0)
+          onUpdate({ prepayment_step_down: steps.length ? steps : null })
+        }}
+      />
+    )}
+    {tranche.prepayment_type === 'Defeasance' && (
+      <Input
+        label="Defeasance Fees"
+        type="number"
+        leftAddon="$"
+        placeholder="75000"
+        helperText="Legal, accounting and servicer costs"
+        value={tranche.defeasance_fee || ''}
+        onChange={(e) => onUpdate({ defeasance_fee: e.target.value ? Number(e.target.value) : null })}
+      />
+    )}
+  </>
+)
+
 interface FinancingSectionProps {
   onChange: () => void
 }
 
 export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange }) => {
   const { currentProject, updateFinancing } = useProjectStore()
-  
+  const [scheduleTrancheId, setScheduleTrancheId] = useState<string | null>(null)
+  // Sized tranches depend on NOI, price and cost, so re-run whenever the project changes
+  const proforma = useMemo(() => currentProject ? runProForma(currentProject) : null, [currentProject])
+
   if (!currentProject) return null
 
   const financing = currentProject.financing
   const acquisition = currentProject.acquisition
   const purchasePrice = acquisition?.purchase_price || 0
 
-  // Calculate totals
-  const totalDebt = financing?.debt_tranches?.reduce((sum, t) => sum + (t.loan_amount || 0), 0) || 0
-  const totalEquity = purchasePrice - totalDebt
+  // Totals from the solved sources & uses; preferred equity sits between the loans and common equity
+  const isPreferred = (t: DebtTranche) => t.position === 'Preferred Equity'
+  const sourcesUses = proforma?.sourcesUses
+  const totalDebt = sourcesUses?.totalDebt || 0
+  const totalUses = sourcesUses?.totalUses || 0
+  const totalEquity = sourcesUses?.equity || 0
+  const scheduleTranche = financing?.debt_tranches?.find(t => t.id === scheduleTrancheId) || null
+
+  // Sized amounts come from the model at render; only a direct amount is stored
+  const sizingFor = (id: string) => proforma?.sizing.find(s => s.trancheId === id)
+  const sizedTranche = (id: string) => sourcesUses?.tranches.find(t => t.id === id)
+  const isBinding = (id: string, type: SizingConstraintType) => sizingFor(id)?.binding?.type === type
+  const constraintHint = (id: string, type: SizingConstraintType) => {
+    const constraint = sizingFor(id)?.constraints.find(c => c.type === type)
+    if (!constraint) return undefined
+    return `Max $${Math.round(constraint.maxLoan).toLocaleString()}${isBinding(id, type) ? ' • binding' : ''}`
+  }
 
-  const addDebtTranche = () => {
+  const addDebtTranche = (structure: CapitalStructureType | undefined = financing?.structure_type) => {
     onChange()
-    const newTranche: DebtTranche = {
-      id: uuidv4(),
-      tranche_name: `Loan ${(financing?.debt_tranches?.length || 0) + 1}`,
-      sizing_method: 'Loan Amount (direct)',
-      loan_amount: null,
-      ltv_percentage: null,
-      ltc_percentage: null,
-      target_dscr: null,
-      target_debt_yield: null,
-      interest_type: 'Fixed Rate',
-      interest_rate_annual: null,
-      index: 'SOFR',
-      spread_bps: null,
-      floor_rate: null,
-      ceiling_rate: null,
-      index_assumption: null,
-      amortization_type: 'Interest Only (Full Term)',
-      amortization_years: 30,
-      io_period_months: null,
-      loan_term_months: 60,
-      origination_fee_pct: null,
-      origination_fee_flat: null,
-      exit_fee_pct: null,
-      prepayment_type: 'None',
-      prepayment_lockout_months: null,
-      other_loan_costs: [],
-      lender_required_reserves: {
-        tax_escrow_months: null,
-        insurance_escrow_months: null,
-        capex_reserve: null,
-        ti_lc_reserve: null,
-        interest_reserve_months: null,
-      },
-      covenants: {
-        min_dscr: null,
-        max_ltv: null,
-        min_debt_yield: null,
-      },
-    }
+    const existing = financing?.debt_tranches || []
+    // Fill the structure's next missing layer before falling back to another senior loan
+    const position = structureLayers[structure!]?.find(p => !existing.some(t => (t.position || 'Senior') === p))
+    const newTranche: DebtTranche = position
+      ? { ...createDebtTranche(layerNames[position]), position, loan_term_months: position === 'Preferred Equity' ? null : 60 }
+      : createDebtTranche(`Loan ${existing.length + 1}`)
     updateFinancing({ 
-      debt_tranches: [...(financing?.debt_tranches || []), newTranche] 
+      debt_tranches: [...existing, newTranche] 
     })
   }
 
@@ -89,6 +173,23 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
     })
   }
 
+  const updateCovenants = (tranche: DebtTranche, updates: Partial<DebtTranche['covenants']>) => {
+    updateTranche(tranche.id, { covenants: { ...tranche.covenants, ...updates } })
+  }
+
+  const updateReserves = (tranche: DebtTranche, updates: Partial<DebtTranche['lender_required_reserves']>) => {
+    updateTranche(tranche.id, { lender_required_reserves: { ...tranche.lender_required_reserves, ...updates } })
+  }
+
+  // Funded amount and what was left to release, from the model
+  const reserveHint = (id: string, type: ReserveType) => {
+    const reserve = proforma?.lenderReserves.reserves.find(r => r.trancheId === id && r.type === type)
+    if (!reserve) return undefined
+    return `${fmt(reserve.funded)} funded • ${fmt(reserve.released)} released`
+  }
+
+  const breachCount = (id: string) => proforma?.covenants.find(c => c.trancheId === id)?.breachCount
+
   const removeTranche = (id: string) => {
     onChange()
     updateFinancing({
@@ -96,6 +197,91 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
     })
   }
 
+  const refinances = financing?.refinances || []
+  const holdMonths = proforma?.holdMonths || 0
+  const refinanceResult = (id: string) => proforma?.refinances.find(r => r.id === id)
+
+  const addRefinance = () => {
+    onChange()
+    const event: RefinanceEvent = {
+      id: uuidv4(),
+      month: holdMonths > 36 ? 36 : null,
+      retired_tranche_ids: [],
+      valuation_cap_rate: null,
+      new_loan: {
+        ...createDebtTranche(`Refinance Loan ${refinances.length + 1}`),
+        sizing_method: 'LTV',
+        ltv_percentage: 65,
+      },
+    }
+    updateFinancing({ refinances: [...refinances, event] })
+  }
+
+  const updateRefinance = (id: string, updates: Partial<RefinanceEvent>) => {
+    onChange()
+    updateFinancing({
+      refinances: refinances.map(r => r.id === id ? { ...r, ...updates } : r)
+    })
+  }
+
+  const updateRefinanceLoan = (event: RefinanceEvent, updates: Partial<DebtTranche>) => {
+    updateRefinance(event.id, { new_loan: { ...event.new_loan, ...updates } })
+  }
+
+  const removeRefinance = (id: string) => {
+    onChange()
+    updateFinancing({ refinances: refinances.filter(r => r.id !== id) })
+  }
+
+  // Loans a refinance can repay: every tranche plus loans placed by earlier refinances
+  const repayableLoans = (event: RefinanceEvent) => [
+    ...(financing?.debt_tranches || []).map(t => ({ id: t.id, name: t.tranche_name })),
+    ...refinances
+      .filter(r => r.id !== event.id && (r.month || 0) < (event.month || 0))
+      .map(r => ({ id: r.new_loan.id, name: r.new_loan.tranche_name })),
+  ]
+
+  const toggleRetired = (event: RefinanceEvent, loanId: string) => {
+    const ids = event.retired_tranche_ids
+    updateRefinance(event.id, {
+      retired_tranche_ids: ids.includes(loanId) ? ids.filter(id => id !== loanId) : [...ids, loanId]
+    })
+  }
+
+  const fmt = (value: number) => `$${Math.round(value).toLocaleString()}`
+
+  // Floating tranches read their index year by year from a curve per index
+  const forwardCurves = financing?.forward_curves || []
+  const floatingTranches = (financing?.debt_tranches || []).filter(isFloatingRate)
+  const floatingIndices = [...new Set(floatingTranches.map(t => t.index))]
+  const curveYears = Math.max(1, Math.ceil(holdMonths / 12))
+
+  const setForwardRate = (index: RateIndex, year: number, rate: number | null) => {
+    onChange()
+    const existing = forwardCurves.find(c => c.index === index)
+    const rates = Array.from(
+      { length: Math.max(curveYears, existing?.rates.length || 0) },
+      (_, i) => existing?.rates[i] ?? null
+    )
+    rates[year] = rate
+    const curve: ForwardIndexCurve = { index, rates }
+    updateFinancing({ forward_curves: [...forwardCurves.filter(c => c.index !== index), curve] })
+  }
+
+  // The curve only matters once a loan is priced against Treasuries
+  const treasuryCurve = financing?.treasury_curve || []
+  const usesTreasuryCurve = [...(financing?.debt_tranches || []), ...refinances.map(r => r.new_loan)]
+    .some(t => t.prepayment_type === 'Yield Maintenance' || t.prepayment_type === 'Defeasance')
+
+  const setTreasuryRate = (termYears: number, rate: number | null) => {
+    onChange()
+    const others = treasuryCurve.filter(p => p.term_years !== termYears)
+    updateFinancing({
+      treasury_curve: (rate === null ? others : [...others, { term_years: termYears, rate }])
+        .sort((a, b) => a.term_years - b.term_years)
+    })
+  }
+
   const handleStructureChange = (type: CapitalStructureType) => {
     onChange()
     updateFinancing({ structure_type: type })
@@ -105,7 +291,7 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
       updateFinancing({ debt_tranches: [] })
     } else if ((financing?.debt_tranches?.length || 0) === 0) {
       // Auto-add first tranche if none exist
-      addDebtTranche()
+      addDebtTranche(type)
     }
   }
 
@@ -146,7 +332,7 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
         <Card variant="elevated">
           <CardHeader
             action={
-              <Button variant="secondary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={addDebtTranche}>
+              <Button variant="secondary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={() => addDebtTranche()}>
                 Add Tranche
               </Button>
             }
@@ -159,7 +345,7 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
             {(financing?.debt_tranches?.length || 0) === 0 ? (
               <div className="text-center py-8 text-slate-400">
                 <p className="mb-4">No debt tranches configured</p>
-                <Button variant="secondary" leftIcon={<Plus className="w-4 h-4" />} onClick={addDebtTranche}>
+                <Button variant="secondary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => addDebtTranche()}>
                   Add Debt Tranche
                 </Button>
               </div>
@@ -173,16 +359,34 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
                         onChange={(e) => updateTranche(tranche.id, { tranche_name: e.target.value })}
                         className="text-lg font-semibold bg-transparent border-none p-0 focus:ring-0 max-w-xs"
                       />
-                      <button
-                        onClick={() => removeTranche(tranche.id)}
-                        className="p-2 text-slate-400 hover:text-red-400 transition-colors"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          leftIcon={<Table className="w-4 h-4" />}
+                          onClick={() => setScheduleTrancheId(tranche.id)}
+                          disabled={!sizingFor(tranche.id)?.loanAmount}
+                        >
+                          Amortization
+                        </Button>
+                        <button
+                          onClick={() => removeTranche(tranche.id)}
+                          className="p-2 text-slate-400 hover:text-red-400 transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
                     </div>
 
                     {/* Loan Sizing */}
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                      <Select
+                        label="Position"
+                        options={positionOptions}
+                        value={tranche.position || 'Senior'}
+                        onChange={(e) => updateTranche(tranche.id, { position: e.target.value as CapitalPosition })}
+                        helperText={tranche.position && tranche.position !== 'Senior' ? 'Paid after the layers above it' : undefined}
+                      />
                       <Select
                         label="Sizing Method"
                         options={[
@@ -193,7 +397,13 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
                           { value: 'Debt Yield Constrained', label: 'Debt Yield Constrained' },
                         ]}
                         value={tranche.sizing_method}
-                        onChange={(e) => updateTranche(tranche.id, { sizing_method: e.target.value as never })}
+                        onChange={(e) => {
+                          const sizing_method = e.target.value as DebtTranche['sizing_method']
+                          // Switching to a direct amount starts from what the targets sized
+                          updateTranche(tranche.id, sizing_method === 'Loan Amount (direct)' && !tranche.loan_amount
+                            ? { sizing_method, loan_amount: sizingFor(tranche.id)?.loanAmount || null }
+                            : { sizing_method })
+                        }}
                       />
                       
                       {tranche.sizing_method === 'Loan Amount (direct)' && (
@@ -207,33 +417,67 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
                         />
                       )}
                       
-                      {tranche.sizing_method === 'LTV' && (
-                        <>
-                          <Input
-                            label="LTV Percentage"
-                            type="number"
-                            rightAddon="%"
-                            placeholder="65"
-                            value={tranche.ltv_percentage || ''}
-                            onChange={(e) => {
-                              const ltv = e.target.value ? Number(e.target.value) : null
-                              updateTranche(tranche.id, { 
-                                ltv_percentage: ltv,
-                                loan_amount: ltv && purchasePrice ? Math.round(purchasePrice * ltv / 100) : null
-                              })
-                            }}
-                          />
-                          <Input
-                            label="Calculated Loan Amount"
-                            type="number"
-                            leftAddon="$"
-                            value={tranche.loan_amount || ''}
-                            disabled
-                          />
-                        </>
+                      {tranche.sizing_method !== 'Loan Amount (direct)' && (
+                        <Input
+                          label="Sized Loan Amount"
+                          type="number"
+                          leftAddon="$"
+                          value={sizingFor(tranche.id)?.loanAmount || ''}
+                          helperText={sizingFor(tranche.id)?.binding
+                            ? `${sizingFor(tranche.id)?.binding?.type} constraint binds`
+                            : 'Enter at least one sizing target'}
+                          disabled
+                        />
                       )}
                     </div>
 
+                    {/* Sizing Constraints - the lowest max loan binds */}
+                    {tranche.sizing_method !== 'Loan Amount (direct)' && (
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                        <Input
+                          label="Max LTV"
+                          type="number"
+                          rightAddon="%"
+                          placeholder="65"
+                          value={tranche.ltv_percentage || ''}
+                          onChange={(e) => updateTranche(tranche.id, { ltv_percentage: e.target.value ? Number(e.target.value) : null })}
+                          helperText={constraintHint(tranche.id, 'LTV')}
+                          state={isBinding(tranche.id, 'LTV') ? 'known' : undefined}
+                        />
+                        <Input
+                          label="Max LTC"
+                          type="number"
+                          rightAddon="%"
+                          placeholder="70"
+                          value={tranche.ltc_percentage || ''}
+                          onChange={(e) => updateTranche(tranche.id, { ltc_percentage: e.target.value ? Number(e.target.value) : null })}
+                          helperText={constraintHint(tranche.id, 'LTC')}
+                          state={isBinding(tranche.id, 'LTC') ? 'known' : undefined}
+                        />
+                        <Input
+                          label="Min DSCR"
+                          type="number"
+                          rightAddon="x"
+                          placeholder="1.25"
+                          step="0.05"
+                          value={tranche.target_dscr || ''}
+                          onChange={(e) => updateTranche(tranche.id, { target_dscr: e.target.value ? Number(e.target.value) : null })}
+                          helperText={constraintHint(tranche.id, 'DSCR')}
+                          state={isBinding(tranche.id, 'DSCR') ? 'known' : undefined}
+                        />
+                        <Input
+                          label="Min Debt Yield"
+                          type="number"
+                          rightAddon="%"
+                          placeholder="9.0"
+                          value={tranche.target_debt_yield || ''}
+                          onChange={(e) => updateTranche(tranche.id, { target_debt_yield: e.target.value ? Number(e.target.value) : null })}
+                          helperText={constraintHint(tranche.id, 'Debt Yield')}
+                          state={isBinding(tranche.id, 'Debt Yield') ? 'known' : undefined}
+                        />
+                      </div>
+                    )}
+
                     {/* Interest */}
                     <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
                       <Select
@@ -242,20 +486,48 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
                           { value: 'Fixed Rate', label: 'Fixed Rate' },
                           { value: 'Floating Rate', label: 'Floating Rate' },
                           { value: 'Floating with Cap', label: 'Floating with Cap' },
+                          { value: 'Floating with Swap', label: 'Floating with Swap' },
+                          { value: 'Step Rate', label: 'Step Rate' },
+                          { value: 'Accruing/PIK', label: 'Accruing / PIK' },
                         ]}
                         value={tranche.interest_type}
                         onChange={(e) => updateTranche(tranche.id, { interest_type: e.target.value as never })}
                       />
                       
-                      {tranche.interest_type === 'Fixed Rate' ? (
-                        <Input
-                          label="Interest Rate"
-                          type="number"
-                          rightAddon="%"
-                          placeholder="6.50"
-                          value={tranche.interest_rate_annual || ''}
-                          onChange={(e) => updateTranche(tranche.id, { interest_rate_annual: e.target.value ? Number(e.target.value) : null })}
-                        />
+                      {!isFloatingRate(tranche) ? (
+                        <>
+                          <Input
+                            label={isPreferred(tranche) ? 'Preferred Return' : tranche.interest_type === 'Step Rate' ? 'Initial Rate' : 'Interest Rate'}
+                            type="number"
+                            rightAddon="%"
+                            placeholder="6.50"
+                            value={tranche.interest_rate_annual || ''}
+                            onChange={(e) => updateTranche(tranche.id, { interest_rate_annual: e.target.value ? Number(e.target.value) : null })}
+                            helperText={tranche.interest_type === 'Accruing/PIK' ? 'Interest accrues to the balance' : undefined}
+                          />
+                          {tranche.interest_type === 'Step Rate' && (
+                            <Input
+                              label="Annual Step-Up"
+                              type="number"
+                              rightAddon="bps"
+                              placeholder="25"
+                              value={tranche.step_rate_increase_bps || ''}
+                              onChange={(e) => updateTranche(tranche.id, { step_rate_increase_bps: e.target.value ? Number(e.target.value) : null })}
+                              helperText="Added each loan year"
+                            />
+                          )}
+                          {tranche.position && tranche.position !== 'Senior' && tranche.interest_type !== 'Accruing/PIK' && (
+                            <Input
+                              label="Accrued Portion"
+                              type="number"
+                              rightAddon="%"
+                              placeholder="0.00"
+                              value={tranche.accrual_rate || ''}
+                              onChange={(e) => updateTranche(tranche.id, { accrual_rate: e.target.value ? Number(e.target.value) : null })}
+                              helperText="Added to the balance; the rest is paid currently"
+                            />
+                          )}
+                        </>
                       ) : (
                         <>
                           <Select
@@ -284,6 +556,72 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
                             value={tranche.index_assumption || ''}
                             onChange={(e) => updateTranche(tranche.id, { index_assumption: e.target.value ? Number(e.target.value) : null })}
                           />
+                          <Input
+                            label="Index Floor"
+                            type="number"
+                            rightAddon="%"
+                            placeholder="0.00"
+                            value={tranche.floor_rate ?? ''}
+                            onChange={(e) => updateTranche(tranche.id, { floor_rate: e.target.value ? Number(e.target.value) : null })}
+                          />
+                          <Input
+                            label="Index Ceiling"
+                            type="number"
+                            rightAddon="%"
+                            placeholder="None"
+                            value={tranche.ceiling_rate || ''}
+                            onChange={(e) => updateTranche(tranche.id, { ceiling_rate: e.target.value ? Number(e.target.value) : null })}
+                          />
+                          {tranche.interest_type === 'Floating with Cap' && (
+                            <>
+                              <Input
+                                label="Cap Strike"
+                                type="number"
+                                rightAddon="%"
+                                placeholder="6.00"
+                                value={tranche.cap_strike_rate || ''}
+                                onChange={(e) => updateTranche(tranche.id, { cap_strike_rate: e.target.value ? Number(e.target.value) : null })}
+                              />
+                              <Input
+                                label="Cap Cost"
+                                type="number"
+                                leftAddon="$"
+                                placeholder="0"
+                                helperText="Premium paid at closing"
+                                value={tranche.cap_cost || ''}
+                                onChange={(e) => updateTranche(tranche.id, { cap_cost: e.target.value ? Number(e.target.value) : null })}
+                              />
+                              <Input
+                                label="Cap Term"
+                                type="number"
+                                rightAddon="months"
+                                placeholder={String(tranche.loan_term_months || 36)}
+                                helperText="Blank covers the full loan term"
+                                value={tranche.cap_term_months || ''}
+                                onChange={(e) => updateTranche(tranche.id, { cap_term_months: e.target.value ? Number(e.target.value) : null })}
+                              />
+                              <Input
+                                label="Replacement Cost"
+                                type="number"
+                                leftAddon="$"
+                                placeholder="0"
+                                helperText="Each new cap as one expires, e.g. at extension"
+                                value={tranche.cap_replacement_cost || ''}
+                                onChange={(e) => updateTranche(tranche.id, { cap_replacement_cost: e.target.value ? Number(e.target.value) : null })}
+                              />
+                            </>
+                          )}
+                          {tranche.interest_type === 'Floating with Swap' && (
+                            <Input
+                              label="Swap Fixed Rate"
+                              type="number"
+                              rightAddon="%"
+                              placeholder="4.00"
+                              helperText="Paid in place of the index"
+                              value={tranche.swap_rate ?? ''}
+                              onChange={(e) => updateTranche(tranche.id, { swap_rate: e.target.value ? Number(e.target.value) : null })}
+                            />
+                          )}
                         </>
                       )}
                     </div>
@@ -292,16 +630,12 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
                     <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                       <Select
                         label="Amortization"
-                        options={[
-                          { value: 'Interest Only (Full Term)', label: 'Interest Only (Full Term)' },
-                          { value: 'Interest Only then Amortizing', label: 'IO then Amortizing' },
-                          { value: 'Fully Amortizing', label: 'Fully Amortizing' },
-                        ]}
+                        options={amortizationOptions}
                         value={tranche.amortization_type}
                         onChange={(e) => updateTranche(tranche.id, { amortization_type: e.target.value as never })}
                       />
                       
-                      {tranche.amortization_type !== 'Interest Only (Full Term)' && (
+                      {tranche.amortization_type !== 'Interest Only (Full Term)' && tranche.amortization_type !== 'Fully Amortizing' && (
                         <Input
                           label="Amortization Period"
                           type="number"
@@ -312,7 +646,7 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
                         />
                       )}
                       
-                      {tranche.amortization_type === 'Interest Only then Amortizing' && (
+                      {(tranche.amortization_type === 'Interest Only then Amortizing' || tranche.amortization_type === 'Partial IO') && (
                         <Input
                           label="IO Period"
                           type="number"
@@ -324,10 +658,10 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
                       )}
                       
                       <Input
-                        label="Loan Term"
+                        label={isPreferred(tranche) ? 'Redemption Month' : 'Loan Term'}
                         type="number"
                         rightAddon="months"
-                        placeholder="60"
+                        placeholder={isPreferred(tranche) ? 'At sale' : '60'}
                         value={tranche.loan_term_months || ''}
                         onChange={(e) => updateTranche(tranche.id, { loan_term_months: e.target.value ? Number(e.target.value) : null })}
                       />
@@ -336,7 +670,7 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
                     {/* Fees */}
                     <div className="mt-6 pt-6 border-t border-slate-700">
                       <h4 className="text-sm font-medium text-slate-300 mb-4">Loan Fees</h4>
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                         <Input
                           label="Origination Fee"
                           type="number"
@@ -353,16 +687,108 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
                           value={tranche.exit_fee_pct || ''}
                           onChange={(e) => updateTranche(tranche.id, { exit_fee_pct: e.target.value ? Number(e.target.value) : null })}
                         />
-                        <Select
-                          label="Prepayment Terms"
-                          options={[
-                            { value: 'None', label: 'No Penalty' },
-                            { value: 'Lockout then Open', label: 'Lockout then Open' },
-                            { value: 'Yield Maintenance', label: 'Yield Maintenance' },
-                            { value: 'Step-Down', label: 'Step-Down' },
-                          ]}
-                          value={tranche.prepayment_type}
-                          onChange={(e) => updateTranche(tranche.id, { prepayment_type: e.target.value })}
+                        <PrepaymentFields tranche={tranche} onUpdate={(updates) => updateTranche(tranche.id, updates)} />
+                      </div>
+                    </div>
+
+                    {/* Lender Reserves */}
+                    <div className="mt-6 pt-6 border-t border-slate-700">
+                      <h4 className="text-sm font-medium text-slate-300 mb-4">Lender Reserves</h4>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <Input
+                          label="Tax Escrow"
+                          type="number"
+                          rightAddon="months"
+                          placeholder="0"
+                          value={tranche.lender_required_reserves?.tax_escrow_months || ''}
+                          onChange={(e) => updateReserves(tranche, { tax_escrow_months: e.target.value ? Number(e.target.value) : null })}
+                          helperText={reserveHint(tranche.id, 'Tax Escrow') || 'Months of modeled real estate taxes'}
+                        />
+                        <Input
+                          label="Insurance Escrow"
+                          type="number"
+                          rightAddon="months"
+                          placeholder="0"
+                          value={tranche.lender_required_reserves?.insurance_escrow_months || ''}
+                          onChange={(e) => updateReserves(tranche, { insurance_escrow_months: e.target.value ? Number(e.target.value) : null })}
+                          helperText={reserveHint(tranche.id, 'Insurance Escrow') || 'Months of modeled insurance'}
+                        />
+                        <Input
+                          label="Interest Reserve"
+                          type="number"
+                          rightAddon="months"
+                          placeholder="0"
+                          value={tranche.lender_required_reserves?.interest_reserve_months || ''}
+                          onChange={(e) => updateReserves(tranche, { interest_reserve_months: e.target.value ? Number(e.target.value) : null })}
+                          helperText={reserveHint(tranche.id, 'Interest Reserve') || 'Months of this loan\'s debt service'}
+                        />
+                        <Input
+                          label="CapEx Reserve"
+                          type="number"
+                          leftAddon="$"
+                          placeholder="0"
+                          value={tranche.lender_required_reserves?.capex_reserve || ''}
+                          onChange={(e) => updateReserves(tranche, { capex_reserve: e.target.value ? Number(e.target.value) : null })}
+                          helperText={reserveHint(tranche.id, 'CapEx Reserve') || 'Drawn as capital reserves are spent'}
+                        />
+                        <Input
+                          label="TI/LC Reserve"
+                          type="number"
+                          leftAddon="$"
+                          placeholder="0"
+                          value={tranche.lender_required_reserves?.ti_lc_reserve || ''}
+                          onChange={(e) => updateReserves(tranche, { ti_lc_reserve: e.target.value ? Number(e.target.value) : null })}
+                          helperText={reserveHint(tranche.id, 'TI/LC Reserve') || 'Drawn as leasing costs are paid'}
+                        />
+                      </div>
+                    </div>
+
+                    {/* Covenants */}
+                    <div className="mt-6 pt-6 border-t border-slate-700">
+                      <div className="flex items-center justify-between mb-4">
+                        <h4 className="text-sm font-medium text-slate-300">Covenants</h4>
+                        {(breachCount(tranche.id) || 0) > 0 && (
+                          <span className="flex items-center gap-1 text-xs text-red-400">
+                            <AlertTriangle className="w-3 h-3" />
+                            Breached in {breachCount(tranche.id)} period{breachCount(tranche.id) === 1 ? '' : 's'}
+                          </span>
+                        )}
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        <Input
+                          label="Min DSCR"
+                          type="number"
+                          rightAddon="x"
+                          placeholder="1.25"
+                          value={tranche.covenants?.min_dscr || ''}
+                          onChange={(e) => updateCovenants(tranche, { min_dscr: e.target.value ? Number(e.target.value) : null })}
+                          helperText="On trailing 12-month NOI"
+                        />
+                        <Input
+                          label="Max LTV"
+                          type="number"
+                          rightAddon="%"
+                          placeholder="75"
+                          value={tranche.covenants?.max_ltv || ''}
+                          onChange={(e) => updateCovenants(tranche, { max_ltv: e.target.value ? Number(e.target.value) : null })}
+                          helperText="Value marked at the exit cap"
+                        />
+                        <Input
+                          label="Min Debt Yield"
+                          type="number"
+                          rightAddon="%"
+                          placeholder="8.0"
+                          value={tranche.covenants?.min_debt_yield || ''}
+                          onChange={(e) => updateCovenants(tranche, { min_debt_yield: e.target.value ? Number(e.target.value) : null })}
+                        />
+                        <Input
+                          label="Cash Sweep"
+                          type="number"
+                          rightAddon="%"
+                          placeholder="0"
+                          value={tranche.covenants?.cash_sweep_pct || ''}
+                          onChange={(e) => updateCovenants(tranche, { cash_sweep_pct: e.target.value ? Number(e.target.value) : null })}
+                          helperText="Excess cash to principal while in breach"
                         />
                       </div>
                     </div>
@@ -370,10 +796,310 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
                 ))}
               </div>
             )}
+
+            {floatingIndices.length > 0 && (
+              <div className="mt-6 pt-6 border-t border-slate-700">
+                <h4 className="text-sm font-medium text-slate-300 mb-1">Forward Index Curve</h4>
+                <p className="text-xs text-slate-500 mb-4">
+                  Index by year of the hold; blank years carry the prior year forward, starting from the tranche's index assumption
+                </p>
+                <div className="space-y-4">
+                  {floatingIndices.map(index => {
+                    const tranche = floatingTranches.find(t => t.index === index)!
+                    const rates = forwardCurves.find(c => c.index === index)?.rates || []
+                    return (
+                      <div key={index} className="grid grid-cols-[6rem_1fr] gap-4 items-end">
+                        <p className="pb-2 font-medium text-white">{index}</p>
+                        <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+                          {Array.from({ length: curveYears }, (_, year) => (
+                            <Input
+                              key={year}
+                              label={`Year ${year + 1}`}
+                              type="number"
+                              rightAddon="%"
+                              step={0.05}
+                              placeholder={indexRateForMonth(tranche, year * 12 + 1, forwardCurves).toFixed(2)}
+                              value={rates[year] ?? ''}
+                              onChange={(e) => setForwardRate(index, year, e.target.value === '' ? null : Number(e.target.value))}
+                            />
+                          ))}
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )}
+
+            {usesTreasuryCurve && (
+              <div className="mt-6 pt-6 border-t border-slate-700">
+                <h4 className="text-sm font-medium text-slate-300 mb-1">Treasury Curve</h4>
+                <p className="text-xs text-slate-500 mb-4">
+                  Yield maintenance and defeasance discount at these yields, interpolated by remaining term; blank tenors are skipped
+                </p>
+                <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+                  {treasuryTenors.map(term => (
+                    <Input
+                      key={term}
+                      label={`${term}-Year`}
+                      type="number"
+                      rightAddon="%"
+                      placeholder={String(DEFAULT_TREASURY_RATE)}
+                      step={0.05}
+                      value={treasuryCurve.find(p => p.term_years === term)?.rate ?? ''}
+                      onChange={(e) => setTreasuryRate(term, e.target.value === '' ? null : Number(e.target.value))}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
 
+      {/* Refinancing */}
+      <Card variant="elevated">
+        <CardHeader
+          action={
+            <Button variant="secondary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={addRefinance}>
+              Add Refinance
+            </Button>
+          }
+        >
+          <CardTitle subtitle="Repay existing debt mid-hold with a new loan; cash-out goes to equity that month">
+            <div className="flex items-center gap-2">
+              <RefreshCw className="w-5 h-5 text-emerald-400" />
+              Refinancing
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {refinances.length === 0 ? (
+            <div className="text-center py-8 text-slate-400">
+              <p>No refinance events scheduled</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {refinances.map((event) => {
+                const result = refinanceResult(event.id)
+                const loan = event.new_loan
+                const refinanceHint = (type: SizingConstraintType) => {
+                  const constraint = result?.sizing.constraints.find(c => c.type === type)
+                  if (!constraint) return undefined
+                  return `Max ${fmt(constraint.maxLoan)}${result?.sizing.binding?.type === type ? ' • binding' : ''}`
+                }
+                return (
+                  <div key={event.id} className="p-6 rounded-xl bg-slate-800/50 border border-slate-700">
+                    <div className="flex items-center justify-between mb-6">
+                      <Input
+                        value={loan.tranche_name}
+                        onChange={(e) => updateRefinanceLoan(event, { tranche_name: e.target.value })}
+                        className="text-lg font-semibold bg-transparent border-none p-0 focus:ring-0 max-w-xs"
+                      />
+                      <button
+                        onClick={() => removeRefinance(event.id)}
+                        className="p-2 text-slate-400 hover:text-red-400 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+
+                    {/* Timing and value */}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                      <Input
+                        label="Refinance Month"
+                        type="number"
+                        rightAddon="month"
+                        placeholder="36"
+                        helperText={`Of a ${holdMonths}-month hold`}
+                        value={event.month || ''}
+                        onChange={(e) => updateRefinance(event.id, { month: e.target.value ? Number(e.target.value) : null })}
+                      />
+                      <Input
+                        label="Valuation Cap Rate"
+                        type="number"
+                        rightAddon="%"
+                        placeholder={String(proforma?.exit.exitCapRate ?? 6.5)}
+                        helperText="On forward 12-month NOI; blank uses the exit cap"
+                        value={event.valuation_cap_rate || ''}
+                        onChange={(e) => updateRefinance(event.id, { valuation_cap_rate: e.target.value ? Number(e.target.value) : null })}
+                      />
+                      <Select
+                        label="Sizing Method"
+                        options={[
+                          { value: 'LTV', label: 'LTV on Current Value' },
+                          { value: 'DSCR Constrained', label: 'DSCR Constrained' },
+                          { value: 'Loan Amount (direct)', label: 'Loan Amount (Direct)' },
+                        ]}
+                        value={loan.sizing_method}
+                        onChange={(e) => updateRefinanceLoan(event, { sizing_method: e.target.value as never })}
+                      />
+                    </div>
+
+                    {/* Loans repaid */}
+                    <div className="mb-6">
+                      <p className="text-sm font-medium text-slate-300 mb-2">Loans Repaid</p>
+                      <div className="flex flex-wrap gap-2">
+                        {repayableLoans(event).map(l => (
+                          <button
+                            key={l.id}
+                            onClick={() => toggleRetired(event, l.id)}
+                            className={`px-3 py-1.5 rounded-lg text-sm border transition-colors ${
+                              event.retired_tranche_ids.includes(l.id)
+                                ? 'bg-emerald-500/20 border-emerald-500/50 text-emerald-300'
+                                : 'border-slate-600 text-slate-400 hover:text-white'
+                            }`}
+                          >
+                            {l.name}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-slate-500 mt-2">
+                        {event.retired_tranche_ids.length === 0 ? 'None selected — every outstanding loan is repaid' : 'Only the selected loans are repaid'}
+                      </p>
+                    </div>
+
+                    {/* New loan terms */}
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+                      {loan.sizing_method === 'Loan Amount (direct)' ? (
+                        <Input
+                          label="Loan Amount"
+                          type="number"
+                          leftAddon="$"
+                          placeholder="0"
+                          value={loan.loan_amount || ''}
+                          onChange={(e) => updateRefinanceLoan(event, { loan_amount: e.target.value ? Number(e.target.value) : null })}
+                        />
+                      ) : (
+                        <>
+                          <Input
+                            label="Max LTV"
+                            type="number"
+                            rightAddon="%"
+                            placeholder="65"
+                            helperText={refinanceHint('LTV')}
+                            value={loan.ltv_percentage || ''}
+                            onChange={(e) => updateRefinanceLoan(event, { ltv_percentage: e.target.value ? Number(e.target.value) : null })}
+                          />
+                          <Input
+                            label="Min DSCR"
+                            type="number"
+                            rightAddon="x"
+                            placeholder="1.25"
+                            helperText={refinanceHint('DSCR')}
+                            value={loan.target_dscr || ''}
+                            onChange={(e) => updateRefinanceLoan(event, { target_dscr: e.target.value ? Number(e.target.value) : null })}
+                          />
+                        </>
+                      )}
+                      <Input
+                        label="Interest Rate"
+                        type="number"
+                        rightAddon="%"
+                        placeholder="6.50"
+                        value={loan.interest_rate_annual || ''}
+                        onChange={(e) => updateRefinanceLoan(event, { interest_rate_annual: e.target.value ? Number(e.target.value) : null })}
+                      />
+                      <Input
+                        label="Loan Term"
+                        type="number"
+                        rightAddon="months"
+                        placeholder="60"
+                        value={loan.loan_term_months || ''}
+                        onChange={(e) => updateRefinanceLoan(event, { loan_term_months: e.target.value ? Number(e.target.value) : null })}
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+                      <Select
+                        label="Amortization"
+                        options={amortizationOptions}
+                        value={loan.amortization_type}
+                        onChange={(e) => updateRefinanceLoan(event, { amortization_type: e.target.value as never })}
+                      />
+                      {loan.amortization_type !== 'Interest Only (Full Term)' && loan.amortization_type !== 'Fully Amortizing' && (
+                        <Input
+                          label="Amortization Period"
+                          type="number"
+                          rightAddon="years"
+                          placeholder="30"
+                          value={loan.amortization_years || ''}
+                          onChange={(e) => updateRefinanceLoan(event, { amortization_years: e.target.value ? Number(e.target.value) : null })}
+                        />
+                      )}
+                      {(loan.amortization_type === 'Interest Only then Amortizing' || loan.amortization_type === 'Partial IO') && (
+                        <Input
+                          label="IO Period"
+                          type="number"
+                          rightAddon="months"
+                          placeholder="24"
+                          value={loan.io_period_months || ''}
+                          onChange={(e) => updateRefinanceLoan(event, { io_period_months: e.target.value ? Number(e.target.value) : null })}
+                        />
+                      )}
+                      <Input
+                        label="Origination Fee"
+                        type="number"
+                        rightAddon="%"
+                        placeholder="1.00"
+                        value={loan.origination_fee_pct || ''}
+                        onChange={(e) => updateRefinanceLoan(event, { origination_fee_pct: e.target.value ? Number(e.target.value) : null })}
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+                      <PrepaymentFields tranche={loan} onUpdate={(updates) => updateRefinanceLoan(event, updates)} />
+                    </div>
+
+                    {result ? (
+                      <div className="pt-6 border-t border-slate-700 grid grid-cols-2 md:grid-cols-6 gap-4">
+                        <div>
+                          <p className="text-xs text-slate-400">Value</p>
+                          <p className="text-lg font-semibold text-white">{fmt(result.value)}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-slate-400">New Loan</p>
+                          <p className="text-lg font-semibold text-white">{fmt(result.newLoanAmount)}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-slate-400">Payoff</p>
+                          <p className="text-lg font-semibold text-white">{fmt(result.payoff)}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-slate-400">Prepayment Penalty</p>
+                          <p className="text-lg font-semibold text-white">{fmt(result.prepaymentPenalty)}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-slate-400">Loan Costs & Fee</p>
+                          <p className="text-lg font-semibold text-white">{fmt(result.loanCosts + result.refinanceFee)}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-slate-400">{result.netProceeds >= 0 ? 'Cash-Out to Equity' : 'Equity Required'}</p>
+                          <p className={`text-lg font-semibold ${result.netProceeds >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                            {fmt(Math.abs(result.netProceeds))}
+                          </p>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2 p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 text-sm text-amber-400">
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        Set a refinance month between 1 and {Math.max(1, holdMonths - 1)} to include it in the model
+                      </div>
+                    )}
+                    {result && result.lockedOut.length > 0 && (
+                      <div className="flex items-center gap-2 p-3 mt-4 rounded-lg bg-amber-500/10 border border-amber-500/30 text-sm text-amber-400">
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        {result.lockedOut.join(', ')} {result.lockedOut.length === 1 ? 'is' : 'are'} still inside the prepayment lockout in month {result.month}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Equity Structure */}
       <Card variant="elevated">
         <CardHeader>
@@ -425,6 +1151,7 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
                 type="number"
                 rightAddon="% / yr"
                 placeholder="2.00"
+                helperText="Of contributed equity"
                 value={financing?.fees?.asset_management_fee_pct || ''}
                 onChange={(e) => {
                   onChange()
@@ -452,6 +1179,42 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
                   })
                 }}
               />
+              <Input
+                label="Refinance Fee"
+                type="number"
+                rightAddon="%"
+                placeholder="0.50"
+                helperText="Of the new loan amount"
+                value={financing?.fees?.refinance_fee_pct || ''}
+                onChange={(e) => {
+                  onChange()
+                  updateFinancing({
+                    fees: {
+                      ...financing?.fees,
+                      refinance_fee_pct: e.target.value ? Number(e.target.value) : null
+                    }
+                  })
+                }}
+              />
+              {currentProject.analysis?.analysis_type === 'Development' && (
+                <Input
+                  label="Construction Mgmt Fee"
+                  type="number"
+                  rightAddon="%"
+                  placeholder="3.00"
+                  helperText="Of hard costs, drawn with the budget"
+                  value={financing?.fees?.construction_management_fee_pct || ''}
+                  onChange={(e) => {
+                    onChange()
+                    updateFinancing({
+                      fees: {
+                        ...financing?.fees,
+                        construction_management_fee_pct: e.target.value ? Number(e.target.value) : null
+                      }
+                    })
+                  }}
+                />
+              )}
             </div>
           </div>
         </CardContent>
@@ -460,28 +1223,31 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
       {/* Sources & Uses Summary */}
       <Card variant="elevated" className="bg-gradient-to-r from-emerald-500/10 to-blue-500/10 border-emerald-500/30">
         <CardContent>
-          <h3 className="text-lg font-semibold text-white mb-6">Sources & Uses Summary</h3>
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-semibold text-white">Sources & Uses Summary</h3>
+            {sourcesUses && (
+              <span className={`text-xs ${sourcesUses.converged ? 'text-slate-400' : 'text-amber-400'}`}>
+                {sourcesUses.converged
+                  ? `Solved in ${sourcesUses.iterations} iteration${sourcesUses.iterations === 1 ? '' : 's'}`
+                  : 'Loan-based costs did not converge'}
+              </span>
+            )}
+          </div>
           
           <div className="grid grid-cols-2 gap-8">
             {/* Sources */}
             <div>
               <h4 className="text-sm font-medium text-slate-400 mb-4">SOURCES</h4>
               <div className="space-y-3">
-                {financing?.debt_tranches?.map((tranche) => (
-                  <div key={tranche.id} className="flex justify-between">
-                    <span className="text-slate-300">{tranche.tranche_name}</span>
-                    <span className="text-white font-medium">
-                      ${(tranche.loan_amount || 0).toLocaleString()}
-                    </span>
+                {sourcesUses?.sources.map((line, i) => (
+                  <div key={i} className="flex justify-between">
+                    <span className="text-slate-300">{line.label}</span>
+                    <span className="text-white font-medium">{fmt(line.amount)}</span>
                   </div>
                 ))}
-                <div className="flex justify-between">
-                  <span className="text-slate-300">Equity</span>
-                  <span className="text-white font-medium">${totalEquity.toLocaleString()}</span>
-                </div>
                 <div className="flex justify-between pt-3 border-t border-slate-700">
                   <span className="text-white font-semibold">Total Sources</span>
-                  <span className="text-emerald-400 font-bold">${purchasePrice.toLocaleString()}</span>
+                  <span className="text-emerald-400 font-bold">{fmt(totalUses)}</span>
                 </div>
               </div>
             </div>
@@ -490,13 +1256,15 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
             <div>
               <h4 className="text-sm font-medium text-slate-400 mb-4">USES</h4>
               <div className="space-y-3">
-                <div className="flex justify-between">
-                  <span className="text-slate-300">Purchase Price</span>
-                  <span className="text-white font-medium">${purchasePrice.toLocaleString()}</span>
-                </div>
+                {sourcesUses?.uses.map(line => (
+                  <div key={line.label} className="flex justify-between">
+                    <span className="text-slate-300">{line.label}</span>
+                    <span className="text-white font-medium">{fmt(line.amount)}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between pt-3 border-t border-slate-700">
                   <span className="text-white font-semibold">Total Uses</span>
-                  <span className="text-emerald-400 font-bold">${purchasePrice.toLocaleString()}</span>
+                  <span className="text-emerald-400 font-bold">{fmt(totalUses)}</span>
                 </div>
               </div>
             </div>
@@ -513,23 +1281,111 @@ export const FinancingSection: React.FC<FinancingSectionProps> = ({ onChange })
               </div>
               <div>
                 <p className="text-xs text-slate-400">Total Debt</p>
-                <p className="text-lg font-semibold text-white">${totalDebt.toLocaleString()}</p>
+                <p className="text-lg font-semibold text-white">{fmt(totalDebt)}</p>
               </div>
               <div>
                 <p className="text-xs text-slate-400">Total Equity</p>
-                <p className="text-lg font-semibold text-white">${totalEquity.toLocaleString()}</p>
+                <p className="text-lg font-semibold text-white">{fmt(totalEquity)}</p>
               </div>
               <div>
                 <p className="text-xs text-slate-400">Equity %</p>
                 <p className="text-lg font-semibold text-white">
-                  {purchasePrice > 0 ? ((totalEquity / purchasePrice) * 100).toFixed(1) : 0}%
+                  {totalUses > 0 ? ((totalEquity / totalUses) * 100).toFixed(1) : 0}%
                 </p>
               </div>
             </div>
           </div>
         </CardContent>
       </Card>
+
+      <Modal
+        isOpen={scheduleTranche !== null}
+        onClose={() => setScheduleTrancheId(null)}
+        title={scheduleTranche ? `${scheduleTranche.tranche_name} Amortization` : undefined}
+        size="xl"
+      >
+        {scheduleTranche && (
+          <AmortizationTable tranche={sizedTranche(scheduleTranche.id) ?? scheduleTranche} curves={forwardCurves} />
+        )}
+      </Modal>
     </div>
   )
 }
 
+const AmortizationTable: React.FC<{ tranche: DebtTranche; curves: ForwardIndexCurve[] }> = ({ tranche, curves }) => {
+  const [monthly, setMonthly] = useState(false)
+  const schedule = useMemo(
+    () => buildLoanSchedule(tranche, tranche.loan_term_months || 120, 0, curves),
+    [tranche, curves]
+  )
+
+  // Group by loan year unless showing every month
+  const rows = useMemo(() => {
+    const size = monthly ? 1 : 12
+    const grouped = []
+    for (let i = 0; i < schedule.periods.length; i += size) {
+      const chunk = schedule.periods.slice(i, i + size)
+      grouped.push({
+        label: monthly ? `Month ${chunk[0].month}` : `Year ${i / 12 + 1}`,
+        beginningBalance: chunk[0].beginningBalance,
+        rate: chunk.reduce((sum, p) => sum + p.rate, 0) / chunk.length,
+        interest: chunk.reduce((sum, p) => sum + p.interest, 0),
+        accrued: chunk.reduce((sum, p) => sum + p.interestAccrued, 0),
+        principal: chunk.reduce((sum, p) => sum + p.principal, 0),
+        balloon: chunk.reduce((sum, p) => sum + p.balloon, 0),
+        payment: chunk.reduce((sum, p) => sum + p.payment, 0),
+        endingBalance: chunk[chunk.length - 1].endingBalance,
+      })
+    }
+    return grouped
+  }, [schedule, monthly])
+
+  const fmt = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-slate-400">
+          {tranche.amortization_type} • {tranche.interest_type} • {schedule.maturityMonth} month term
+        </p>
+        <Button variant="secondary" size="sm" onClick={() => setMonthly(!monthly)}>
+          {monthly ? 'Show Annual' : 'Show Monthly'}
+        </Button>
+      </div>
+      <div className="max-h-[60vh] overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-slate-800">
+            <tr className="border-b border-slate-700">
+              <th className="text-left py-2 font-medium text-slate-400">Period</th>
+              <th className="text-right py-2 font-medium text-slate-400">Beginning</th>
+              <th className="text-right py-2 font-medium text-slate-400">Rate</th>
+              <th className="text-right py-2 font-medium text-slate-400">Interest</th>
+              <th className="text-right py-2 font-medium text-slate-400">Principal</th>
+              <th className="text-right py-2 font-medium text-slate-400">Payment</th>
+              <th className="text-right py-2 font-medium text-slate-400">Ending</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700/50">
+            {rows.map((row) => (
+              <tr key={row.label}>
+                <td className="py-2 text-slate-300">{row.label}</td>
+                <td className="py-2 text-right text-white font-mono">{fmt(row.beginningBalance)}</td>
+                <td className="py-2 text-right text-white font-mono">{row.rate.toFixed(2)}%</td>
+                <td className="py-2 text-right text-white font-mono">
+                  {fmt(row.interest)}
+                  {row.accrued > 0 && <span className="block text-xs text-amber-400">accrued</span>}
+                </td>
+                <td className="py-2 text-right text-white font-mono">
+                  {fmt(row.principal)}
+                  {row.balloon > 0 && <span className="block text-xs text-amber-400">+ {fmt(row.balloon)} balloon</span>}
+                </td>
+                <td className="py-2 text-right text-white font-mono">{fmt(row.payment)}</td>
+                <td className="py-2 text-right text-white font-mono">{fmt(row.endingBalance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,12 @@
-import React from 'react'
+import React, { useMemo } from 'react'
 import { BarChart3, Plus, Trash2 } from 'lucide-react'
+import { addMonths, format } from 'date-fns'
 import { Card, CardHeader, CardTitle, CardContent, Input, Select, Button } from '../ui'
 import { useProjectStore } from '../../store/projectStore'
 import { v4 as uuidv4 } from 'uuid'
-import type { Tenant, OtherIncomeItem } from '../../types'
+import { analysisStartDate, runProForma } from '../../engine'
+import { RentRollImportCard } from './RentRollImportCard'
+import type { Tenant, OtherIncomeItem, RenewalOption, VacancyAssumptions, VacantSpace } from '../../types'
 
 const otherIncomeCategories = [
   'Parking - Reserved/Assigned',
@@ -26,18 +29,29 @@ interface IncomeSectionProps {
 
 export const IncomeSection: React.FC<IncomeSectionProps> = ({ onChange }) => {
   const { currentProject, updateIncome } = useProjectStore()
+
+  // Lease expirations and recoveries from the rent roll engine
+  const proforma = useMemo(
+    () => currentProject ? runProForma(currentProject) : null,
+    [currentProject]
+  )
+  const expirations = proforma?.rentRoll?.expirations.filter(e => e.month <= proforma.holdMonths) || []
+  const recoveries = proforma?.recoveries?.tenants.filter(t => t.year1.total > 0) || []
   
   if (!currentProject) return null
 
   const income = currentProject.income
   const property = currentProject.property
+  // Imported tenants are edited in the same rent roll as manual entries
+  const usesRentRoll = income?.entry_method === 'Manual Rent Roll Entry' || income?.entry_method === 'Rent Roll Import'
 
   // Calculate totals
   const totalRent = income?.tenants?.reduce((sum, t) => sum + ((t.base_rent_monthly || 0) * 12), 0) || 0
   const otherIncomeTotal = income?.other_income?.reduce((sum, i) => sum + (i.amount_annual || 0), 0) || 0
   const vacancyRate = income?.vacancy?.vacancy_rate_single || 0
   const vacancyDeduction = totalRent * (vacancyRate / 100)
-  const effectiveGrossIncome = totalRent + otherIncomeTotal - vacancyDeduction
+  const reimbursementsTotal = recoveries.reduce((sum, r) => sum + r.year1.total, 0)
+  const effectiveGrossIncome = totalRent + otherIncomeTotal + reimbursementsTotal - vacancyDeduction
 
   const addTenant = () => {
     onChange()
@@ -76,6 +90,29 @@ export const IncomeSection: React.FC<IncomeSectionProps> = ({ onChange }) => {
     })
   }
 
+  // Tenants carry a single renewal option in the rent roll editor
+  const updateRenewalOption = (tenant: Tenant, updates: Partial<RenewalOption> | null) => {
+    if (updates === null) {
+      updateTenant(tenant.id, { renewal_options: [] })
+      return
+    }
+    const existing: RenewalOption = tenant.renewal_options?.[0] || {
+      id: uuidv4(),
+      term_months: 60,
+      rent_type: 'Market',
+      rent_value: null,
+      notice_period_days: null,
+    }
+    updateTenant(tenant.id, { renewal_options: [{ ...existing, ...updates }] })
+  }
+
+  const updateVacancy = (updates: Partial<VacancyAssumptions>) => {
+    onChange()
+    updateIncome({ vacancy: { ...income?.vacancy, ...updates } })
+  }
+
+  const startDate = analysisStartDate(currentProject)
+
   const removeTenant = (id: string) => {
     onChange()
     updateIncome({
@@ -83,6 +120,35 @@ export const IncomeSection: React.FC<IncomeSectionProps> = ({ onChange }) => {
     })
   }
 
+  const addVacantSpace = () => {
+    onChange()
+    const newSpace: VacantSpace = {
+      id: uuidv4(),
+      suite: '',
+      sf: null,
+      market_rent_psf: currentProject.growth?.market_rent_current_psf || null,
+      estimated_lease_up_months: 6,
+      estimated_ti: null,
+      estimated_lc: null,
+      notes: '',
+    }
+    updateIncome({ vacant_spaces: [...(income?.vacant_spaces || []), newSpace] })
+  }
+
+  const updateVacantSpace = (id: string, updates: Partial<VacantSpace>) => {
+    onChange()
+    updateIncome({
+      vacant_spaces: income?.vacant_spaces?.map(v => v.id === id ? { ...v, ...updates } : v) || []
+    })
+  }
+
+  const removeVacantSpace = (id: string) => {
+    onChange()
+    updateIncome({
+      vacant_spaces: income?.vacant_spaces?.filter(v => v.id !== id) || []
+    })
+  }
+
   const addOtherIncome = () => {
     onChange()
     const newItem: OtherIncomeItem = {
@@ -196,8 +262,19 @@ export const IncomeSection: React.FC<IncomeSectionProps> = ({ onChange }) => {
         </Card>
       )}
 
+      {/* Rent Roll Import */}
+      {income?.entry_method === 'Rent Roll Import' && (
+        <RentRollImportCard
+          tenants={income?.tenants || []}
+          onImport={(tenants) => {
+            onChange()
+            updateIncome({ tenants })
+          }}
+        />
+      )}
+
       {/* Rent Roll */}
-      {income?.entry_method === 'Manual Rent Roll Entry' && (
+      {usesRentRoll && (
         <Card variant="elevated">
           <CardHeader
             action={
@@ -256,7 +333,9 @@ export const IncomeSection: React.FC<IncomeSectionProps> = ({ onChange }) => {
                         label="Lease Type"
                         options={[
                           { value: 'NNN (Triple Net)', label: 'NNN (Triple Net)' },
-                          { value: 'Modified Gross', label: 'Modified Gross' },
+                          { value: 'NN (Double Net)', label: 'NN (Double Net)' },
+                          { value: 'N (Single Net)', label: 'N (Single Net)' },
+                          { value: 'Modified Gross', label: 'Modified Gross (Base Year)' },
                           { value: 'Gross', label: 'Gross' },
                           { value: 'Absolute Net', label: 'Absolute Net' },
                         ]}
@@ -296,6 +375,98 @@ export const IncomeSection: React.FC<IncomeSectionProps> = ({ onChange }) => {
                       />
                     </div>
 
+                    <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
+                      <Input
+                        label="Escalation ($/mo)"
+                        type="number"
+                        leftAddon="$"
+                        placeholder="0"
+                        value={tenant.escalation_dollar || ''}
+                        onChange={(e) => updateTenant(tenant.id, { escalation_dollar: e.target.value ? Number(e.target.value) : null })}
+                        helperText="Used when no % escalation"
+                      />
+                      <Input
+                        label="Free Rent"
+                        type="number"
+                        rightAddon="mo"
+                        placeholder="0"
+                        value={tenant.free_rent_months || ''}
+                        onChange={(e) => updateTenant(tenant.id, { free_rent_months: e.target.value ? Number(e.target.value) : null })}
+                        helperText="From lease start"
+                      />
+                      <Select
+                        label="Renewal Option"
+                        options={[
+                          { value: 'none', label: 'None' },
+                          { value: 'Market', label: 'At Market' },
+                          { value: 'Fixed', label: 'Fixed Rent' },
+                          { value: 'Percentage Increase', label: '% Increase' },
+                        ]}
+                        value={tenant.renewal_options?.[0]?.rent_type || 'none'}
+                        onChange={(e) => updateRenewalOption(
+                          tenant,
+                          e.target.value === 'none' ? null : { rent_type: e.target.value as RenewalOption['rent_type'] }
+                        )}
+                      />
+                      {tenant.renewal_options?.[0] && tenant.renewal_options[0].rent_type !== 'Market' && (
+                        <Input
+                          label={tenant.renewal_options[0].rent_type === 'Fixed' ? 'Option Rent ($/mo)' : 'Option Increase'}
+                          type="number"
+                          leftAddon={tenant.renewal_options[0].rent_type === 'Fixed' ? '$' : undefined}
+                          rightAddon={tenant.renewal_options[0].rent_type === 'Fixed' ? undefined : '%'}
+                          value={tenant.renewal_options[0].rent_value ?? ''}
+                          onChange={(e) => updateRenewalOption(tenant, { rent_value: e.target.value ? Number(e.target.value) : null })}
+                        />
+                      )}
+                      {tenant.renewal_options?.[0] && (
+                        <Input
+                          label="Option Term"
+                          type="number"
+                          rightAddon="mo"
+                          value={tenant.renewal_options[0].term_months || ''}
+                          onChange={(e) => updateRenewalOption(tenant, { term_months: e.target.value ? Number(e.target.value) : null })}
+                        />
+                      )}
+                    </div>
+
+                    <div className="flex flex-wrap items-end gap-4 mb-4">
+                      <div className="w-40">
+                        <Input
+                          label="Pro Rata Share"
+                          type="number"
+                          rightAddon="%"
+                          placeholder={property?.sizing?.rentable_sf && tenant.rentable_sf
+                            ? ((tenant.rentable_sf / property.sizing.rentable_sf) * 100).toFixed(1)
+                            : '0'}
+                          value={tenant.pro_rata_share ?? ''}
+                          onChange={(e) => updateTenant(tenant.id, { pro_rata_share: e.target.value ? Number(e.target.value) : null })}
+                        />
+                      </div>
+                      <div>
+                        <p className="text-sm font-medium text-slate-300 mb-2">Reimburses</p>
+                        <div className="flex gap-2">
+                          {([
+                            ['tax_recoverable', 'Taxes'],
+                            ['insurance_recoverable', 'Insurance'],
+                            ['cam_recoverable', 'CAM'],
+                          ] as const).map(([field, label]) => (
+                            <button
+                              key={field}
+                              onClick={() => updateTenant(tenant.id, { [field]: !tenant[field] })}
+                              className={`
+                                px-3 py-2 rounded-lg border text-sm transition-all
+                                ${tenant[field]
+                                  ? 'bg-emerald-500/20 border-emerald-500 text-emerald-400'
+                                  : 'bg-slate-800/50 border-slate-700 text-slate-400 hover:border-slate-600'}
+                              `}
+                            >
+                              {label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+
                     {tenant.rentable_sf && tenant.base_rent_monthly && (
                       <div className="p-3 rounded-lg bg-slate-700/30 text-sm">
                         <span className="text-slate-400">Rent PSF: </span>
@@ -312,6 +483,202 @@ export const IncomeSection: React.FC<IncomeSectionProps> = ({ onChange }) => {
         </Card>
       )}
 
+      {/* Vacant Space */}
+      {(usesRentRoll || income?.entry_method === 'Summary Entry') && (
+        <Card variant="elevated">
+          <CardHeader
+            action={
+              <Button variant="secondary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={addVacantSpace}>
+                Add Vacant Suite
+              </Button>
+            }
+          >
+            <CardTitle subtitle="Suites leased up at market rent after the lease-up period; TI and LC are funded that month">
+              Vacant Space Lease-Up
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {(income?.vacant_spaces?.length || 0) === 0 ? (
+              <p className="text-center py-4 text-sm text-slate-400">No vacant suites</p>
+            ) : (
+              <div className="space-y-3">
+                {income?.vacant_spaces?.map((space) => (
+                  <div key={space.id} className="flex items-end gap-4 p-4 rounded-lg bg-slate-800/50 border border-slate-700">
+                    <div className="flex-1 grid grid-cols-2 md:grid-cols-6 gap-4">
+                      <Input
+                        label="Suite"
+                        placeholder="Suite 200"
+                        value={space.suite}
+                        onChange={(e) => updateVacantSpace(space.id, { suite: e.target.value })}
+                      />
+                      <Input
+                        label="Rentable SF"
+                        type="number"
+                        placeholder="0"
+                        value={space.sf || ''}
+                        onChange={(e) => updateVacantSpace(space.id, { sf: e.target.value ? Number(e.target.value) : null })}
+                      />
+                      <Input
+                        label="Market Rent"
+                        type="number"
+                        leftAddon="$"
+                        rightAddon="/SF/yr"
+                        value={space.market_rent_psf || ''}
+                        onChange={(e) => updateVacantSpace(space.id, { market_rent_psf: e.target.value ? Number(e.target.value) : null })}
+                      />
+                      <Input
+                        label="Lease-Up"
+                        type="number"
+                        rightAddon="mo"
+                        value={space.estimated_lease_up_months ?? ''}
+                        onChange={(e) => updateVacantSpace(space.id, { estimated_lease_up_months: e.target.value ? Number(e.target.value) : null })}
+                      />
+                      <Input
+                        label="TI (Total)"
+                        type="number"
+                        leftAddon="$"
+                        value={space.estimated_ti || ''}
+                        onChange={(e) => updateVacantSpace(space.id, { estimated_ti: e.target.value ? Number(e.target.value) : null })}
+                      />
+                      <Input
+                        label="LC (Total)"
+                        type="number"
+                        leftAddon="$"
+                        value={space.estimated_lc || ''}
+                        onChange={(e) => updateVacantSpace(space.id, { estimated_lc: e.target.value ? Number(e.target.value) : null })}
+                      />
+                    </div>
+                    <button
+                      onClick={() => removeVacantSpace(space.id)}
+                      className="p-2 mb-1 text-slate-400 hover:text-red-400 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Rollover Assumptions */}
+      {usesRentRoll && (income?.tenants?.length || 0) > 0 && (
+        <Card variant="elevated">
+          <CardHeader>
+            <CardTitle subtitle="How expiring leases roll to market rent (set market rent in Growth & Exit, TI/LC in Capital)">
+              Lease Rollover
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <Input
+                label="Renewal Probability"
+                type="number"
+                rightAddon="%"
+                placeholder="65"
+                value={income?.vacancy?.renewal_probability ?? ''}
+                onChange={(e) => updateVacancy({ renewal_probability: e.target.value ? Number(e.target.value) : null })}
+              />
+              <Input
+                label="Downtime (New Tenant)"
+                type="number"
+                rightAddon="mo"
+                placeholder="6"
+                value={income?.vacancy?.average_downtime_months ?? ''}
+                onChange={(e) => updateVacancy({ average_downtime_months: e.target.value ? Number(e.target.value) : null })}
+              />
+              <Input
+                label="New Lease Term"
+                type="number"
+                rightAddon="mo"
+                placeholder="60"
+                value={income?.vacancy?.rollover_lease_term_months || ''}
+                onChange={(e) => updateVacancy({ rollover_lease_term_months: e.target.value ? Number(e.target.value) : null })}
+              />
+              <Select
+                label="General Vacancy"
+                options={[
+                  { value: 'Single rate all years', label: 'Apply vacancy rate' },
+                  { value: 'Calculated from rent roll', label: 'Rollover downtime only' },
+                ]}
+                value={income?.vacancy?.vacancy_input_method === 'Calculated from rent roll' ? 'Calculated from rent roll' : 'Single rate all years'}
+                onChange={(e) => updateVacancy({ vacancy_input_method: e.target.value as VacancyAssumptions['vacancy_input_method'] })}
+              />
+            </div>
+
+            {expirations.length > 0 && (
+              <div className="mt-6">
+                <h4 className="text-sm font-medium text-slate-300 mb-3">Lease Expirations During Hold</h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-700">
+                      <th className="text-left py-2 font-medium text-slate-400">Tenant</th>
+                      <th className="text-left py-2 font-medium text-slate-400">Expires</th>
+                      <th className="text-right py-2 font-medium text-slate-400">SF</th>
+                      <th className="text-right py-2 font-medium text-slate-400">Expiring Rent</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700/50">
+                    {expirations.map((expiration) => (
+                      <tr key={expiration.tenantId}>
+                        <td className="py-2 text-slate-300">{expiration.tenantName}</td>
+                        <td className="py-2 text-slate-300">
+                          {format(addMonths(startDate, expiration.month - 1), 'MMM yyyy')}
+                        </td>
+                        <td className="py-2 text-right text-white">{expiration.sf.toLocaleString()}</td>
+                        <td className="py-2 text-right text-white font-mono">
+                          ${expiration.expiringRent.toLocaleString(undefined, { maximumFractionDigits: 0 })}/mo
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Expense Recoveries */}
+      {usesRentRoll && recoveries.length > 0 && (
+        <Card variant="elevated">
+          <CardHeader>
+            <CardTitle subtitle="Year 1 reimbursements by tenant; Modified Gross leases pay increases over their base year">
+              Expense Recoveries
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-700">
+                  <th className="text-left py-2 font-medium text-slate-400">Tenant</th>
+                  <th className="text-left py-2 font-medium text-slate-400">Lease Type</th>
+                  <th className="text-right py-2 font-medium text-slate-400">Share</th>
+                  <th className="text-right py-2 font-medium text-slate-400">Taxes</th>
+                  <th className="text-right py-2 font-medium text-slate-400">Insurance</th>
+                  <th className="text-right py-2 font-medium text-slate-400">CAM</th>
+                  <th className="text-right py-2 font-medium text-slate-400">Total</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/50">
+                {recoveries.map((recovery) => (
+                  <tr key={recovery.tenantId}>
+                    <td className="py-2 text-slate-300">{recovery.tenantName}</td>
+                    <td className="py-2 text-slate-300">{recovery.leaseType}</td>
+                    <td className="py-2 text-right text-white">{recovery.proRataShare.toFixed(1)}%</td>
+                    <td className="py-2 text-right text-white font-mono">${Math.round(recovery.year1.taxes).toLocaleString()}</td>
+                    <td className="py-2 text-right text-white font-mono">${Math.round(recovery.year1.insurance).toLocaleString()}</td>
+                    <td className="py-2 text-right text-white font-mono">${Math.round(recovery.year1.cam).toLocaleString()}</td>
+                    <td className="py-2 text-right text-emerald-400 font-mono">${Math.round(recovery.year1.total).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Other Income */}
       <Card variant="elevated">
         <CardHeader
@@ -486,13 +853,19 @@ export const IncomeSection: React.FC<IncomeSectionProps> = ({ onChange }) => {
               <span className="text-slate-300">Other Income</span>
               <span className="text-white font-medium">${otherIncomeTotal.toLocaleString()}</span>
             </div>
+            {reimbursementsTotal > 0 && (
+              <div className="flex justify-between py-2">
+                <span className="text-slate-300">Expense Reimbursements</span>
+                <span className="text-white font-medium">${Math.round(reimbursementsTotal).toLocaleString()}</span>
+              </div>
+            )}
             <div className="flex justify-between py-2 text-red-400">
               <span>Less: Vacancy ({vacancyRate}%)</span>
               <span>-${vacancyDeduction.toLocaleString()}</span>
             </div>
             <div className="flex justify-between py-3 border-t border-slate-700">
               <span className="text-white font-semibold">Effective Gross Income</span>
-              <span className="text-emerald-400 font-bold text-xl">${effectiveGrossIncome.toLocaleString()}</span>
+              <span className="text-emerald-400 font-bold text-xl">${Math.round(effectiveGrossIncome).toLocaleString()}</span>
             </div>
           </div>
 
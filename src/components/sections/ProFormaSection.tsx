@@ -1,174 +1,40 @@
 import React, { useMemo } from 'react'
-import { BarChart3, Download } from 'lucide-react'
+import { AlertTriangle, ArrowLeftRight, BarChart3, Download, Layers, Receipt, Scale, ShieldCheck } from 'lucide-react'
 import { Card, CardHeader, CardTitle, CardContent, Button } from '../ui'
 import { useProjectStore } from '../../store/projectStore'
+import { runProForma, DEFAULT_DISCOUNT_RATE, DEFAULT_UNLEVERED_DISCOUNT_RATE } from '../../engine'
+import type { CovenantMetric } from '../../engine'
+import { exportProjectWorkbook } from '../../lib/workbookExport'
 
-export const ProFormaSection: React.FC = () => {
-  const { currentProject } = useProjectStore()
-  
-  if (!currentProject) return null
-
-  const analysis = currentProject.analysis
-  const acquisition = currentProject.acquisition
-  const financing = currentProject.financing
-  const income = currentProject.income
-  const expenses = currentProject.expenses
-  const capital = currentProject.capital
-  const growth = currentProject.growth
-  const exit = currentProject.exit
-  const property = currentProject.property
-
-  const holdPeriod = analysis?.hold_period_years || 5
-
-  // Generate pro forma projections
-  const proforma = useMemo(() => {
-    const years = Array.from({ length: holdPeriod + 1 }, (_, i) => i)
-    
-    // Base values
-    const baseRent = income?.tenants?.reduce((sum, t) => sum + ((t.base_rent_monthly || 0) * 12), 0) || 
-                     income?.summary?.gross_potential_rent || 0
-    const otherIncome = income?.other_income?.reduce((sum, i) => sum + (i.amount_annual || 0), 0) ||
-                        income?.summary?.total_other_income || 0
-    const vacancyRate = (income?.vacancy?.vacancy_rate_single || 5) / 100
-    const rentGrowth = (growth?.rent_growth_rate || 3) / 100
-    const expenseGrowth = (growth?.expense_growth_rate || 3) / 100
-    
-    // Base expenses
-    let baseExpenses = 0
-    baseExpenses += expenses?.real_estate_taxes?.amount || 0
-    baseExpenses += expenses?.insurance?.amount || 0
-    baseExpenses += (expenses?.utilities?.electric?.amount || 0) +
-                    (expenses?.utilities?.gas?.amount || 0) +
-                    (expenses?.utilities?.water_sewer?.amount || 0) +
-                    (expenses?.utilities?.trash?.amount || 0)
-    baseExpenses += expenses?.repairs_maintenance?.amount || 0
-    baseExpenses += expenses?.administrative?.amount || 0
-    baseExpenses += expenses?.marketing_leasing?.amount || 0
-
-    // Capital reserves
-    const rentableSF = property?.sizing?.rentable_sf || 0
-    const reservePerSF = capital?.reserve_per_sf || 0.25
-    const baseReserve = rentableSF * reservePerSF
-
-    // Debt
-    const totalDebt = financing?.debt_tranches?.reduce((sum, t) => sum + (t.loan_amount || 0), 0) || 0
-    const avgRate = financing?.debt_tranches?.[0]?.interest_rate_annual || 6.5
-    const annualDebtService = totalDebt * (avgRate / 100) // IO assumption
-
-    // Purchase price and equity
-    const purchasePrice = acquisition?.purchase_price || 0
-    const totalEquity = purchasePrice - totalDebt
-
-    // Exit
-    const exitCapRate = (exit?.exit_cap_rate || 6.5) / 100
-    const dispositionCostsPct = ((exit?.selling_costs?.broker_commission_pct || 2) + 
-                                  (exit?.selling_costs?.transfer_taxes_pct || 0.5)) / 100
-
-    // Build projections
-    const rows: { [key: string]: number[] } = {
-      gpr: [],
-      otherIncome: [],
-      vacancy: [],
-      egi: [],
-      opex: [],
-      noi: [],
-      reserves: [],
-      cfBeforeDebt: [],
-      debtService: [],
-      cfAfterDebt: [],
-    }
-
-    let finalNOI = 0
-    for (let year = 0; year <= holdPeriod; year++) {
-      if (year === 0) {
-        // Year 0 - Acquisition
-        Object.keys(rows).forEach(key => rows[key].push(0))
-        continue
-      }
-
-      const gpr = baseRent * Math.pow(1 + rentGrowth, year - 1)
-      const other = otherIncome * Math.pow(1 + rentGrowth, year - 1)
-      const vacancy = gpr * vacancyRate
-      const egi = gpr + other - vacancy
-      const opex = baseExpenses * Math.pow(1 + expenseGrowth, year - 1)
-      const noi = egi - opex
-      const reserves = baseReserve * Math.pow(1 + expenseGrowth, year - 1)
-      const cfBeforeDebt = noi - reserves
-      const debtService = annualDebtService
-      const cfAfterDebt = cfBeforeDebt - debtService
+const covenantMetrics: CovenantMetric[] = ['DSCR', 'LTV', 'Debt Yield']
 
-      rows.gpr.push(gpr)
-      rows.otherIncome.push(other)
-      rows.vacancy.push(-vacancy)
-      rows.egi.push(egi)
-      rows.opex.push(-opex)
-      rows.noi.push(noi)
-      rows.reserves.push(-reserves)
-      rows.cfBeforeDebt.push(cfBeforeDebt)
-      rows.debtService.push(-debtService)
-      rows.cfAfterDebt.push(cfAfterDebt)
+const formatCovenant = (metric: CovenantMetric, value: number) =>
+  metric === 'DSCR' ? `${value.toFixed(2)}x` : `${value.toFixed(1)}%`
 
-      if (year === holdPeriod) {
-        finalNOI = noi
-      }
-    }
+const granularityLabels = {
+  annual: 'Year-by-year',
+  quarterly: 'Quarter-by-quarter',
+  monthly: 'Month-by-month',
+}
 
-    // Exit calculations
-    const exitValue = finalNOI / exitCapRate
-    const dispositionCosts = exitValue * dispositionCostsPct
-    const netSaleProceeds = exitValue - dispositionCosts - totalDebt
+export const ProFormaSection: React.FC = () => {
+  const { currentProject } = useProjectStore()
 
-    // Calculate returns
-    const cashFlows = [-totalEquity]
-    for (let year = 1; year <= holdPeriod; year++) {
-      let cf = rows.cfAfterDebt[year] || 0
-      if (year === holdPeriod) {
-        cf += netSaleProceeds
-      }
-      cashFlows.push(cf)
-    }
+  // Generate pro forma projections
+  const proforma = useMemo(
+    () => currentProject ? runProForma(currentProject) : null,
+    [currentProject]
+  )
 
-    // IRR calculation (simplified Newton-Raphson)
-    const calculateIRR = (cashFlows: number[]): number => {
-      let rate = 0.1
-      for (let i = 0; i < 100; i++) {
-        let npv = 0
-        let dnpv = 0
-        for (let t = 0; t < cashFlows.length; t++) {
-          npv += cashFlows[t] / Math.pow(1 + rate, t)
-          dnpv -= t * cashFlows[t] / Math.pow(1 + rate, t + 1)
-        }
-        if (Math.abs(npv) < 0.01) break
-        rate = rate - npv / dnpv
-        if (rate < -0.99 || rate > 10) return 0
-      }
-      return rate * 100
-    }
+  if (!currentProject || !proforma) return null
 
-    const totalDistributions = cashFlows.reduce((sum, cf, i) => i > 0 ? sum + cf : sum, 0)
-    const equityMultiple = totalEquity > 0 ? totalDistributions / totalEquity : 0
-    const irr = calculateIRR(cashFlows)
-    const avgCashOnCash = holdPeriod > 0 && totalEquity > 0
-      ? (rows.cfAfterDebt.slice(1).reduce((sum, cf) => sum + cf, 0) / holdPeriod) / totalEquity * 100
-      : 0
+  const { returns, exit, leverage } = proforma
 
-    return {
-      years,
-      rows,
-      metrics: {
-        purchasePrice,
-        totalEquity,
-        totalDebt,
-        exitValue,
-        netSaleProceeds,
-        irr,
-        equityMultiple,
-        avgCashOnCash,
-        goingInCap: purchasePrice > 0 ? (rows.noi[1] / purchasePrice) * 100 : 0,
-        exitCap: (exit?.exit_cap_rate || 6.5),
-      }
-    }
-  }, [analysis, acquisition, financing, income, expenses, capital, growth, exit, property, holdPeriod])
+  // Scale a period total to an annual run rate for ratio rows
+  const annualize = (value: number, periodIndex: number) => {
+    const period = proforma.periods[periodIndex]
+    return value * 12 / (period.endMonth - period.startMonth + 1)
+  }
 
   const formatCurrency = (value: number) => {
     if (Math.abs(value) >= 1000000) {
@@ -177,6 +43,27 @@ export const ProFormaSection: React.FC = () => {
     return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
   }
 
+  // IRRs are null when the cash flows have no solution
+  const formatPercent = (value: number | null, decimals: number = 2) =>
+    value === null ? 'No solution' : `${value.toFixed(decimals)}%`
+
+  const saleLines = [
+    { label: `Gross Sale Price (Month ${exit.exitMonth})`, value: exit.exitValue },
+    { label: 'Less: Disposition Costs', value: -exit.dispositionCosts },
+    ...(exit.dispositionFee > 0 ? [{ label: 'Less: Disposition Fee', value: -exit.dispositionFee }] : []),
+    { label: 'Less: Loan Payoff', value: -exit.debtPayoff },
+    ...(exit.preferredRedemption > 0 ? [{ label: 'Less: Preferred Equity Redemption', value: -exit.preferredRedemption }] : []),
+    ...(exit.prepaymentPenalty > 0 ? [{ label: 'Less: Prepayment Penalty', value: -exit.prepaymentPenalty }] : []),
+    ...(exit.reserveRelease > 0 ? [{ label: 'Plus: Lender Reserve Release', value: exit.reserveRelease }] : []),
+  ]
+
+  const { sourcesUses } = proforma
+  // Financing costs and lender reserves sit outside the property-level return
+  const propertyCost = sourcesUses.propertyCost
+
+  const leveredRate = currentProject.analysis?.discount_rate_levered ?? DEFAULT_DISCOUNT_RATE
+  const unleveredRate = currentProject.analysis?.discount_rate_unlevered ?? DEFAULT_UNLEVERED_DISCOUNT_RATE
+
   return (
     <div className="space-y-6">
       {/* Returns Summary */}
@@ -194,25 +81,25 @@ export const ProFormaSection: React.FC = () => {
             <div className="text-center p-4 rounded-xl bg-slate-800/50">
               <p className="text-sm text-slate-400 mb-1">Levered IRR</p>
               <p className="text-3xl font-bold text-emerald-400">
-                {proforma.metrics.irr.toFixed(1)}%
+                {formatPercent(returns.levered_irr, 1)}
               </p>
             </div>
             <div className="text-center p-4 rounded-xl bg-slate-800/50">
               <p className="text-sm text-slate-400 mb-1">Equity Multiple</p>
               <p className="text-3xl font-bold text-white">
-                {proforma.metrics.equityMultiple.toFixed(2)}x
+                {(returns.levered_equity_multiple ?? 0).toFixed(2)}x
               </p>
             </div>
             <div className="text-center p-4 rounded-xl bg-slate-800/50">
               <p className="text-sm text-slate-400 mb-1">Avg Cash-on-Cash</p>
               <p className="text-3xl font-bold text-white">
-                {proforma.metrics.avgCashOnCash.toFixed(1)}%
+                {(returns.average_cash_on_cash ?? 0).toFixed(1)}%
               </p>
             </div>
             <div className="text-center p-4 rounded-xl bg-slate-800/50">
               <p className="text-sm text-slate-400 mb-1">Going-In Cap</p>
               <p className="text-3xl font-bold text-white">
-                {proforma.metrics.goingInCap.toFixed(2)}%
+                {(returns.going_in_cap_rate ?? 0).toFixed(2)}%
               </p>
             </div>
           </div>
@@ -221,38 +108,411 @@ export const ProFormaSection: React.FC = () => {
             <div>
               <p className="text-xs text-slate-400">Total Equity</p>
               <p className="text-lg font-semibold text-white">
-                {formatCurrency(proforma.metrics.totalEquity)}
+                {formatCurrency(proforma.totalEquity)}
               </p>
             </div>
             <div>
               <p className="text-xs text-slate-400">Total Debt</p>
               <p className="text-lg font-semibold text-white">
-                {formatCurrency(proforma.metrics.totalDebt)}
+                {formatCurrency(proforma.totalDebt)}
               </p>
             </div>
             <div>
               <p className="text-xs text-slate-400">Exit Value</p>
               <p className="text-lg font-semibold text-white">
-                {formatCurrency(proforma.metrics.exitValue)}
+                {formatCurrency(exit.exitValue)}
               </p>
             </div>
             <div>
               <p className="text-xs text-slate-400">Net Proceeds</p>
               <p className="text-lg font-semibold text-white">
-                {formatCurrency(proforma.metrics.netSaleProceeds)}
+                {formatCurrency(exit.netSaleProceeds)}
+              </p>
+            </div>
+          </div>
+
+          {/* Discounted Returns */}
+          <div className="mt-6 pt-6 border-t border-slate-700 grid grid-cols-2 md:grid-cols-6 gap-4">
+            <div>
+              <p className="text-xs text-slate-400">Levered NPV @ {leveredRate}%</p>
+              <p className={`text-lg font-semibold ${(returns.levered_npv ?? 0) < 0 ? 'text-red-400' : 'text-white'}`}>
+                {formatCurrency(returns.levered_npv ?? 0)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Levered PI</p>
+              <p className="text-lg font-semibold text-white">
+                {returns.levered_profitability_index?.toFixed(2) ?? '—'}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">XIRR (Dated)</p>
+              <p className="text-lg font-semibold text-white">
+                {formatPercent(returns.levered_xirr)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">XNPV @ {leveredRate}%</p>
+              <p className={`text-lg font-semibold ${(returns.levered_xnpv ?? 0) < 0 ? 'text-red-400' : 'text-white'}`}>
+                {formatCurrency(returns.levered_xnpv ?? 0)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Unlevered NPV @ {unleveredRate}%</p>
+              <p className={`text-lg font-semibold ${(returns.unlevered_npv ?? 0) < 0 ? 'text-red-400' : 'text-white'}`}>
+                {formatCurrency(returns.unlevered_npv ?? 0)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Unlevered PI</p>
+              <p className="text-lg font-semibold text-white">
+                {returns.unlevered_profitability_index?.toFixed(2) ?? '—'}
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Leverage Impact */}
+      <Card variant="elevated">
+        <CardHeader>
+          <CardTitle subtitle="Property-level returns against the equity returns after debt">
+            <div className="flex items-center gap-2">
+              <Scale className="w-5 h-5 text-emerald-400" />
+              Leverage Impact
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-700">
+                  <th className="text-left py-2 font-medium text-slate-400">Metric</th>
+                  <th className="text-right py-2 font-medium text-slate-400">Unlevered</th>
+                  <th className="text-right py-2 font-medium text-slate-400">Levered</th>
+                  <th className="text-right py-2 font-medium text-slate-400">From Leverage</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/50">
+                <tr>
+                  <td className="py-2 text-slate-300">IRR</td>
+                  <td className="py-2 text-right text-white">{formatPercent(returns.unlevered_irr)}</td>
+                  <td className="py-2 text-right text-white">{formatPercent(returns.levered_irr)}</td>
+                  <td className={`py-2 text-right ${(leverage.irrSpread ?? 0) < 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                    {leverage.irrSpread === null ? '—' : `${leverage.irrSpread > 0 ? '+' : ''}${Math.round(leverage.irrSpread * 100)} bps`}
+                  </td>
+                </tr>
+                <tr>
+                  <td className="py-2 text-slate-300">Equity Multiple</td>
+                  <td className="py-2 text-right text-white">{(returns.unlevered_equity_multiple ?? 0).toFixed(2)}x</td>
+                  <td className="py-2 text-right text-white">{(returns.levered_equity_multiple ?? 0).toFixed(2)}x</td>
+                  <td className="py-2 text-right text-slate-300">
+                    {((returns.levered_equity_multiple ?? 0) - (returns.unlevered_equity_multiple ?? 0)).toFixed(2)}x
+                  </td>
+                </tr>
+                <tr>
+                  <td className="py-2 text-slate-300">Initial Investment</td>
+                  <td className="py-2 text-right text-white">{formatCurrency(propertyCost)}</td>
+                  <td className="py-2 text-right text-white">{formatCurrency(proforma.totalEquity)}</td>
+                  <td className="py-2 text-right text-slate-300">{formatCurrency(proforma.totalEquity - propertyCost)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {leverage.positiveLeverage !== null && leverage.costOfDebt !== null && leverage.irrSpread !== null && (
+            <div
+              className={`mt-6 p-4 rounded-lg border text-sm ${
+                leverage.positiveLeverage
+                  ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300'
+                  : 'bg-red-500/10 border-red-500/30 text-red-300'
+              }`}
+            >
+              {leverage.positiveLeverage ? 'Positive' : 'Negative'} leverage: the property returns{' '}
+              {formatPercent(returns.unlevered_irr)} unlevered against a {leverage.costOfDebt.toFixed(2)}% cost of debt,
+              so borrowing {leverage.ltv.toFixed(1)}% of the price {leverage.irrSpread >= 0 ? 'adds' : 'takes'}{' '}
+              {Math.abs(Math.round(leverage.irrSpread * 100))} bps {leverage.irrSpread >= 0 ? 'to' : 'from'} the equity IRR.
+              {returns.levered_irr !== null && returns.levered_irr > 0 && leverage.irrSpread > 0 && (
+                <> Debt accounts for {(leverage.irrSpread / returns.levered_irr * 100).toFixed(0)}% of the levered return.</>
+              )}
+            </div>
+          )}
+
+          <div className="mt-6 grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-xs text-slate-400">Yield on Cost</p>
+              <p className="text-lg font-semibold text-white">{formatPercent(returns.yield_on_cost)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Year 1 Debt Yield</p>
+              <p className="text-lg font-semibold text-white">
+                {leverage.debtYield === null ? '—' : `${leverage.debtYield.toFixed(2)}%`}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Year 1 DSCR</p>
+              <p className="text-lg font-semibold text-white">
+                {leverage.dscr === null ? '—' : `${leverage.dscr.toFixed(2)}x`}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">LTV / LTC</p>
+              <p className="text-lg font-semibold text-white">
+                {leverage.ltv.toFixed(1)}% / {leverage.ltc.toFixed(1)}%
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Peak Equity</p>
+              <p className="text-lg font-semibold text-white">{formatCurrency(returns.peak_equity ?? 0)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Payback Period</p>
+              <p className="text-lg font-semibold text-white">
+                {returns.payback_period_years === null ? 'Not repaid' : `${returns.payback_period_years.toFixed(1)} years`}
               </p>
             </div>
+            <div>
+              <p className="text-xs text-slate-400">Cost of Debt</p>
+              <p className="text-lg font-semibold text-white">
+                {leverage.costOfDebt === null ? '—' : `${leverage.costOfDebt.toFixed(2)}%`}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-slate-400">Exit Cap Rate</p>
+              <p className="text-lg font-semibold text-white">{formatPercent(returns.exit_cap_rate)}</p>
+            </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Sources & Uses */}
+      <Card variant="elevated">
+        <CardHeader>
+          <CardTitle subtitle={proforma.development
+            ? 'Total capitalization through construction; equity funds the draws before the loans'
+            : 'Closing capitalization; the equity line is the Year 0 outflow'}>
+            <div className="flex items-center gap-2">
+              <ArrowLeftRight className="w-5 h-5 text-emerald-400" />
+              Sources & Uses
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            {[
+              { title: 'Sources', lines: sourcesUses.sources },
+              { title: 'Uses', lines: sourcesUses.uses },
+            ].map(({ title, lines }) => (
+              <table key={title} className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-700">
+                    <th className="text-left py-2 font-medium text-slate-400">{title}</th>
+                    <th className="text-right py-2 font-medium text-slate-400">Amount</th>
+                    <th className="text-right py-2 font-medium text-slate-400">% of Total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700/50">
+                  {lines.map((line, i) => (
+                    <tr key={i}>
+                      <td className="py-2 text-slate-300">{line.label}</td>
+                      <td className="py-2 text-right text-white tabular-nums">{formatCurrency(line.amount)}</td>
+                      <td className="py-2 text-right text-slate-400 tabular-nums">
+                        {sourcesUses.totalUses > 0 ? `${(line.amount / sourcesUses.totalUses * 100).toFixed(1)}%` : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-t-2 border-slate-600">
+                    <td className="py-2 font-semibold text-white">Total {title}</td>
+                    <td className="py-2 text-right font-semibold text-emerald-400 tabular-nums">{formatCurrency(sourcesUses.totalUses)}</td>
+                    <td />
+                  </tr>
+                </tbody>
+              </table>
+            ))}
+          </div>
+          {!sourcesUses.converged && (
+            <div className="flex items-center gap-2 p-3 mt-4 rounded-lg bg-amber-500/10 border border-amber-500/30 text-sm text-amber-400">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              Loan sizing and loan-based costs did not settle after {sourcesUses.iterations} passes; check LTC and loan fee inputs
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Net Sale Proceeds */}
+      <Card variant="elevated">
+        <CardHeader>
+          <CardTitle subtitle={`${formatCurrency(exit.exitNOI)} NOI at a ${exit.exitCapRate.toFixed(2)}% cap rate`}>
+            <div className="flex items-center gap-2">
+              <Receipt className="w-5 h-5 text-emerald-400" />
+              Net Sale Proceeds
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <tbody className="divide-y divide-slate-700/50">
+              {saleLines.map(line => (
+                <tr key={line.label}>
+                  <td className="py-2 text-slate-300">{line.label}</td>
+                  <td className="py-2 text-right text-white tabular-nums">
+                    {line.value < 0 ? `(${formatCurrency(-line.value)})` : formatCurrency(line.value)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t-2 border-slate-600">
+                <td className="py-2 font-semibold text-white">Net Sale Proceeds</td>
+                <td className="py-2 text-right font-semibold text-emerald-400 tabular-nums">{formatCurrency(exit.netSaleProceeds)}</td>
+              </tr>
+            </tbody>
+          </table>
+          {exit.lockedOut.length > 0 && (
+            <div className="flex items-center gap-2 p-3 mt-4 rounded-lg bg-amber-500/10 border border-amber-500/30 text-sm text-amber-400">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              {exit.lockedOut.join(', ')} {exit.lockedOut.length === 1 ? 'is' : 'are'} still inside the prepayment lockout at the sale
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Capital Stack */}
+      {proforma.capitalStack.length > 0 && (
+        <Card variant="elevated">
+          <CardHeader>
+            <CardTitle subtitle="Each layer in pay order; shortfalls accrue to the most junior pieces first">
+              <div className="flex items-center gap-2">
+                <Layers className="w-5 h-5 text-emerald-400" />
+                Capital Stack
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-700">
+                    <th className="text-left py-2 pr-4 font-medium text-slate-400">Layer</th>
+                    {proforma.capitalStack[0].cashPaid.map((_, i) => (
+                      <th key={i} className="text-right py-2 px-3 font-medium text-slate-400">Year {i + 1}</th>
+                    ))}
+                  </tr>
+                </thead>
+                {proforma.capitalStack.map(layer => (
+                  <tbody key={layer.trancheId} className="border-b border-slate-700">
+                    <tr>
+                      <td className="pt-3 pb-1 pr-4 font-semibold text-white" colSpan={layer.cashPaid.length + 1}>
+                        {layer.trancheName}
+                        <span className="ml-2 text-xs font-normal text-slate-400">
+                          {layer.position} • {formatCurrency(layer.funded)} funded • {formatCurrency(layer.repaidDuringHold)} repaid during hold • {formatCurrency(layer.payoffAtExit)} at exit
+                        </span>
+                      </td>
+                    </tr>
+                    {[
+                      { label: 'Cash Paid', values: layer.cashPaid },
+                      { label: 'Accrued', values: layer.accrued },
+                      { label: 'Ending Balance', values: layer.endingBalance },
+                    ].map(row => (
+                      <tr key={row.label}>
+                        <td className="py-1 pr-4 text-slate-300">{row.label}</td>
+                        {row.values.map((value, i) => (
+                          <td key={i} className="py-1 px-3 text-right text-white tabular-nums">{formatCurrency(value)}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                ))}
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Covenant Compliance */}
+      {proforma.covenants.length > 0 && (
+        <Card variant="elevated">
+          <CardHeader>
+            <CardTitle subtitle="Each loan tested with everything senior to it at the end of every period">
+              <div className="flex items-center gap-2">
+                <ShieldCheck className="w-5 h-5 text-emerald-400" />
+                Covenant Compliance
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-700">
+                    <th className="text-left py-2 pr-4 font-medium text-slate-400">Test</th>
+                    {proforma.periods.map(period => (
+                      <th key={period.label} className="text-right py-2 px-3 font-medium text-slate-400">{period.label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                {proforma.covenants.map(compliance => (
+                  <tbody key={compliance.trancheId} className="border-b border-slate-700">
+                    <tr>
+                      <td className="pt-3 pb-1 pr-4 font-semibold text-white" colSpan={proforma.periods.length + 1}>
+                        {compliance.trancheName}
+                        <span className={`ml-2 text-xs font-normal ${compliance.breachCount > 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                          {compliance.breachCount > 0
+                            ? `${compliance.breachCount} period${compliance.breachCount === 1 ? '' : 's'} in breach`
+                            : 'In compliance'}
+                        </span>
+                      </td>
+                    </tr>
+                    {covenantMetrics.map(metric => {
+                      const required = compliance.periods.flatMap(p => p.tests).find(t => t.metric === metric)?.required
+                      if (required === undefined) return null
+                      return (
+                        <tr key={metric}>
+                          <td className="py-1 pr-4 text-slate-300">
+                            {metric} <span className="text-xs text-slate-500">({metric === 'LTV' ? 'max' : 'min'} {formatCovenant(metric, required)})</span>
+                          </td>
+                          {compliance.periods.map(({ period, tests }) => {
+                            const test = tests.find(t => t.metric === metric)
+                            return (
+                              <td
+                                key={period.label}
+                                className={`py-1 px-3 text-right tabular-nums ${test?.breached ? 'bg-red-500/20 text-red-400 font-semibold' : 'text-white'}`}
+                              >
+                                {!test ? '—' : test.actual === null ? 'n/a' : formatCovenant(metric, test.actual)}
+                                {test?.breached && <AlertTriangle className="inline w-3 h-3 ml-1 -mt-0.5" />}
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      )
+                    })}
+                    {compliance.periods.some(p => p.sweep > 0) && (
+                      <tr>
+                        <td className="py-1 pr-4 text-slate-300">Cash Swept to Principal</td>
+                        {compliance.periods.map(({ period, sweep }) => (
+                          <td key={period.label} className="py-1 px-3 text-right text-white tabular-nums">{formatCurrency(sweep)}</td>
+                        ))}
+                      </tr>
+                    )}
+                  </tbody>
+                ))}
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Pro Forma Table */}
       <Card variant="elevated" padding="none">
         <CardHeader className="p-6">
-          <CardTitle subtitle="Year-by-year cash flow projections">
+          <CardTitle subtitle={`${granularityLabels[proforma.granularity]} cash flow projections`}>
             Pro Forma Cash Flows
           </CardTitle>
-          <Button variant="secondary" size="sm" leftIcon={<Download className="w-4 h-4" />}>
+          <Button
+            variant="secondary"
+            size="sm"
+            leftIcon={<Download className="w-4 h-4" />}
+            onClick={() => exportProjectWorkbook(currentProject, proforma, { monthly: proforma.granularity !== 'annual' })}
+          >
             Export
           </Button>
         </CardHeader>
@@ -263,88 +523,41 @@ export const ProFormaSection: React.FC = () => {
                 <th className="text-left px-6 py-3 font-medium text-slate-300 sticky left-0 bg-slate-800">
                   Line Item
                 </th>
-                {proforma.years.slice(1).map((year) => (
-                  <th key={year} className="text-right px-4 py-3 font-medium text-slate-300 min-w-[100px]">
-                    Year {year}
+                {proforma.periods.map((period) => (
+                  <th key={period.label} className="text-right px-4 py-3 font-medium text-slate-300 min-w-[100px] whitespace-nowrap">
+                    {period.label}
                   </th>
                 ))}
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-700/50">
-              <tr className="hover:bg-slate-800/30">
-                <td className="px-6 py-3 text-slate-300 sticky left-0 bg-slate-900/95">Gross Potential Rent</td>
-                {proforma.rows.gpr.slice(1).map((val, i) => (
-                  <td key={i} className="text-right px-4 py-3 text-white font-mono">
-                    {formatCurrency(val)}
-                  </td>
-                ))}
-              </tr>
-              <tr className="hover:bg-slate-800/30">
-                <td className="px-6 py-3 text-slate-300 sticky left-0 bg-slate-900/95">Other Income</td>
-                {proforma.rows.otherIncome.slice(1).map((val, i) => (
-                  <td key={i} className="text-right px-4 py-3 text-white font-mono">
-                    {formatCurrency(val)}
-                  </td>
-                ))}
-              </tr>
-              <tr className="hover:bg-slate-800/30">
-                <td className="px-6 py-3 text-slate-300 sticky left-0 bg-slate-900/95">Less: Vacancy</td>
-                {proforma.rows.vacancy.slice(1).map((val, i) => (
-                  <td key={i} className="text-right px-4 py-3 text-red-400 font-mono">
-                    {formatCurrency(val)}
-                  </td>
-                ))}
-              </tr>
-              <tr className="bg-slate-800/50 font-semibold">
-                <td className="px-6 py-3 text-white sticky left-0 bg-slate-800/95">Effective Gross Income</td>
-                {proforma.rows.egi.slice(1).map((val, i) => (
-                  <td key={i} className="text-right px-4 py-3 text-white font-mono">
-                    {formatCurrency(val)}
-                  </td>
-                ))}
-              </tr>
-              <tr className="hover:bg-slate-800/30">
-                <td className="px-6 py-3 text-slate-300 sticky left-0 bg-slate-900/95">Less: Operating Expenses</td>
-                {proforma.rows.opex.slice(1).map((val, i) => (
-                  <td key={i} className="text-right px-4 py-3 text-red-400 font-mono">
-                    {formatCurrency(val)}
-                  </td>
-                ))}
-              </tr>
-              <tr className="bg-emerald-500/10 font-bold">
-                <td className="px-6 py-3 text-emerald-400 sticky left-0 bg-emerald-500/10">Net Operating Income</td>
-                {proforma.rows.noi.slice(1).map((val, i) => (
-                  <td key={i} className="text-right px-4 py-3 text-emerald-400 font-mono">
-                    {formatCurrency(val)}
-                  </td>
-                ))}
-              </tr>
-              <tr className="hover:bg-slate-800/30">
-                <td className="px-6 py-3 text-slate-300 sticky left-0 bg-slate-900/95">Less: Capital Reserves</td>
-                {proforma.rows.reserves.slice(1).map((val, i) => (
-                  <td key={i} className="text-right px-4 py-3 text-red-400 font-mono">
-                    {formatCurrency(val)}
+              {proforma.rows.map((row) => (
+                <tr
+                  key={row.label}
+                  className={
+                    row.isTotal ? 'bg-emerald-500/10 font-bold'
+                      : row.isSubtotal ? 'bg-slate-800/50 font-semibold'
+                      : 'hover:bg-slate-800/30'
+                  }
+                >
+                  <td
+                    className={`px-6 py-3 sticky left-0 ${
+                      row.isTotal ? 'text-emerald-400 bg-emerald-500/10'
+                        : row.isSubtotal ? 'text-white bg-slate-800/95'
+                        : 'text-slate-300 bg-slate-900/95'
+                    }`}
+                  >
+                    {row.label}
                   </td>
-                ))}
-              </tr>
-              <tr className="hover:bg-slate-800/30">
-                <td className="px-6 py-3 text-slate-300 sticky left-0 bg-slate-900/95">Less: Debt Service</td>
-                {proforma.rows.debtService.slice(1).map((val, i) => (
-                  <td key={i} className="text-right px-4 py-3 text-red-400 font-mono">
-                    {formatCurrency(val)}
-                  </td>
-                ))}
-              </tr>
-              <tr className="bg-blue-500/10 font-bold">
-                <td className="px-6 py-3 text-blue-400 sticky left-0 bg-blue-500/10">Cash Flow After Debt</td>
-                {proforma.rows.cfAfterDebt.slice(1).map((val, i) => (
-                  <td key={i} className="text-right px-4 py-3 font-mono">
-                    <span className={val >= 0 ? 'text-emerald-400' : 'text-red-400'}>
-                      {formatCurrency(val)}
-                    </span>
-                  </td>
-                ))}
-              </tr>
+                  {row.values.map((val, i) => (
+                    <td key={i} className="text-right px-4 py-3 font-mono">
+                      <span className={(val ?? 0) < 0 ? 'text-red-400' : row.isTotal ? 'text-emerald-400' : 'text-white'}>
+                        {val === null ? '—' : formatCurrency(val)}
+                      </span>
+                    </td>
+                  ))}
+                </tr>
+              ))}
             </tbody>
           </table>
         </div>
@@ -353,7 +566,7 @@ export const ProFormaSection: React.FC = () => {
       {/* Metrics by Year */}
       <Card variant="elevated">
         <CardHeader>
-          <CardTitle subtitle="Key ratios by year">
+          <CardTitle subtitle="Key ratios by period (annualized)">
             Performance Metrics
           </CardTitle>
         </CardHeader>
@@ -363,9 +576,9 @@ export const ProFormaSection: React.FC = () => {
               <thead>
                 <tr className="border-b border-slate-700">
                   <th className="text-left py-3 font-medium text-slate-400">Metric</th>
-                  {proforma.years.slice(1).map((year) => (
-                    <th key={year} className="text-right py-3 font-medium text-slate-400 min-w-[80px]">
-                      Year {year}
+                  {proforma.periods.map((period) => (
+                    <th key={period.label} className="text-right py-3 font-medium text-slate-400 min-w-[80px] whitespace-nowrap">
+                      {period.label}
                     </th>
                   ))}
                 </tr>
@@ -373,24 +586,34 @@ export const ProFormaSection: React.FC = () => {
               <tbody className="divide-y divide-slate-700/50">
                 <tr>
                   <td className="py-3 text-slate-300">Cash-on-Cash Return</td>
-                  {proforma.rows.cfAfterDebt.slice(1).map((cf, i) => (
+                  {proforma.lines.cfAfterDebt.map((cf, i) => (
                     <td key={i} className="text-right py-3 text-white">
-                      {proforma.metrics.totalEquity > 0 
-                        ? ((cf / proforma.metrics.totalEquity) * 100).toFixed(1) 
+                      {proforma.totalEquity > 0 
+                        ? ((annualize(cf, i) / proforma.totalEquity) * 100).toFixed(1) 
                         : 0}%
                     </td>
                   ))}
                 </tr>
                 <tr>
                   <td className="py-3 text-slate-300">NOI Yield on Cost</td>
-                  {proforma.rows.noi.slice(1).map((noi, i) => (
+                  {proforma.lines.noi.map((noi, i) => (
                     <td key={i} className="text-right py-3 text-white">
-                      {proforma.metrics.purchasePrice > 0 
-                        ? ((noi / proforma.metrics.purchasePrice) * 100).toFixed(2) 
+                      {proforma.purchasePrice > 0 
+                        ? ((annualize(noi, i) / proforma.purchasePrice) * 100).toFixed(2) 
                         : 0}%
                     </td>
                   ))}
                 </tr>
+                {proforma.occupancy && (
+                  <tr>
+                    <td className="py-3 text-slate-300">Occupancy (End of Period)</td>
+                    {proforma.occupancy.map((occupancy, i) => (
+                      <td key={i} className="text-right py-3 text-white">
+                        {occupancy.toFixed(1)}%
+                      </td>
+                    ))}
+                  </tr>
+                )}
               </tbody>
             </table>
           </div>
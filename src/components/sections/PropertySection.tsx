@@ -305,6 +305,55 @@ export const PropertySection: React.FC<PropertySectionProps> = ({ onChange }) =>
               }}
               helperText="1-50 years supported"
             />
+            <Input
+              label="Additional Months"
+              type="number"
+              placeholder="0"
+              rightAddon="months"
+              value={analysis?.hold_period_months || ''}
+              onChange={(e) => {
+                onChange()
+                updateAnalysis({ hold_period_months: e.target.value ? Math.min(11, Math.max(0, Number(e.target.value))) : 0 })
+              }}
+              helperText="Partial-year exit (0-11)"
+            />
+            <Select
+              label="Pro Forma Granularity"
+              options={[
+                { value: 'annual', label: 'Annual' },
+                { value: 'quarterly', label: 'Quarterly' },
+                { value: 'monthly', label: 'Monthly' },
+              ]}
+              value={analysis?.granularity || 'annual'}
+              onChange={(e) => {
+                onChange()
+                updateAnalysis({ granularity: e.target.value as never })
+              }}
+            />
+            <Input
+              label="Levered Discount Rate"
+              type="number"
+              placeholder="10"
+              rightAddon="%"
+              value={analysis?.discount_rate_levered ?? ''}
+              onChange={(e) => {
+                onChange()
+                updateAnalysis({ discount_rate_levered: e.target.value ? Number(e.target.value) : null })
+              }}
+              helperText="Target equity return for NPV"
+            />
+            <Input
+              label="Unlevered Discount Rate"
+              type="number"
+              placeholder="8"
+              rightAddon="%"
+              value={analysis?.discount_rate_unlevered ?? ''}
+              onChange={(e) => {
+                onChange()
+                updateAnalysis({ discount_rate_unlevered: e.target.value ? Number(e.target.value) : null })
+              }}
+              helperText="Target property-level return"
+            />
             <Input
               label="Analysis Start Date"
               type="date"
@@ -0,0 +1,236 @@
+import React, { useMemo, useRef, useState } from 'react'
+import { AlertCircle, CheckCircle2, FileSpreadsheet, Upload } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardContent, Select, Button } from '../ui'
+import {
+  autoMapColumns,
+  importFields,
+  mapRentRollRows,
+  mergeImportedTenants,
+  parseRentRollFile,
+} from '../../lib/rentRollImport'
+import type { ColumnMapping, ImportField, ParsedSheet } from '../../lib/rentRollImport'
+import type { Tenant } from '../../types'
+
+interface RentRollImportCardProps {
+  tenants: Tenant[]
+  onImport: (tenants: Tenant[]) => void
+}
+
+const PREVIEW_ROWS = 25
+
+const formatCurrency = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+
+export const RentRollImportCard: React.FC<RentRollImportCardProps> = ({ tenants, onImport }) => {
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [sheet, setSheet] = useState<ParsedSheet | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge')
+  const [error, setError] = useState<string | null>(null)
+  const [imported, setImported] = useState<number | null>(null)
+
+  const rows = useMemo(
+    () => sheet && mapping ? mapRentRollRows(sheet, mapping) : [],
+    [sheet, mapping]
+  )
+  const validRows = rows.filter(r => r.errors.length === 0)
+  const missingRequired = mapping
+    ? importFields.filter(f => f.required && mapping[f.field] === null).map(f => f.label)
+    : []
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    setError(null)
+    setImported(null)
+    try {
+      const parsed = await parseRentRollFile(file)
+      setSheet(parsed)
+      setMapping(autoMapColumns(parsed.headers))
+    } catch (e) {
+      setSheet(null)
+      setMapping(null)
+      setError(e instanceof Error ? e.message : 'Could not read file')
+    }
+  }
+
+  const updateMapping = (field: ImportField, value: string) => {
+    if (!mapping) return
+    setMapping({ ...mapping, [field]: value === '' ? null : Number(value) })
+  }
+
+  const handleImport = () => {
+    onImport(mergeImportedTenants(tenants, validRows, mode))
+    setImported(validRows.length)
+    setSheet(null)
+    setMapping(null)
+    if (fileInput.current) fileInput.current.value = ''
+  }
+
+  const columnOptions = [
+    { value: '', label: 'Not mapped' },
+    ...(sheet?.headers.map((header, i) => ({ value: String(i), label: header })) || []),
+  ]
+
+  return (
+    <Card variant="elevated">
+      <CardHeader
+        action={
+          <Button
+            variant="secondary"
+            size="sm"
+            leftIcon={<Upload className="w-4 h-4" />}
+            onClick={() => fileInput.current?.click()}
+          >
+            {sheet ? 'Choose Another File' : 'Choose File'}
+          </Button>
+        }
+      >
+        <CardTitle subtitle="Upload a CSV or Excel rent roll, map its columns, then import the tenants">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-emerald-400" />
+            Rent Roll Import
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          className="hidden"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+
+        {error && (
+          <div className="flex items-center gap-2 p-3 mb-4 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-400">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {imported !== null && (
+          <div className="flex items-center gap-2 p-3 mb-4 rounded-lg bg-emerald-500/10 border border-emerald-500/30 text-sm text-emerald-400">
+            <CheckCircle2 className="w-4 h-4 shrink-0" />
+            Imported {imported} {imported === 1 ? 'tenant' : 'tenants'}
+          </div>
+        )}
+
+        {!sheet || !mapping ? (
+          <button
+            onClick={() => fileInput.current?.click()}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault()
+              handleFile(e.dataTransfer.files[0])
+            }}
+            className="w-full py-10 rounded-xl border-2 border-dashed border-slate-700 text-slate-400 hover:border-slate-600 transition-colors"
+          >
+            <Upload className="w-8 h-8 mx-auto mb-3" />
+            <p>Drop a .csv, .xlsx or .xls file here, or click to browse</p>
+            <p className="text-xs text-slate-500 mt-1">The first row should hold column headers</p>
+          </button>
+        ) : (
+          <div className="space-y-6">
+            {/* Column Mapping */}
+            <div>
+              <h4 className="text-sm font-medium text-slate-300 mb-3">
+                Map columns from {sheet.fileName} ({sheet.rows.length} rows)
+              </h4>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {importFields.map(({ field, label, required }) => (
+                  <Select
+                    key={field}
+                    label={required ? `${label} *` : label}
+                    value={mapping[field] === null ? '' : String(mapping[field])}
+                    onChange={(e) => updateMapping(field, e.target.value)}
+                    options={columnOptions}
+                  />
+                ))}
+              </div>
+              {missingRequired.length > 0 && (
+                <p className="text-xs text-amber-400 mt-2">Map {missingRequired.join(' and ')} to import</p>
+              )}
+            </div>
+
+            {/* Preview */}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-700">
+                    <th className="text-left py-2 font-medium text-slate-400">Row</th>
+                    <th className="text-left py-2 font-medium text-slate-400">Tenant</th>
+                    <th className="text-left py-2 font-medium text-slate-400">Suite</th>
+                    <th className="text-right py-2 font-medium text-slate-400">SF</th>
+                    <th className="text-left py-2 pl-4 font-medium text-slate-400">Lease Term</th>
+                    <th className="text-right py-2 font-medium text-slate-400">Monthly Rent</th>
+                    <th className="text-left py-2 pl-4 font-medium text-slate-400">Type</th>
+                    <th className="text-right py-2 font-medium text-slate-400">Esc.</th>
+                    <th className="text-left py-2 pl-4 font-medium text-slate-400">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700/50">
+                  {rows.slice(0, PREVIEW_ROWS).map(({ rowNumber, tenant, errors }) => (
+                    <tr key={rowNumber} className={errors.length > 0 ? 'bg-red-500/5' : ''}>
+                      <td className="py-2 text-slate-500">{rowNumber}</td>
+                      <td className="py-2 text-slate-300">{tenant.tenant_name || '—'}</td>
+                      <td className="py-2 text-slate-300">{tenant.suite_unit || '—'}</td>
+                      <td className="py-2 text-right text-slate-300">{tenant.rentable_sf?.toLocaleString() ?? '—'}</td>
+                      <td className="py-2 pl-4 text-slate-300">
+                        {tenant.lease_start_date || '—'} to {tenant.lease_end_date || '—'}
+                      </td>
+                      <td className="py-2 text-right text-slate-300">{formatCurrency(tenant.base_rent_monthly)}</td>
+                      <td className="py-2 pl-4 text-slate-300">{tenant.lease_type}</td>
+                      <td className="py-2 text-right text-slate-300">
+                        {tenant.escalation_percentage !== null ? `${tenant.escalation_percentage}%` : '—'}
+                      </td>
+                      <td className="py-2 pl-4">
+                        {errors.length === 0 ? (
+                          <span className="text-emerald-400">OK</span>
+                        ) : (
+                          <span className="text-red-400">{errors.join('; ')}</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {rows.length > PREVIEW_ROWS && (
+                <p className="text-xs text-slate-500 mt-2">
+                  Showing {PREVIEW_ROWS} of {rows.length} rows
+                </p>
+              )}
+            </div>
+
+            {/* Import */}
+            <div className="flex flex-wrap items-end justify-between gap-4 pt-4 border-t border-slate-700">
+              <div className="w-72">
+                <Select
+                  label="Existing Tenants"
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as 'merge' | 'replace')}
+                  options={[
+                    { value: 'merge', label: 'Merge (update matching suites)' },
+                    { value: 'replace', label: 'Replace all tenants' },
+                  ]}
+                  helperText={`${tenants.length} tenants in the rent roll now`}
+                />
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-sm text-slate-400">
+                  {validRows.length} of {rows.length} rows valid
+                  {rows.length > validRows.length && ' — rows with errors are skipped'}
+                </span>
+                <Button
+                  onClick={handleImport}
+                  disabled={validRows.length === 0 || missingRequired.length > 0}
+                >
+                  Import {validRows.length} {validRows.length === 1 ? 'Tenant' : 'Tenants'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
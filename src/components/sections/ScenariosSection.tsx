@@ -0,0 +1,369 @@
+import React, { useMemo } from 'react'
+import { GitBranch, Plus, Trash2, X } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardContent, Input, Select, Button } from '../ui'
+import { useProjectStore } from '../../store/projectStore'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  driverBaseValue,
+  evaluateProject,
+  evaluateScenario,
+  scenarioInputs,
+  DEFAULT_DISCOUNT_RATE,
+} from '../../engine'
+import type { ScenarioInput, ScenarioResults } from '../../engine'
+import type { Project, Scenario, ScenarioInputOverride } from '../../types'
+
+interface ScenariosSectionProps {
+  onChange: () => void
+}
+
+type HeadlineOverride = Exclude<keyof Scenario['overrides'], 'inputs'>
+
+const headlineOverrides: { key: HeadlineOverride; label: string; unit: '%' | '$' }[] = [
+  { key: 'rent_growth', label: 'Rent Growth', unit: '%' },
+  { key: 'expense_growth', label: 'Expense Growth', unit: '%' },
+  { key: 'vacancy_rate', label: 'Vacancy', unit: '%' },
+  { key: 'exit_cap_rate', label: 'Exit Cap Rate', unit: '%' },
+  { key: 'interest_rate', label: 'Interest Rate', unit: '%' },
+  { key: 'purchase_price', label: 'Purchase Price', unit: '$' },
+]
+
+const metrics = (discountRate: number): { key: keyof ScenarioResults; label: string }[] => [
+  { key: 'irr', label: 'Levered IRR' },
+  { key: 'equity_multiple', label: 'Equity Multiple' },
+  { key: 'cash_on_cash', label: 'Avg Cash-on-Cash' },
+  { key: 'npv', label: `NPV @ ${discountRate}%` },
+]
+
+const formatCurrency = (value: number) => {
+  const sign = value < 0 ? '-' : ''
+  const abs = Math.abs(value)
+  if (abs >= 1000000) return `${sign}$${(abs / 1000000).toFixed(2)}M`
+  return `${sign}$${abs.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+}
+
+const formatMetric = (key: keyof ScenarioResults, value: number | null) => {
+  if (value === null || !Number.isFinite(value)) return '—'
+  if (key === 'equity_multiple') return `${value.toFixed(2)}x`
+  if (key === 'npv') return formatCurrency(value)
+  return `${value.toFixed(2)}%`
+}
+
+const formatDelta = (key: keyof ScenarioResults, value: number) => {
+  const sign = value > 0 ? '+' : ''
+  if (key === 'equity_multiple') return `${sign}${value.toFixed(2)}x`
+  if (key === 'npv') return `${sign}${formatCurrency(value)}`
+  // Rates move in basis points
+  return `${sign}${Math.round(value * 100)} bps`
+}
+
+const formatInputValue = (input: ScenarioInput) => {
+  if (input.value === null) return 'not set'
+  if (input.kind === 'boolean') return input.value ? 'Yes' : 'No'
+  return typeof input.value === 'number' ? input.value.toLocaleString() : input.value
+}
+
+const headlineBase = (project: Project, key: HeadlineOverride) => {
+  switch (key) {
+    case 'rent_growth': return driverBaseValue(project, 'rent_growth')
+    case 'expense_growth': return project.growth?.expense_growth_rate ?? 3
+    case 'vacancy_rate': return driverBaseValue(project, 'vacancy_rate')
+    case 'exit_cap_rate': return driverBaseValue(project, 'exit_cap_rate')
+    case 'interest_rate': return driverBaseValue(project, 'interest_rate')
+    case 'purchase_price': return driverBaseValue(project, 'purchase_price')
+  }
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// Upside and downside cases moved off the current inputs
+const presetScenarios = (project: Project): Scenario[] => {
+  const base = (key: HeadlineOverride) => headlineBase(project, key)
+  const hasDebt = (project.financing?.debt_tranches || []).length > 0
+  return [
+    {
+      id: uuidv4(),
+      name: 'Upside',
+      description: 'Stronger rent growth, lower vacancy and a tighter exit cap',
+      overrides: {
+        rent_growth: round(base('rent_growth') + 1),
+        vacancy_rate: round(Math.max(0, base('vacancy_rate') - 2.5)),
+        exit_cap_rate: round(base('exit_cap_rate') - 0.25),
+      },
+    },
+    {
+      id: uuidv4(),
+      name: 'Downside',
+      description: 'Slower rent growth, higher vacancy, a wider exit cap and higher rates',
+      overrides: {
+        rent_growth: round(base('rent_growth') - 1),
+        vacancy_rate: round(base('vacancy_rate') + 2.5),
+        exit_cap_rate: round(base('exit_cap_rate') + 0.5),
+        ...(hasDebt ? { interest_rate: round(base('interest_rate') + 1) } : {}),
+      },
+    },
+  ]
+}
+
+export const ScenariosSection: React.FC<ScenariosSectionProps> = ({ onChange }) => {
+  const { currentProject, updateScenarios } = useProjectStore()
+
+  const scenarios = useMemo(() => currentProject?.scenarios || [], [currentProject])
+  const inputs = useMemo(() => currentProject ? scenarioInputs(currentProject) : [], [currentProject])
+  const baseResults = useMemo(() => currentProject ? evaluateProject(currentProject) : null, [currentProject])
+
+  // Results follow the current inputs; they're stored with the scenarios on save
+  const evaluated = useMemo(
+    () => currentProject ? scenarios.map(s => ({ ...s, results: evaluateScenario(currentProject, s) })) : [],
+    [currentProject, scenarios]
+  )
+
+  if (!currentProject || !baseResults) return null
+
+  const inputOptions = [
+    { value: '', label: 'Select an input…' },
+    ...inputs.map(i => ({ value: i.path, label: `${i.section} › ${i.label}` })),
+  ]
+
+  const saveScenarios = (next: Scenario[]) => {
+    onChange()
+    updateScenarios(next)
+  }
+
+  const addScenario = () => {
+    saveScenarios([
+      ...scenarios,
+      { id: uuidv4(), name: `Scenario ${scenarios.length + 1}`, description: '', overrides: {} },
+    ])
+  }
+
+  const addPresets = () => saveScenarios([...scenarios, ...presetScenarios(currentProject)])
+
+  const updateScenario = (id: string, updates: Partial<Scenario>) => {
+    saveScenarios(scenarios.map(s => s.id === id ? { ...s, ...updates } : s))
+  }
+
+  const removeScenario = (id: string) => {
+    saveScenarios(scenarios.filter(s => s.id !== id))
+  }
+
+  const setHeadline = (scenario: Scenario, key: HeadlineOverride, value: string) => {
+    const overrides = { ...scenario.overrides }
+    if (value === '') delete overrides[key]
+    else overrides[key] = parseFloat(value)
+    updateScenario(scenario.id, { overrides })
+  }
+
+  const setInputOverrides = (scenario: Scenario, overrides: ScenarioInputOverride[]) => {
+    updateScenario(scenario.id, { overrides: { ...scenario.overrides, inputs: overrides } })
+  }
+
+  const addInputOverride = (scenario: Scenario) => {
+    setInputOverrides(scenario, [...(scenario.overrides.inputs || []), { path: '', value: null }])
+  }
+
+  const updateInputOverride = (scenario: Scenario, index: number, updates: Partial<ScenarioInputOverride>) => {
+    setInputOverrides(scenario, (scenario.overrides.inputs || []).map((o, i) => i === index ? { ...o, ...updates } : o))
+  }
+
+  const removeInputOverride = (scenario: Scenario, index: number) => {
+    setInputOverrides(scenario, (scenario.overrides.inputs || []).filter((_, i) => i !== index))
+  }
+
+  // Picking an input starts the override at its current value
+  const selectInput = (scenario: Scenario, index: number, path: string) => {
+    const input = inputs.find(i => i.path === path)
+    updateInputOverride(scenario, index, { path, value: input?.value ?? null })
+  }
+
+  const renderOverrideValue = (scenario: Scenario, index: number, override: ScenarioInputOverride, input: ScenarioInput | undefined) => {
+    if (!input) return <div />
+    if (input.kind === 'boolean') {
+      return (
+        <Select
+          value={override.value ? 'yes' : 'no'}
+          onChange={(e) => updateInputOverride(scenario, index, { value: e.target.value === 'yes' })}
+          options={[{ value: 'yes', label: 'Yes' }, { value: 'no', label: 'No' }]}
+        />
+      )
+    }
+    if (input.kind === 'date') {
+      return (
+        <Input
+          type="date"
+          value={typeof override.value === 'string' ? override.value.slice(0, 10) : ''}
+          onChange={(e) => updateInputOverride(scenario, index, { value: e.target.value })}
+        />
+      )
+    }
+    return (
+      <Input
+        type="number"
+        value={typeof override.value === 'number' ? override.value : ''}
+        onChange={(e) => updateInputOverride(scenario, index, { value: e.target.value === '' ? null : parseFloat(e.target.value) })}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Comparison */}
+      <Card variant="elevated">
+        <CardHeader
+          action={
+            <div className="flex gap-2">
+              {scenarios.length === 0 && (
+                <Button variant="secondary" size="sm" onClick={addPresets}>
+                  Add Upside / Downside
+                </Button>
+              )}
+              <Button variant="secondary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={addScenario}>
+                Add Scenario
+              </Button>
+            </div>
+          }
+        >
+          <CardTitle subtitle="Each scenario reruns the full model with its overrides; deltas are against the base case">
+            <div className="flex items-center gap-2">
+              <GitBranch className="w-5 h-5 text-emerald-400" />
+              Scenario Comparison
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-700">
+                  <th className="text-left py-2 font-medium text-slate-400">Metric</th>
+                  <th className="text-right py-2 px-3 font-medium text-white">Base Case</th>
+                  {evaluated.map(s => (
+                    <th key={s.id} className="text-right py-2 px-3 font-medium text-slate-400">{s.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-700/50">
+                {metrics(currentProject.analysis?.discount_rate_levered ?? DEFAULT_DISCOUNT_RATE).map(({ key, label }) => {
+                  const base = baseResults[key]
+                  return (
+                    <tr key={key}>
+                      <td className="py-2 text-slate-300">{label}</td>
+                      <td className="py-2 px-3 text-right font-medium text-white tabular-nums">{formatMetric(key, base)}</td>
+                      {evaluated.map(s => {
+                        const value = s.results[key]
+                        const delta = value !== null && base !== null ? value - base : null
+                        return (
+                          <td key={s.id} className="py-2 px-3 text-right tabular-nums">
+                            <div className="text-slate-200">{formatMetric(key, value)}</div>
+                            {delta !== null && Number.isFinite(delta) && (
+                              <div className={`text-xs ${delta > 0 ? 'text-emerald-400' : delta < 0 ? 'text-red-400' : 'text-slate-500'}`}>
+                                {formatDelta(key, delta)}
+                              </div>
+                            )}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+          {scenarios.length === 0 && (
+            <p className="text-sm text-slate-400 text-center mt-6">
+              No scenarios yet — add upside and downside cases or build your own
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Scenario Inputs */}
+      {scenarios.map(scenario => (
+        <Card key={scenario.id} variant="elevated">
+          <CardHeader
+            action={
+              <Button variant="ghost" size="sm" onClick={() => removeScenario(scenario.id)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            }
+          >
+            <CardTitle subtitle={scenario.description || 'Leave an input blank to keep the base case value'}>
+              {scenario.name}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  label="Scenario Name"
+                  value={scenario.name}
+                  onChange={(e) => updateScenario(scenario.id, { name: e.target.value })}
+                />
+                <Input
+                  label="Description"
+                  value={scenario.description}
+                  onChange={(e) => updateScenario(scenario.id, { description: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                {headlineOverrides.map(({ key, label, unit }) => {
+                  const base = headlineBase(currentProject, key)
+                  return (
+                    <Input
+                      key={key}
+                      label={label}
+                      type="number"
+                      value={scenario.overrides[key] ?? ''}
+                      onChange={(e) => setHeadline(scenario, key, e.target.value)}
+                      leftAddon={unit === '$' ? '$' : undefined}
+                      rightAddon={unit === '%' ? '%' : undefined}
+                      placeholder={String(round(base))}
+                      helperText={`Base ${unit === '$' ? formatCurrency(base) : `${round(base)}%`}`}
+                      step={unit === '$' ? 10000 : 0.25}
+                    />
+                  )
+                })}
+              </div>
+
+              {/* Any other input */}
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-sm font-medium text-slate-300">Other Input Overrides</h4>
+                  <Button variant="ghost" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={() => addInputOverride(scenario)}>
+                    Add Override
+                  </Button>
+                </div>
+                {(scenario.overrides.inputs || []).length === 0 ? (
+                  <p className="text-sm text-slate-500">Override any other assumption, tenant or loan term for this scenario</p>
+                ) : (
+                  <div className="space-y-3">
+                    {(scenario.overrides.inputs || []).map((override, index) => {
+                      const input = inputs.find(i => i.path === override.path)
+                      return (
+                        <div key={index} className="grid grid-cols-[1fr_12rem_10rem_auto] gap-3 items-center">
+                          <Select
+                            value={input ? override.path : ''}
+                            onChange={(e) => selectInput(scenario, index, e.target.value)}
+                            options={inputOptions}
+                          />
+                          {renderOverrideValue(scenario, index, override, input)}
+                          <span className="text-xs text-slate-500">
+                            {input ? `Base ${formatInputValue(input)}` : override.path ? 'Input no longer exists' : ''}
+                          </span>
+                          <Button variant="ghost" size="sm" onClick={() => removeInputOverride(scenario, index)}>
+                            <X className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,308 @@
+import React, { useEffect, useMemo } from 'react'
+import { Grid3x3, Plus, Trash2 } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardContent, Input, Select, Button } from '../ui'
+import { useProjectStore } from '../../store/projectStore'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  centeredRange,
+  defaultDriverStep,
+  driverBaseValue,
+  runSensitivity,
+  sensitivityDrivers,
+  DEFAULT_DISCOUNT_RATE,
+} from '../../engine'
+import type { SensitivityMetric } from '../../engine'
+import type { Project, SensitivityDriver, SensitivityTable } from '../../types'
+
+interface SensitivitySectionProps {
+  onChange: () => void
+}
+
+type SensitivityVariable = SensitivityTable['variable_1']
+
+const driverOptions = (Object.keys(sensitivityDrivers) as SensitivityDriver[])
+  .map(value => ({ value, label: sensitivityDrivers[value].label }))
+
+const metricOptions: { value: SensitivityMetric; label: string }[] = [
+  { value: 'IRR', label: 'Levered IRR' },
+  { value: 'Equity Multiple', label: 'Equity Multiple' },
+  { value: 'Cash-on-Cash', label: 'Avg Cash-on-Cash' },
+  { value: 'DSCR', label: 'Year 1 DSCR' },
+  { value: 'NPV', label: 'Levered NPV' },
+]
+
+const pointOptions = [3, 5, 7].map(n => ({ value: String(n), label: `${n} points` }))
+
+const formatCurrency = (value: number) => {
+  const sign = value < 0 ? '-' : ''
+  const abs = Math.abs(value)
+  if (abs >= 1000000) return `${sign}$${(abs / 1000000).toFixed(2)}M`
+  return `${sign}$${abs.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+}
+
+const formatDriver = (driver: SensitivityDriver, value: number) => {
+  switch (sensitivityDrivers[driver].unit) {
+    case 'percent': return `${value.toFixed(2)}%`
+    case 'currency': return formatCurrency(value)
+    case 'years': return `${value} yr${value === 1 ? '' : 's'}`
+  }
+}
+
+const formatMetric = (metric: SensitivityMetric, value: number | null) => {
+  if (value === null || !Number.isFinite(value)) return '—'
+  switch (metric) {
+    case 'IRR':
+    case 'Cash-on-Cash': return `${value.toFixed(2)}%`
+    case 'Equity Multiple': return `${value.toFixed(2)}x`
+    case 'DSCR': return value.toFixed(2)
+    case 'NPV': return formatCurrency(value)
+  }
+}
+
+// Grid spacing and size are read back from the saved range
+const variableStep = (variable: SensitivityVariable) =>
+  variable.range.length > 1
+    ? Math.round((variable.range[1] - variable.range[0]) * 10000) / 10000
+    : defaultDriverStep(variable.name, variable.base)
+
+const buildVariable = (project: Project, name: SensitivityDriver, step?: number, points: number = 5): SensitivityVariable => {
+  const base = driverBaseValue(project, name)
+  return { name, base, range: centeredRange(name, base, step ?? defaultDriverStep(name, base), points) }
+}
+
+// Re-centers both ranges on the current inputs and reruns the grid
+const refreshTable = (project: Project, table: SensitivityTable): SensitivityTable => {
+  const variable_1 = buildVariable(project, table.variable_1.name, variableStep(table.variable_1), table.variable_1.range.length)
+  const variable_2 = buildVariable(project, table.variable_2.name, variableStep(table.variable_2), table.variable_2.range.length)
+  const next = { ...table, variable_1, variable_2 }
+  return { ...next, results: runSensitivity(project, next) }
+}
+
+// Background shade from red (worst) to emerald (best) across the grid
+const heatColor = (value: number | null, min: number, max: number) => {
+  if (value === null || !Number.isFinite(value) || max === min) return 'transparent'
+  const t = (value - min) / (max - min)
+  return t >= 0.5
+    ? `rgba(16, 185, 129, ${((t - 0.5) * 2 * 0.45).toFixed(3)})`
+    : `rgba(239, 68, 68, ${((0.5 - t) * 2 * 0.45).toFixed(3)})`
+}
+
+const isBase = (variable: SensitivityVariable, value: number) => Math.abs(variable.base - value) < 1e-6
+
+export const SensitivitySection: React.FC<SensitivitySectionProps> = ({ onChange }) => {
+  const { currentProject, updateSensitivityTables } = useProjectStore()
+
+  const tables = useMemo(() => currentProject?.sensitivity_tables || [], [currentProject])
+
+  // Keep saved tables centered on the current inputs with up-to-date results
+  const refreshed = useMemo(
+    () => currentProject ? tables.map(t => refreshTable(currentProject, t)) : [],
+    [currentProject, tables]
+  )
+  useEffect(() => {
+    if (JSON.stringify(refreshed) !== JSON.stringify(tables)) {
+      updateSensitivityTables(refreshed)
+    }
+  }, [refreshed, tables, updateSensitivityTables])
+
+  if (!currentProject) return null
+
+  const saveTables = (next: SensitivityTable[]) => {
+    onChange()
+    updateSensitivityTables(next.map(t => refreshTable(currentProject, t)))
+  }
+
+  const addTable = () => {
+    const table: SensitivityTable = {
+      id: uuidv4(),
+      name: `Sensitivity ${tables.length + 1}`,
+      output_metric: 'IRR',
+      discount_rate: null,
+      variable_1: buildVariable(currentProject, 'exit_cap_rate'),
+      variable_2: buildVariable(currentProject, 'rent_growth'),
+      results: [],
+    }
+    saveTables([...tables, table])
+  }
+
+  const updateTable = (id: string, updates: Partial<SensitivityTable>) => {
+    saveTables(tables.map(t => t.id === id ? { ...t, ...updates } : t))
+  }
+
+  const removeTable = (id: string) => {
+    saveTables(tables.filter(t => t.id !== id))
+  }
+
+  const setDriver = (table: SensitivityTable, key: 'variable_1' | 'variable_2', name: SensitivityDriver) => {
+    updateTable(table.id, { [key]: buildVariable(currentProject, name, undefined, table[key].range.length) })
+  }
+
+  const setStep = (table: SensitivityTable, key: 'variable_1' | 'variable_2', step: number) => {
+    if (!(step > 0)) return
+    const variable = table[key]
+    updateTable(table.id, { [key]: buildVariable(currentProject, variable.name, step, variable.range.length) })
+  }
+
+  const setPoints = (table: SensitivityTable, key: 'variable_1' | 'variable_2', points: number) => {
+    const variable = table[key]
+    updateTable(table.id, { [key]: buildVariable(currentProject, variable.name, variableStep(variable), points) })
+  }
+
+  const renderVariable = (table: SensitivityTable, key: 'variable_1' | 'variable_2', label: string) => {
+    const variable = table[key]
+    const other = table[key === 'variable_1' ? 'variable_2' : 'variable_1'].name
+    const { unit } = sensitivityDrivers[variable.name]
+    return (
+      <div className="grid grid-cols-3 gap-4">
+        <Select
+          label={label}
+          value={variable.name}
+          onChange={(e) => setDriver(table, key, e.target.value as SensitivityDriver)}
+          options={driverOptions.filter(o => o.value === variable.name || o.value !== other)}
+          helperText={`Base ${formatDriver(variable.name, variable.base)}`}
+        />
+        <Input
+          label="Step"
+          type="number"
+          value={variableStep(variable)}
+          onChange={(e) => setStep(table, key, parseFloat(e.target.value))}
+          leftAddon={unit === 'currency' ? '$' : undefined}
+          rightAddon={unit === 'percent' ? '%' : unit === 'years' ? 'yrs' : undefined}
+          step={unit === 'currency' ? 1000 : unit === 'years' ? 1 : 0.25}
+        />
+        <Select
+          label="Grid"
+          value={String(variable.range.length)}
+          onChange={(e) => setPoints(table, key, parseInt(e.target.value))}
+          options={pointOptions}
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card variant="elevated">
+        <CardHeader
+          action={
+            <Button variant="secondary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={addTable}>
+              Add Table
+            </Button>
+          }
+        >
+          <CardTitle subtitle="Rerun the model across two drivers at once; the base case is outlined">
+            <div className="flex items-center gap-2">
+              <Grid3x3 className="w-5 h-5 text-emerald-400" />
+              Sensitivity Tables
+            </div>
+          </CardTitle>
+        </CardHeader>
+        {refreshed.length === 0 && (
+          <CardContent>
+            <div className="text-center py-8 text-slate-400">
+              <p className="mb-4">No sensitivity tables yet</p>
+              <Button variant="secondary" leftIcon={<Plus className="w-4 h-4" />} onClick={addTable}>
+                Add Exit Cap × Rent Growth Table
+              </Button>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {refreshed.map(table => {
+        const values = table.results.flat().filter((v): v is number => v !== null && Number.isFinite(v))
+        const min = Math.min(...values)
+        const max = Math.max(...values)
+        const { variable_1, variable_2 } = table
+        return (
+          <Card key={table.id} variant="elevated">
+            <CardHeader
+              action={
+                <Button variant="ghost" size="sm" onClick={() => removeTable(table.id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              }
+            >
+              <CardTitle subtitle={`${metricOptions.find(m => m.value === table.output_metric)?.label} by ${sensitivityDrivers[variable_1.name].label} and ${sensitivityDrivers[variable_2.name].label}`}>
+                {table.name}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4 mb-6">
+                <div className="grid grid-cols-3 gap-4">
+                  <Input
+                    label="Table Name"
+                    value={table.name}
+                    onChange={(e) => updateTable(table.id, { name: e.target.value })}
+                  />
+                  <Select
+                    label="Output Metric"
+                    value={table.output_metric}
+                    onChange={(e) => updateTable(table.id, { output_metric: e.target.value as SensitivityMetric })}
+                    options={metricOptions}
+                  />
+                  {table.output_metric === 'NPV' && (
+                    <Input
+                      label="Discount Rate"
+                      type="number"
+                      value={table.discount_rate ?? ''}
+                      onChange={(e) => updateTable(table.id, { discount_rate: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                      rightAddon="%"
+                      placeholder={String(currentProject.analysis?.discount_rate_levered ?? DEFAULT_DISCOUNT_RATE)}
+                      helperText="Blank uses the project's levered rate"
+                      step={0.5}
+                    />
+                  )}
+                </div>
+                {renderVariable(table, 'variable_1', 'Rows')}
+                {renderVariable(table, 'variable_2', 'Columns')}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-700">
+                      <th className="text-left py-2 pr-4 font-medium text-slate-400">
+                        {sensitivityDrivers[variable_1.name].label} ↓ / {sensitivityDrivers[variable_2.name].label} →
+                      </th>
+                      {variable_2.range.map(col => (
+                        <th
+                          key={col}
+                          className={`text-right py-2 px-3 font-medium ${isBase(variable_2, col) ? 'text-white' : 'text-slate-400'}`}
+                        >
+                          {formatDriver(variable_2.name, col)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {variable_1.range.map((row, i) => (
+                      <tr key={row} className="border-b border-slate-700/50">
+                        <td className={`py-2 pr-4 font-medium ${isBase(variable_1, row) ? 'text-white' : 'text-slate-400'}`}>
+                          {formatDriver(variable_1.name, row)}
+                        </td>
+                        {variable_2.range.map((col, j) => {
+                          const value = table.results[i]?.[j] ?? null
+                          const base = isBase(variable_1, row) && isBase(variable_2, col)
+                          return (
+                            <td
+                              key={col}
+                              className={`text-right py-2 px-3 tabular-nums ${base ? 'ring-2 ring-inset ring-white font-bold text-white' : 'text-slate-200'}`}
+                              style={{ backgroundColor: heatColor(value, min, max) }}
+                            >
+                              {formatMetric(table.output_metric, value)}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,336 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Dices, Play, Square, AlertTriangle } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardContent, Input, Select, Button, ProgressBar } from '../ui'
+import { useProjectStore } from '../../store/projectStore'
+import {
+  histogram,
+  simulationBaseValue,
+  simulationVariables,
+  suggestedDistribution,
+  summarizeSimulation,
+  DEFAULT_SIMULATION,
+  MAX_ITERATIONS,
+  SIMULATION_PERCENTILES,
+} from '../../engine'
+import type { HistogramBin, SimulationIteration } from '../../engine'
+import type { MonteCarloMessage, MonteCarloRequest } from '../../engine/monteCarlo.worker'
+import type { DistributionType, MonteCarloSettings, SimulationDistribution, SimulationVariable } from '../../types'
+
+interface SimulationSectionProps {
+  onChange: () => void
+}
+
+const distributionTypes: { value: DistributionType; label: string }[] = [
+  { value: 'Normal', label: 'Normal' },
+  { value: 'Triangular', label: 'Triangular' },
+  { value: 'Uniform', label: 'Uniform' },
+]
+
+const parseValue = (value: string) => value === '' ? null : parseFloat(value)
+
+const formatPercent = (value: number | null) => value === null ? '—' : `${value.toFixed(2)}%`
+const formatMultiple = (value: number | null) => value === null ? '—' : `${value.toFixed(2)}x`
+
+const Histogram: React.FC<{ bins: HistogramBin[]; format: (v: number) => string; breakEven: number }> = ({ bins, format, breakEven }) => {
+  const peak = Math.max(1, ...bins.map(b => b.count))
+  return (
+    <div>
+      <div className="flex items-end gap-0.5 h-40">
+        {bins.map((bin, i) => (
+          <div
+            key={i}
+            title={`${format(bin.from)} to ${format(bin.to)}: ${bin.count}`}
+            className={`flex-1 rounded-t ${bin.to <= breakEven ? 'bg-red-500/70' : 'bg-emerald-500/70'}`}
+            style={{ height: `${(bin.count / peak) * 100}%` }}
+          />
+        ))}
+      </div>
+      {bins.length > 0 && (
+        <div className="flex justify-between text-xs text-slate-500 mt-2">
+          <span>{format(bins[0].from)}</span>
+          <span>{format(bins[bins.length - 1].to)}</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export const SimulationSection: React.FC<SimulationSectionProps> = ({ onChange }) => {
+  const { currentProject, updateSimulation } = useProjectStore()
+  const worker = useRef<Worker | null>(null)
+  const [running, setRunning] = useState(false)
+  const [completed, setCompleted] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [iterations, setIterations] = useState<SimulationIteration[] | null>(null)
+  // Inputs as of the last run, to flag results that no longer match
+  const [ranAt, setRanAt] = useState<string | null>(null)
+
+  // Stop any run in flight when leaving the tab
+  useEffect(() => () => worker.current?.terminate(), [])
+
+  const summary = useMemo(
+    () => currentProject && iterations ? summarizeSimulation(currentProject, iterations) : null,
+    [currentProject, iterations]
+  )
+  const irrBins = useMemo(() => iterations ? histogram(iterations.map(i => i.irr), 24) : [], [iterations])
+  const multipleBins = useMemo(() => iterations ? histogram(iterations.map(i => i.equityMultiple), 24) : [], [iterations])
+
+  if (!currentProject) return null
+
+  const settings = currentProject.simulation ?? DEFAULT_SIMULATION
+  // Every variable gets a row; the rate index only applies with unswapped floating debt
+  const distributions = (Object.keys(simulationVariables) as SimulationVariable[]).map(variable => {
+    const distribution = settings.distributions.find(d => d.variable === variable) ?? suggestedDistribution(currentProject, variable)
+    return simulationBaseValue(currentProject, variable) === null ? { ...distribution, enabled: false } : distribution
+  })
+  const enabledCount = distributions.filter(d => d.enabled).length
+
+  const saveSettings = (updates: Partial<MonteCarloSettings>) => {
+    onChange()
+    updateSimulation({ ...settings, ...updates })
+  }
+
+  const updateDistribution = (variable: SimulationVariable, updates: Partial<SimulationDistribution>) => {
+    saveSettings({ distributions: distributions.map(d => d.variable === variable ? { ...d, ...updates } : d) })
+  }
+
+  const runSimulation = () => {
+    worker.current?.terminate()
+    const instance = new Worker(new URL('../../engine/monteCarlo.worker.ts', import.meta.url), { type: 'module' })
+    worker.current = instance
+    setRunning(true)
+    setCompleted(0)
+    setError(null)
+
+    instance.onmessage = (event: MessageEvent<MonteCarloMessage>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        setCompleted(message.completed)
+        return
+      }
+      if (message.type === 'done') {
+        setIterations(message.iterations)
+        setRanAt(currentProject.updated_at)
+      } else {
+        setError(message.message)
+      }
+      setRunning(false)
+      instance.terminate()
+      worker.current = null
+    }
+
+    const request: MonteCarloRequest = { project: currentProject, settings: { ...settings, distributions } }
+    instance.postMessage(request)
+  }
+
+  const cancelSimulation = () => {
+    worker.current?.terminate()
+    worker.current = null
+    setRunning(false)
+  }
+
+  const renderParameters = (d: SimulationDistribution) => {
+    const field = (key: 'mean' | 'std_dev' | 'min' | 'mode' | 'max', label: string) => (
+      <Input
+        key={key}
+        label={label}
+        type="number"
+        value={d[key] ?? ''}
+        onChange={(e) => updateDistribution(d.variable, { [key]: parseValue(e.target.value) })}
+        rightAddon="%"
+        step={0.25}
+        disabled={!d.enabled}
+      />
+    )
+    switch (d.type) {
+      case 'Normal': return [field('mean', 'Mean'), field('std_dev', 'Std. Dev.')]
+      case 'Triangular': return [field('min', 'Min'), field('mode', 'Most Likely'), field('max', 'Max')]
+      case 'Uniform': return [field('min', 'Min'), field('max', 'Max')]
+    }
+  }
+
+  const requested = Math.min(MAX_ITERATIONS, Math.max(1, Math.round(settings.iterations)))
+
+  return (
+    <div className="space-y-6">
+      {/* Assumptions */}
+      <Card variant="elevated">
+        <CardHeader
+          action={
+            running ? (
+              <Button variant="secondary" size="sm" leftIcon={<Square className="w-4 h-4" />} onClick={cancelSimulation}>
+                Cancel
+              </Button>
+            ) : (
+              <Button size="sm" leftIcon={<Play className="w-4 h-4" />} onClick={runSimulation} disabled={enabledCount === 0}>
+                Run Simulation
+              </Button>
+            )
+          }
+        >
+          <CardTitle subtitle="Assign a distribution to each uncertain assumption; every iteration reruns the full pro forma">
+            <div className="flex items-center gap-2">
+              <Dices className="w-5 h-5 text-emerald-400" />
+              Monte Carlo Simulation
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 gap-4 mb-6 max-w-xl">
+            <Input
+              label="Iterations"
+              type="number"
+              value={settings.iterations}
+              onChange={(e) => saveSettings({ iterations: parseInt(e.target.value) || 0 })}
+              helperText={`Up to ${MAX_ITERATIONS.toLocaleString()}`}
+              min={100}
+              max={MAX_ITERATIONS}
+              step={500}
+            />
+            <Input
+              label="Random Seed"
+              type="number"
+              value={settings.seed ?? ''}
+              onChange={(e) => saveSettings({ seed: e.target.value === '' ? null : parseInt(e.target.value) })}
+              helperText="Set a seed to repeat a run exactly"
+              placeholder="Random"
+            />
+          </div>
+
+          <div className="space-y-4">
+            {distributions.map(d => {
+              const base = simulationBaseValue(currentProject, d.variable)
+              const unavailable = base === null
+              return (
+                <div key={d.variable} className="grid grid-cols-[14rem_10rem_1fr] gap-4 items-end p-4 rounded-lg bg-slate-800/50">
+                  <div className="flex items-center gap-3 pb-2">
+                    <label className="relative inline-flex items-center cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="sr-only peer"
+                        checked={d.enabled}
+                        disabled={unavailable}
+                        onChange={(e) => updateDistribution(d.variable, { enabled: e.target.checked })}
+                      />
+                      <div className="w-11 h-6 bg-slate-600 peer-focus:ring-2 peer-focus:ring-emerald-500/50 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-500"></div>
+                    </label>
+                    <div>
+                      <p className="font-medium text-white">{simulationVariables[d.variable].label}</p>
+                      <p className="text-xs text-slate-400">
+                        {unavailable ? 'No floating-rate tranche' : `Base ${formatPercent(base)}`}
+                      </p>
+                    </div>
+                  </div>
+                  <Select
+                    label="Distribution"
+                    value={d.type}
+                    onChange={(e) => updateDistribution(d.variable, { type: e.target.value as DistributionType })}
+                    options={distributionTypes}
+                    disabled={!d.enabled}
+                  />
+                  <div className="grid grid-cols-3 gap-4">{renderParameters(d)}</div>
+                </div>
+              )
+            })}
+          </div>
+
+          {running && (
+            <div className="mt-6">
+              <ProgressBar value={completed} max={requested} label={`Running ${requested.toLocaleString()} iterations`} />
+            </div>
+          )}
+          {error && (
+            <div className="flex items-center gap-2 p-3 mt-6 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-400">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              {error}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      {summary && (
+        <>
+          {ranAt !== currentProject.updated_at && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-amber-500/10 border border-amber-500/30 text-sm text-amber-400">
+              <AlertTriangle className="w-4 h-4 shrink-0" />
+              Inputs have changed since this simulation ran — run it again to refresh the results
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Median IRR', value: formatPercent(summary.irrPercentiles[50]) },
+              { label: 'Median Multiple', value: formatMultiple(summary.multiplePercentiles[50]) },
+              { label: 'Probability of Loss', value: formatPercent(summary.probabilityOfLoss) },
+              {
+                label: 'Min DSCR Breach',
+                value: summary.probabilityOfBreach === null ? 'No covenant' : formatPercent(summary.probabilityOfBreach),
+              },
+            ].map(stat => (
+              <Card key={stat.label} variant="elevated" padding="sm">
+                <p className="text-sm text-slate-400">{stat.label}</p>
+                <p className="text-2xl font-bold text-white mt-1">{stat.value}</p>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <Card variant="elevated">
+              <CardHeader>
+                <CardTitle subtitle={`${summary.iterations.toLocaleString()} iterations · mean ${formatPercent(summary.meanIRR)}`}>
+                  Levered IRR Distribution
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Histogram bins={irrBins} format={v => `${v.toFixed(1)}%`} breakEven={0} />
+              </CardContent>
+            </Card>
+            <Card variant="elevated">
+              <CardHeader>
+                <CardTitle subtitle={`${summary.iterations.toLocaleString()} iterations · mean ${formatMultiple(summary.meanMultiple)}`}>
+                  Equity Multiple Distribution
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Histogram bins={multipleBins} format={v => `${v.toFixed(2)}x`} breakEven={1} />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card variant="elevated">
+            <CardHeader>
+              <CardTitle subtitle="Share of iterations at or below each value">Percentiles</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-700">
+                    <th className="text-left py-2 font-medium text-slate-400">Metric</th>
+                    {SIMULATION_PERCENTILES.map(p => (
+                      <th key={p} className="text-right py-2 font-medium text-slate-400">P{p}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700/50">
+                  <tr>
+                    <td className="py-2 text-slate-300">Levered IRR</td>
+                    {SIMULATION_PERCENTILES.map(p => (
+                      <td key={p} className="py-2 text-right text-slate-200 tabular-nums">{formatPercent(summary.irrPercentiles[p])}</td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="py-2 text-slate-300">Equity Multiple</td>
+                    {SIMULATION_PERCENTILES.map(p => (
+                      <td key={p} className="py-2 text-right text-slate-200 tabular-nums">{formatMultiple(summary.multiplePercentiles[p])}</td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
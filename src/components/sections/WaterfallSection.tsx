@@ -0,0 +1,413 @@
+import React, { useMemo } from 'react'
+import { Layers, Plus, Trash2 } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardContent, Input, Select, Button } from '../ui'
+import { useProjectStore } from '../../store/projectStore'
+import { v4 as uuidv4 } from 'uuid'
+import { runProForma, rollUpFlows } from '../../engine'
+import type { PartnerReturns } from '../../engine'
+import type { EquitySplit, PromoteTier } from '../../types'
+
+interface WaterfallSectionProps {
+  onChange: () => void
+}
+
+const formatCurrency = (value: number) => {
+  if (Math.abs(value) >= 1000000) {
+    return `$${(value / 1000000).toFixed(2)}M`
+  }
+  return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+}
+
+export const WaterfallSection: React.FC<WaterfallSectionProps> = ({ onChange }) => {
+  const { currentProject, updateFinancing } = useProjectStore()
+
+  const proforma = useMemo(
+    () => currentProject ? runProForma(currentProject) : null,
+    [currentProject]
+  )
+
+  if (!currentProject || !proforma) return null
+
+  const financing = currentProject.financing
+  const splits = financing?.equity_splits || []
+  const promote = financing?.promote_structure || []
+  const waterfall = proforma.waterfall
+  const fees = proforma.fees
+
+  const addSplit = () => {
+    onChange()
+    const isFirst = splits.length === 0
+    const newSplit: EquitySplit = {
+      id: uuidv4(),
+      investor_class: isFirst ? 'LP Investors' : splits.length === 1 ? 'GP Sponsor' : `Class ${splits.length + 1}`,
+      equity_contribution: null,
+      equity_percentage: isFirst ? 90 : 10,
+      preferred_return: isFirst ? 8 : null,
+      preferred_type: 'Cumulative',
+      catch_up: false,
+      catch_up_percentage: null,
+    }
+    updateFinancing({ equity_splits: [...splits, newSplit] })
+  }
+
+  const updateSplit = (id: string, updates: Partial<EquitySplit>) => {
+    onChange()
+    updateFinancing({ equity_splits: splits.map(s => s.id === id ? { ...s, ...updates } : s) })
+  }
+
+  const removeSplit = (id: string) => {
+    onChange()
+    updateFinancing({ equity_splits: splits.filter(s => s.id !== id) })
+  }
+
+  const addTier = () => {
+    onChange()
+    const last = promote[promote.length - 1]
+    const newTier: PromoteTier = {
+      tier: promote.length + 1,
+      irr_hurdle: last ? (last.irr_hurdle || 0) + 5 : 8,
+      lp_split: last ? Math.max(0, (last.lp_split || 0) - 10) : 80,
+      gp_split: last ? Math.min(100, (last.gp_split || 0) + 10) : 20,
+    }
+    updateFinancing({ promote_structure: [...promote, newTier] })
+  }
+
+  const updateTier = (index: number, updates: Partial<PromoteTier>) => {
+    onChange()
+    updateFinancing({ promote_structure: promote.map((t, i) => i === index ? { ...t, ...updates } : t) })
+  }
+
+  const removeTier = (index: number) => {
+    onChange()
+    updateFinancing({
+      promote_structure: promote
+        .filter((_, i) => i !== index)
+        .map((t, i) => ({ ...t, tier: i + 1 }))
+    })
+  }
+
+  // Distributions by year; month 0 (the equity contribution) is shown separately
+  const annualDistributions = (partner: PartnerReturns) =>
+    rollUpFlows(partner.cashFlows.slice(1), proforma.annualPeriods)
+
+  return (
+    <div className="space-y-6">
+      {/* Equity Classes */}
+      <Card variant="elevated">
+        <CardHeader
+          action={
+            <Button variant="secondary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={addSplit}>
+              Add Class
+            </Button>
+          }
+        >
+          <CardTitle subtitle="Name the sponsor class 'GP' or 'Sponsor'; pref and catch-up terms come from the LP class">
+            <div className="flex items-center gap-2">
+              <Layers className="w-5 h-5 text-emerald-400" />
+              Equity Classes
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {splits.length === 0 ? (
+            <div className="text-center py-8 text-slate-400">
+              <p className="mb-4">No equity classes configured — all cash flow goes to a single investor</p>
+              <Button variant="secondary" leftIcon={<Plus className="w-4 h-4" />} onClick={addSplit}>
+                Add LP / GP Split
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {splits.map((split) => (
+                <div key={split.id} className="grid grid-cols-2 md:grid-cols-7 gap-4 items-end p-4 rounded-xl bg-slate-800/50 border border-slate-700">
+                  <Input
+                    label="Investor Class"
+                    value={split.investor_class}
+                    onChange={(e) => updateSplit(split.id, { investor_class: e.target.value })}
+                  />
+                  <Input
+                    label="Equity Share"
+                    type="number"
+                    rightAddon="%"
+                    value={split.equity_percentage || ''}
+                    onChange={(e) => updateSplit(split.id, { equity_percentage: e.target.value ? Number(e.target.value) : null })}
+                  />
+                  <Input
+                    label="Preferred Return"
+                    type="number"
+                    rightAddon="%"
+                    placeholder="8"
+                    value={split.preferred_return || ''}
+                    onChange={(e) => updateSplit(split.id, { preferred_return: e.target.value ? Number(e.target.value) : null })}
+                  />
+                  <Select
+                    label="Pref Type"
+                    options={[
+                      { value: 'Cumulative', label: 'Cumulative' },
+                      { value: 'Simple', label: 'Simple' },
+                      { value: 'Compounding', label: 'Compounding' },
+                      { value: 'Non-Cumulative', label: 'Non-Cumulative' },
+                    ]}
+                    value={split.preferred_type}
+                    onChange={(e) => updateSplit(split.id, { preferred_type: e.target.value as EquitySplit['preferred_type'] })}
+                  />
+                  <Select
+                    label="GP Catch-Up"
+                    options={[
+                      { value: 'no', label: 'None' },
+                      { value: 'yes', label: 'Yes' },
+                    ]}
+                    value={split.catch_up ? 'yes' : 'no'}
+                    onChange={(e) => updateSplit(split.id, { catch_up: e.target.value === 'yes' })}
+                  />
+                  <Input
+                    label="Catch-Up to GP"
+                    type="number"
+                    rightAddon="%"
+                    placeholder="100"
+                    value={split.catch_up_percentage || ''}
+                    onChange={(e) => updateSplit(split.id, { catch_up_percentage: e.target.value ? Number(e.target.value) : null })}
+                    disabled={!split.catch_up}
+                  />
+                  <button
+                    onClick={() => removeSplit(split.id)}
+                    className="p-2 mb-1 text-slate-400 hover:text-red-400 transition-colors justify-self-end"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Promote Tiers */}
+      {splits.length > 0 && (
+        <Card variant="elevated">
+          <CardHeader
+            action={
+              <Button variant="secondary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={addTier}>
+                Add Tier
+              </Button>
+            }
+          >
+            <CardTitle subtitle="Each split applies once the LP reaches the tier's IRR hurdle">
+              Promote Structure
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {promote.length === 0 ? (
+              <p className="text-center py-4 text-slate-400">
+                No promote tiers — cash flow after the pref is split pro rata
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {promote.map((tier, index) => (
+                  <div key={tier.tier} className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+                    <p className="text-sm font-medium text-slate-300 pb-3">Tier {tier.tier}</p>
+                    <Input
+                      label="LP IRR Hurdle"
+                      type="number"
+                      rightAddon="%"
+                      value={tier.irr_hurdle ?? ''}
+                      onChange={(e) => updateTier(index, { irr_hurdle: e.target.value ? Number(e.target.value) : null })}
+                    />
+                    <Input
+                      label="LP Split"
+                      type="number"
+                      rightAddon="%"
+                      value={tier.lp_split ?? ''}
+                      onChange={(e) => {
+                        const lp = e.target.value ? Number(e.target.value) : null
+                        updateTier(index, { lp_split: lp, gp_split: lp === null ? null : 100 - lp })
+                      }}
+                    />
+                    <Input
+                      label="GP Split"
+                      type="number"
+                      rightAddon="%"
+                      value={tier.gp_split ?? ''}
+                      disabled
+                    />
+                    <button
+                      onClick={() => removeTier(index)}
+                      className="p-2 mb-1 text-slate-400 hover:text-red-400 transition-colors justify-self-end"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {waterfall && (
+        <>
+          {/* Partner Returns */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {([
+              { label: 'LP Returns', share: waterfall.lpShare, partner: waterfall.lp },
+              { label: 'GP Returns', share: waterfall.gpShare, partner: waterfall.gp },
+            ]).map(({ label, share, partner }) => (
+              <Card key={label} variant="elevated" className="bg-gradient-to-r from-emerald-500/10 to-blue-500/10 border-emerald-500/30">
+                <CardHeader>
+                  <CardTitle subtitle={`${(share * 100).toFixed(1)}% of equity`}>
+                    {label}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="p-4 rounded-xl bg-slate-800/50">
+                      <p className="text-sm text-slate-400 mb-1">IRR</p>
+                      <p className="text-2xl font-bold text-emerald-400">{partner.irr === null ? 'N/A' : `${partner.irr.toFixed(1)}%`}</p>
+                    </div>
+                    <div className="p-4 rounded-xl bg-slate-800/50">
+                      <p className="text-sm text-slate-400 mb-1">Equity Multiple</p>
+                      <p className="text-2xl font-bold text-white">{partner.equityMultiple.toFixed(2)}x</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-slate-400">Contributed</p>
+                      <p className="text-lg font-semibold text-white">{formatCurrency(partner.contributed)}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-slate-400">Profit</p>
+                      <p className="text-lg font-semibold text-white">{formatCurrency(partner.profit)}</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* GP Fee Income */}
+          {fees.total > 0 && (
+            <Card variant="elevated">
+              <CardHeader>
+                <CardTitle subtitle="Sponsor fees paid ahead of the waterfall; LP returns above are net of these">
+                  GP Fee Income
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <div>
+                    <p className="text-xs text-slate-400">Acquisition Fee</p>
+                    <p className="text-lg font-semibold text-white">{formatCurrency(fees.acquisitionFee)}</p>
+                  </div>
+                  {fees.constructionManagementFee > 0 && (
+                    <div>
+                      <p className="text-xs text-slate-400">Construction Mgmt</p>
+                      <p className="text-lg font-semibold text-white">{formatCurrency(fees.constructionManagementFee)}</p>
+                    </div>
+                  )}
+                  <div>
+                    <p className="text-xs text-slate-400">Asset Management</p>
+                    <p className="text-lg font-semibold text-white">{formatCurrency(fees.assetManagementFee)}</p>
+                  </div>
+                  {fees.refinanceFee > 0 && (
+                    <div>
+                      <p className="text-xs text-slate-400">Refinance Fee</p>
+                      <p className="text-lg font-semibold text-white">{formatCurrency(fees.refinanceFee)}</p>
+                    </div>
+                  )}
+                  <div>
+                    <p className="text-xs text-slate-400">Disposition Fee</p>
+                    <p className="text-lg font-semibold text-white">{formatCurrency(fees.dispositionFee)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400">Total Fees</p>
+                    <p className="text-lg font-semibold text-emerald-400">{formatCurrency(fees.total)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-slate-400">GP Total (Fees + Profit)</p>
+                    <p className="text-lg font-semibold text-emerald-400">{formatCurrency(fees.total + waterfall.gp.profit)}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Distributions by Tier */}
+          <Card variant="elevated">
+            <CardHeader>
+              <CardTitle subtitle="Total dollars distributed through each step over the hold">
+                Distributions by Tier
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-slate-700">
+                    <th className="text-left py-3 font-medium text-slate-400">Tier</th>
+                    <th className="text-right py-3 font-medium text-slate-400">LP</th>
+                    <th className="text-right py-3 font-medium text-slate-400">GP</th>
+                    <th className="text-right py-3 font-medium text-slate-400">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-700/50">
+                  {waterfall.tiers.map((tier) => (
+                    <tr key={tier.label}>
+                      <td className="py-3 text-slate-300">{tier.label}</td>
+                      <td className="py-3 text-right text-white font-mono">{formatCurrency(tier.lp)}</td>
+                      <td className="py-3 text-right text-white font-mono">{formatCurrency(tier.gp)}</td>
+                      <td className="py-3 text-right text-white font-mono">{formatCurrency(tier.lp + tier.gp)}</td>
+                    </tr>
+                  ))}
+                  <tr className="bg-emerald-500/10 font-bold">
+                    <td className="py-3 text-emerald-400">Total Distributions</td>
+                    <td className="py-3 text-right text-emerald-400 font-mono">{formatCurrency(waterfall.lp.distributed)}</td>
+                    <td className="py-3 text-right text-emerald-400 font-mono">{formatCurrency(waterfall.gp.distributed)}</td>
+                    <td className="py-3 text-right text-emerald-400 font-mono">
+                      {formatCurrency(waterfall.lp.distributed + waterfall.gp.distributed)}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          {/* Annual Distributions */}
+          <Card variant="elevated">
+            <CardHeader>
+              <CardTitle subtitle="Net cash flow to each class by year, including sale proceeds">
+                Distributions by Year
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-slate-700">
+                      <th className="text-left py-3 font-medium text-slate-400">Class</th>
+                      <th className="text-right py-3 font-medium text-slate-400 min-w-[100px]">Contribution</th>
+                      {proforma.annualPeriods.map((period) => (
+                        <th key={period.label} className="text-right py-3 font-medium text-slate-400 min-w-[100px] whitespace-nowrap">
+                          {period.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-700/50">
+                    {([['LP', waterfall.lp], ['GP', waterfall.gp]] as const).map(([label, partner]) => (
+                      <tr key={label}>
+                        <td className="py-3 text-slate-300">{label}</td>
+                        <td className="py-3 text-right font-mono text-red-400">{formatCurrency(partner.cashFlows[0])}</td>
+                        {annualDistributions(partner).map((value, i) => (
+                          <td key={i} className={`py-3 text-right font-mono ${value < 0 ? 'text-red-400' : 'text-white'}`}>
+                            {formatCurrency(value)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
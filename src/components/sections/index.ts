@@ -4,6 +4,11 @@ export { FinancingSection } from './FinancingSection'
 export { IncomeSection } from './IncomeSection'
 export { ExpensesSection } from './ExpensesSection'
 export { CapitalSection } from './CapitalSection'
+export { DevelopmentSection } from './DevelopmentSection'
 export { GrowthExitSection } from './GrowthExitSection'
 export { ProFormaSection } from './ProFormaSection'
+export { ScenariosSection } from './ScenariosSection'
+export { SensitivitySection } from './SensitivitySection'
+export { SimulationSection } from './SimulationSection'
 
+export { WaterfallSection } from './WaterfallSection'
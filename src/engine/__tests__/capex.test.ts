@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import type { CapExEvent, Project } from '../../types'
+import { runProForma } from '..'
+import { referenceDeals } from './referenceDeals'
+
+const base = referenceDeals['stabilized-acquisition']
+
+const event = (id: string, year: number, month: number | null, amount: number): CapExEvent => ({
+  id, year, month, amount, description: id, category: 'Building', funding_source: 'Operating', notes: '',
+})
+
+const withCapex = (events: CapExEvent[], project: Project = base): Project => ({
+  ...project,
+  capital: { ...project.capital!, scheduled_capex: events },
+})
+
+describe('scheduled capex', () => {
+  const project = withCapex([event('roof', 2, 7, 150000), event('lobby', 3, null, 80000)])
+  const result = runProForma(project)
+  const baseline = runProForma(base)
+
+  it('books each event in its hold month, a blank month in the first of its year', () => {
+    expect(result.monthly.capex[18]).toBe(-150000)
+    expect(result.monthly.capex[24]).toBe(-80000)
+    expect(result.monthly.capex.filter(v => v !== 0)).toHaveLength(2)
+  })
+
+  it('rolls up into its year below NOI', () => {
+    expect(result.annual.capex).toEqual([0, -150000, -80000, 0, 0])
+    expect(result.annual.noi).toEqual(baseline.annual.noi)
+    const row = result.rows.find(r => r.label === 'Less: Capital Expenditures')
+    expect(row?.values).toEqual(result.annual.capex)
+  })
+
+  it('comes out of the cash flow', () => {
+    expect(result.monthly.cfBeforeDebt[18]).toBeCloseTo(baseline.monthly.cfBeforeDebt[18] - 150000, 6)
+    expect(result.monthly.cfAfterDebt[24]).toBeCloseTo(baseline.monthly.cfAfterDebt[24] - 80000, 6)
+  })
+
+  it('ignores events outside the projection', () => {
+    expect(runProForma(withCapex([event('late', 12, 1, 50000)])).monthly.capex.every(v => v === 0)).toBe(true)
+  })
+
+  it('is paid from a lender capex reserve in its month', () => {
+    const reserved: Project = {
+      ...project,
+      financing: {
+        ...project.financing!,
+        debt_tranches: project.financing!.debt_tranches.map(t => ({
+          ...t,
+          lender_required_reserves: { ...t.lender_required_reserves, capex_reserve: 100000 },
+        })),
+      },
+    }
+    const { reserves } = runProForma(reserved).lenderReserves
+    const capexReserve = reserves.find(r => r.type === 'CapEx Reserve')!
+    const runningReserve = -baseline.monthly.reserves[17]
+    expect(capexReserve.draws[17]).toBeCloseTo(runningReserve, 6)
+    expect(capexReserve.draws[18]).toBeGreaterThan(runningReserve + 60000)
+  })
+})
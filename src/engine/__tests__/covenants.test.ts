@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import type { Project } from '../../types'
+import { runProForma, testCovenants } from '..'
+import { referenceDeals } from './referenceDeals'
+
+const deal = referenceDeals['capital-stack']
+
+// Senior loan with a min DSCR and a 50% sweep of excess cash on a failed test
+const withSweep = (min_dscr: number): Project => ({
+  ...deal,
+  financing: {
+    ...deal.financing!,
+    debt_tranches: deal.financing!.debt_tranches.map((t, i) =>
+      i === 0 ? { ...t, covenants: { ...t.covenants, min_dscr, cash_sweep_pct: 50 } } : t
+    ),
+  },
+})
+
+describe('cash sweep', () => {
+  const baseline = runProForma(deal)
+  const swept = runProForma(withSweep(3))
+  const sweeps = swept.loans[0].periods.map(p => p.sweep)
+
+  it('starts after the first quarterly test fails', () => {
+    expect(sweeps.slice(0, 3)).toEqual([0, 0, 0])
+    expect(sweeps[3]).toBeGreaterThan(0)
+  })
+
+  it('sweeps each month of a window from the cash left as of its test', () => {
+    for (const month of [4, 5, 6]) {
+      expect(sweeps[month - 1]).toBeCloseTo(baseline.monthly.cfAfterDebt[month - 1] * 0.5, 6)
+    }
+  })
+
+  it('reschedules the loan before the next window', () => {
+    // The first window's sweep cut the interest, leaving more cash to sweep
+    expect(sweeps[6]).toBeGreaterThan(baseline.monthly.cfAfterDebt[6] * 0.5)
+  })
+
+  it('reports the sweep in each covenant period', () => {
+    const [compliance] = swept.covenants
+    const reported = compliance.periods.reduce((total, p) => total + p.sweep, 0)
+    const held = sweeps.slice(0, swept.holdMonths).reduce((total, v) => total + v, 0)
+    expect(reported).toBeCloseTo(held, 6)
+  })
+
+  it('leaves a passing loan unswept', () => {
+    expect(runProForma(withSweep(1)).loans[0].periods.every(p => p.sweep === 0)).toBe(true)
+  })
+})
+
+describe('testCovenants', () => {
+  const result = runProForma(withSweep(1.25))
+  // Nothing in place for the first year, then $50,000 a month
+  const noi = Array.from({ length: 60 }, (_, i) => i < 12 ? 0 : 50000)
+  const debtService = (from: number, to: number) => result.loans[0].periods
+    .filter(p => p.month >= from && p.month <= to)
+    .reduce((total, p) => total + p.interestPaid + p.principal, 0)
+
+  it('skips every test until the property stabilizes', () => {
+    expect(testCovenants(result.loans, result.loanTerms, 0, 12, noi, 6.5, 12)).toEqual([])
+  })
+
+  it('tests only NOI earned after stabilization', () => {
+    const [dscr] = testCovenants(result.loans, result.loanTerms, 0, 15, noi, 6.5, 12)
+    expect(dscr.actual!).toBeCloseTo(150000 / debtService(13, 15), 10)
+    expect(dscr.breached).toBe(false)
+    const [unstabilized] = testCovenants(result.loans, result.loanTerms, 0, 15, noi, 6.5)
+    expect(unstabilized.actual!).toBeCloseTo(150000 / debtService(4, 15), 10)
+    expect(unstabilized.breached).toBe(true)
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import type { DebtTranche } from '../../types'
+import { createDebtTranche } from '../../lib/debtTranche'
+import { trancheRateForMonth } from '..'
+
+const floating = (overrides: Partial<DebtTranche>): DebtTranche => ({
+  ...createDebtTranche('Senior'),
+  interest_type: 'Floating Rate',
+  spread_bps: 250,
+  ...overrides,
+})
+
+describe('trancheRateForMonth', () => {
+  it('holds a floating loan between its index floor and ceiling', () => {
+    const tranche = floating({ floor_rate: 3, ceiling_rate: 6 })
+    expect(trancheRateForMonth(tranche, 1, 2)).toBe(5.5)
+    expect(trancheRateForMonth(tranche, 1, 4.5)).toBe(7)
+    expect(trancheRateForMonth(tranche, 1, 8)).toBe(8.5)
+  })
+
+  it('applies the cap strike only to a capped loan', () => {
+    expect(trancheRateForMonth(floating({ cap_strike_rate: 5 }), 1, 7)).toBe(9.5)
+    expect(trancheRateForMonth(floating({ interest_type: 'Floating with Cap', cap_strike_rate: 5 }), 1, 7)).toBe(7.5)
+  })
+
+  it('keeps the lower of the ceiling and the cap strike on a capped loan', () => {
+    const tranche = floating({ interest_type: 'Floating with Cap', ceiling_rate: 4.5, cap_strike_rate: 5 })
+    expect(trancheRateForMonth(tranche, 1, 7)).toBe(7)
+    expect(trancheRateForMonth({ ...tranche, ceiling_rate: 6 }, 1, 7)).toBe(7.5)
+  })
+
+  it('pays the swap rate regardless of the floor and ceiling', () => {
+    const tranche = floating({ interest_type: 'Floating with Swap', swap_rate: 4, floor_rate: 5, ceiling_rate: 3 })
+    expect(trancheRateForMonth(tranche, 1, 7)).toBe(6.5)
+  })
+
+  it('leaves a fixed loan at its stated rate', () => {
+    const tranche = floating({ interest_type: 'Fixed Rate', interest_rate_annual: 6, floor_rate: 7, ceiling_rate: 5 })
+    expect(trancheRateForMonth(tranche, 1, 9)).toBe(6)
+  })
+})
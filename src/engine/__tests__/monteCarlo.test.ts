@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import type { DebtTranche, Project } from '../../types'
+import { breachesMinDSCR, runProForma, summarizeSimulation } from '..'
+import { referenceDeals } from './referenceDeals'
+
+const withMinDSCR = (tranche: DebtTranche, min_dscr: number): DebtTranche => ({
+  ...tranche,
+  covenants: { ...tranche.covenants, min_dscr },
+})
+
+describe('breachesMinDSCR', () => {
+  const refinance = referenceDeals.refinance
+  const refinanced = (min_dscr: number): Project => ({
+    ...refinance,
+    financing: {
+      ...refinance.financing!,
+      refinances: refinance.financing!.refinances!.map(e => ({ ...e, new_loan: withMinDSCR(e.new_loan, min_dscr) })),
+    },
+  })
+
+  it('tests the loans a refinance places', () => {
+    expect(breachesMinDSCR(runProForma(refinanced(1.5)))).toBe(true)
+    expect(breachesMinDSCR(runProForma(refinanced(1.1)))).toBe(false)
+    expect(summarizeSimulation(refinanced(1.5), []).probabilityOfBreach).toBe(0)
+  })
+
+  it('skips the months before a development stabilizes', () => {
+    const development = referenceDeals.development
+    const project: Project = {
+      ...development,
+      financing: {
+        ...development.financing!,
+        debt_tranches: development.financing!.debt_tranches.map(t => withMinDSCR(t, 1.2)),
+      },
+    }
+    const result = runProForma(project)
+    expect(result.covenants[0].breachCount).toBe(0)
+    expect(breachesMinDSCR(result)).toBe(false)
+  })
+
+  it('agrees with the covenant tests the pro forma reports', () => {
+    const deal = referenceDeals['capital-stack']
+    const project: Project = {
+      ...deal,
+      financing: { ...deal.financing!, debt_tranches: deal.financing!.debt_tranches.map(t => withMinDSCR(t, 1.6)) },
+    }
+    const result = runProForma(project)
+    const reported = result.covenants.some(c => c.periods.some(p => p.tests.some(t => t.metric === 'DSCR' && t.breached)))
+    expect(reported).toBe(true)
+    expect(breachesMinDSCR(result)).toBe(true)
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import type { DebtTranche } from '../../types'
+import { createDebtTranche } from '../../lib/debtTranche'
+import { prepaymentPenalty } from '..'
+
+// A $1M five-year interest-only loan at 6%
+const loan = (overrides: Partial<DebtTranche>): DebtTranche => ({
+  ...createDebtTranche('Senior'),
+  loan_amount: 1000000,
+  interest_rate_annual: 6,
+  loan_term_months: 60,
+  ...overrides,
+})
+
+const flat = (rate: number) => [{ term_years: 1, rate }, { term_years: 10, rate }]
+
+// Present value of a level monthly payment for `months` at a monthly rate
+const annuity = (rate: number, months: number) => (1 - Math.pow(1 + rate, -months)) / rate
+
+describe('prepaymentPenalty', () => {
+  it('steps down by loan year', () => {
+    const tranche = loan({ prepayment_type: 'Step-Down' })
+    expect(prepaymentPenalty(tranche, 1, 1000000).penalty).toBeCloseTo(50000, 6)
+    expect(prepaymentPenalty(tranche, 12, 1000000).penalty).toBeCloseTo(50000, 6)
+    expect(prepaymentPenalty(tranche, 13, 1000000).penalty).toBeCloseTo(40000, 6)
+    expect(prepaymentPenalty(tranche, 49, 800000).penalty).toBeCloseTo(8000, 6)
+  })
+
+  it('reads a custom step-down and charges nothing past its last year', () => {
+    const tranche = loan({ prepayment_type: 'Step-Down', prepayment_step_down: [3, 2] })
+    expect(prepaymentPenalty(tranche, 18, 1000000).penalty).toBeCloseTo(20000, 6)
+    expect(prepaymentPenalty(tranche, 30, 1000000).penalty).toBe(0)
+  })
+
+  it('charges nothing at maturity and flags a repayment in lockout', () => {
+    const tranche = loan({ prepayment_type: 'Step-Down', prepayment_lockout_months: 24 })
+    expect(prepaymentPenalty(tranche, 60, 1000000).penalty).toBe(0)
+    expect(prepaymentPenalty(tranche, 12, 1000000).inLockout).toBe(true)
+    expect(prepaymentPenalty(tranche, 24, 1000000).inLockout).toBe(false)
+  })
+
+  it('charges yield maintenance on the coupon over the matching Treasury', () => {
+    const tranche = loan({ prepayment_type: 'Yield Maintenance' })
+    const treasury = 0.04 / 12
+    const expected = 1000000 * (0.06 / 12 - treasury) * annuity(treasury, 36)
+    expect(prepaymentPenalty(tranche, 24, 1000000, flat(4)).penalty).toBeCloseTo(expected, 4)
+  })
+
+  it('holds yield maintenance to its minimum when Treasuries are above the coupon', () => {
+    const tranche = loan({ prepayment_type: 'Yield Maintenance' })
+    expect(prepaymentPenalty(tranche, 24, 1000000, flat(7)).penalty).toBeCloseTo(10000, 6)
+  })
+
+  it('prices defeasance as the Treasuries covering the remaining payments, plus fees', () => {
+    const tranche = loan({ prepayment_type: 'Defeasance', defeasance_fee: 25000 })
+    const treasury = 0.04 / 12
+    const portfolio = 1000000 * (0.06 / 12 * annuity(treasury, 36) + Math.pow(1 + treasury, -36))
+    expect(prepaymentPenalty(tranche, 24, 1000000, flat(4)).penalty).toBeCloseTo(portfolio - 1000000 + 25000, 4)
+    // At a Treasury equal to the coupon only the fees remain
+    expect(prepaymentPenalty(tranche, 24, 1000000, flat(6)).penalty).toBeCloseTo(25000, 4)
+  })
+
+  it('scales defeasance to the balance actually repaid', () => {
+    const tranche = loan({ prepayment_type: 'Defeasance' })
+    const full = prepaymentPenalty(tranche, 24, 1000000, flat(4)).penalty
+    expect(prepaymentPenalty(tranche, 24, 500000, flat(4)).penalty).toBeCloseTo(full / 2, 4)
+  })
+})
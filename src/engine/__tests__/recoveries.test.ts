@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import type { LeaseType, Project, Tenant } from '../../types'
+import type { RentRollProjection } from '..'
+import { projectRecoveries, recoverablePools } from '..'
+import { referenceDeals } from './referenceDeals'
+
+// 50,000 SF with $150k of taxes and $30k of insurance, both fully recoverable
+const base = referenceDeals['stabilized-acquisition']
+const GROWTH = 0.03
+const MONTHS = 36
+
+const tenant = (lease_type: LeaseType): Tenant => ({
+  id: 'tenant',
+  tenant_name: 'Acme',
+  suite_unit: '100',
+  rentable_sf: 10000,
+  usable_sf: null,
+  pro_rata_share: null,
+  lease_start_date: '2025-01-01',
+  lease_end_date: '2034-12-31',
+  lease_type,
+  base_rent_monthly: 20000,
+  escalation_type: 'Percentage',
+  escalation_percentage: 3,
+  escalation_dollar: null,
+  renewal_options: [],
+  termination_option: false,
+  ti_allowance_total: null,
+  free_rent_months: null,
+  cam_recoverable: true,
+  tax_recoverable: true,
+  insurance_recoverable: true,
+  tenant_credit: '',
+  security_deposit: null,
+  notes: '',
+})
+
+const withTenant = (lease: Tenant): Project => ({ ...base, income: { ...base.income!, tenants: [lease] } })
+
+// The lease in force in each month begins at `leaseStart(month)`
+const rentRoll = (leaseStart: (month: number) => number, occupancy = 1): RentRollProjection => ({
+  scheduledRent: [],
+  freeRent: [],
+  tenantImprovements: [],
+  leasingCommissions: [],
+  leasedSF: [],
+  totalSF: 50000,
+  expirations: [],
+  tenants: [{
+    tenantId: 'tenant',
+    tenantName: 'Acme',
+    rent: new Array(MONTHS).fill(20000),
+    occupancy: new Array(MONTHS).fill(occupancy),
+    leaseStart: Array.from({ length: MONTHS }, (_, i) => leaseStart(i + 1)),
+  }],
+})
+
+// Monthly building expense in a 0-based year, times the tenant's 20% share
+const share = (year: number) => 180000 / 12 * Math.pow(1 + GROWTH, year) * 0.2
+
+describe('projectRecoveries', () => {
+  it('pools taxes and insurance as fully recoverable', () => {
+    expect(recoverablePools(base)).toEqual({ taxes: 150000, insurance: 30000, cam: 0 })
+  })
+
+  it('bills a net lease its pro rata share, growing each year', () => {
+    const { monthly, tenants } = projectRecoveries(withTenant(tenant('NNN (Triple Net)')), rentRoll(() => 1), GROWTH, MONTHS)
+    expect(tenants[0].proRataShare).toBe(20)
+    expect(monthly[0]).toBeCloseTo(3000, 6)
+    expect(monthly[12]).toBeCloseTo(share(1), 6)
+    expect(tenants[0].year1.taxes).toBeCloseTo(30000, 6)
+    expect(tenants[0].year1.total).toBeCloseTo(36000, 6)
+  })
+
+  it('bills a modified gross lease only the increase over its base year', () => {
+    const { monthly } = projectRecoveries(withTenant(tenant('Modified Gross')), rentRoll(() => 1), GROWTH, MONTHS)
+    expect(monthly[0]).toBe(0)
+    expect(monthly[11]).toBe(0)
+    expect(monthly[12]).toBeCloseTo(share(1) - share(0), 6)
+    expect(monthly[24]).toBeCloseTo(share(2) - share(0), 6)
+  })
+
+  it('resets the base year when a new lease begins', () => {
+    const renewed = rentRoll(month => month > 24 ? 25 : 1)
+    const { monthly } = projectRecoveries(withTenant(tenant('Modified Gross')), renewed, GROWTH, MONTHS)
+    expect(monthly[23]).toBeCloseTo(share(1) - share(0), 6)
+    expect(monthly[24]).toBe(0)
+  })
+
+  it('sets an in-place lease\'s stop in the year it began', () => {
+    const { monthly } = projectRecoveries(withTenant(tenant('Modified Gross')), rentRoll(() => -5), GROWTH, MONTHS)
+    expect(monthly[0]).toBeCloseTo(share(0) - share(-1), 6)
+  })
+
+  it('weights the bill by expected occupancy and skips gross leases', () => {
+    const half = projectRecoveries(withTenant(tenant('NNN (Triple Net)')), rentRoll(() => 1, 0.5), GROWTH, MONTHS)
+    expect(half.monthly[0]).toBeCloseTo(1500, 6)
+    const gross = projectRecoveries(withTenant(tenant('Gross')), rentRoll(() => 1), GROWTH, MONTHS)
+    expect(gross.monthly.every(v => v === 0)).toBe(true)
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { proFormaRows, runProForma } from '..'
+import type { ProFormaResult } from '..'
+import { referenceDeals } from './referenceDeals'
+
+// ============================================================================
+// REFERENCE DEALS
+// ============================================================================
+
+// Each fixture is a saved project; its golden file holds the annual statement,
+// the return metrics and the exit as the engine produced them when reviewed.
+// After an intended change, rewrite them with `env -u CI npx vitest run`.
+const deals = Object.entries(referenceDeals).map(([name, project]) => ({ name, project }))
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0)
+
+// Ten significant digits catch any real change while keeping the files stable
+// across platforms' last-bit floating point differences
+const rounded = (value: unknown): unknown => {
+  if (typeof value === 'number') return Number(value.toPrecision(10))
+  if (Array.isArray(value)) return value.map(rounded)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, rounded(v)]))
+  }
+  return value
+}
+
+const golden = (result: ProFormaResult) => rounded({
+  periods: result.annualPeriods.map(p => p.label),
+  rows: proFormaRows(result, result.annualPeriods).map(row => ({ label: row.label, values: row.values })),
+  returns: result.returns,
+  exit: result.exit,
+})
+
+describe('reference deals', () => {
+  it('covers every deal type under review', () => {
+    expect(deals.map(d => d.name).sort()).toEqual([
+      'capital-stack', 'development', 'floating-capped', 'refinance', 'stabilized-acquisition',
+    ])
+  })
+
+  describe.each(deals)('$name', ({ name, project }) => {
+    const result = runProForma(project)
+
+    it('matches its golden file', async () => {
+      await expect(JSON.stringify(golden(result), null, 2) + '\n').toMatchFileSnapshot(`./golden/${name}.json`)
+    })
+
+    it('values the exit on its NOI and nets the sale proceeds', () => {
+      const { exit } = result
+      expect(exit.exitValue).toBeCloseTo(exit.exitNOI / (exit.exitCapRate / 100), 2)
+      expect(exit.netSaleProceeds).toBeCloseTo(
+        exit.exitValue - exit.dispositionCosts - exit.dispositionFee - exit.debtPayoff - exit.preferredRedemption -
+          exit.prepaymentPenalty + exit.reserveRelease,
+        2
+      )
+    })
+
+    it('ties the statement to the levered cash flows', () => {
+      const flows = result.leveredCashFlows
+      const annualCash = result.annual.cfAfterDebt
+      expect(flows).toHaveLength(result.holdMonths + 1)
+      expect(sum(annualCash)).toBeCloseTo(sum(flows.slice(1)) - result.exit.netSaleProceeds, 2)
+      const statementCash = proFormaRows(result, result.annualPeriods).find(r => r.label === 'Cash Flow After Debt')!
+      expect(statementCash.values).toEqual(annualCash)
+    })
+
+    it('measures the multiple on the equity contributed', () => {
+      const flows = result.leveredCashFlows
+      const equity = result.contributedEquity
+      expect(result.returns.levered_equity_multiple).toBeCloseTo((sum(flows) + equity) / equity, 6)
+    })
+  })
+})
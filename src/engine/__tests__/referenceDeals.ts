@@ -0,0 +1,8 @@
+import type { Project } from '../../types'
+
+// Saved projects for the reference deals, by file name
+const fixtures = import.meta.glob<Project>('./fixtures/*.json', { eager: true, import: 'default' })
+
+export const referenceDeals: Record<string, Project> = Object.fromEntries(
+  Object.entries(fixtures).map(([path, project]) => [path.replace(/^\.\/fixtures\/|\.json$/g, ''), project])
+)
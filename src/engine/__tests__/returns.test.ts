@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { calculateIRR, calculateXIRR } from '..'
+
+describe('calculateIRR', () => {
+  it('solves a conventional investment', () => {
+    expect(calculateIRR([-100, 110])).toBeCloseTo(10, 6)
+    expect(calculateIRR([-1000, 100, 100, 1100])).toBeCloseTo(10, 6)
+  })
+
+  it('annualizes periodic flows', () => {
+    expect(calculateIRR([-100, 101], 12)).toBeCloseTo((1.01 ** 12 - 1) * 100, 6)
+  })
+
+  it('returns null when the flows never change sign', () => {
+    expect(calculateIRR([-100, -10, -10])).toBeNull()
+    expect(calculateIRR([0, 50, 50])).toBeNull()
+  })
+
+  it('returns null when no rate zeroes the NPV', () => {
+    expect(calculateIRR([100, -300, 250])).toBeNull()
+  })
+
+  it('picks the root nearest the guess when signs change more than once', () => {
+    // Roots at 10% and 20%
+    expect(calculateIRR([-100, 230, -132])).toBeCloseTo(10, 6)
+    // Roots at 20% and 50%
+    expect(calculateIRR([-100, 270, -180])).toBeCloseTo(20, 6)
+  })
+})
+
+describe('calculateXIRR', () => {
+  it('times the flows by actual days', () => {
+    const dates = [new Date(2025, 0, 1), new Date(2026, 0, 1)]
+    expect(calculateXIRR([-100, 110], dates)).toBeCloseTo(10, 6)
+    expect(calculateXIRR([-100, -10], dates)).toBeNull()
+  })
+})
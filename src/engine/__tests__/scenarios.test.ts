@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import type { Scenario } from '../../types'
+import { applyScenario, evaluateProject, evaluateScenario, runProForma, scenarioInputs } from '..'
+import { referenceDeals } from './referenceDeals'
+
+const project = referenceDeals.development
+
+const scenario = (inputs: NonNullable<Scenario['overrides']['inputs']>): Scenario => ({
+  id: 'scenario',
+  name: 'Scenario',
+  description: '',
+  overrides: { inputs },
+})
+
+describe('scenario input overrides', () => {
+  it('lists the development inputs', () => {
+    const paths = scenarioInputs(project).filter(i => i.section === 'Development').map(i => i.path)
+    expect(paths).toEqual(expect.arrayContaining([
+      'development.budget.shell.amount',
+      'development.hard_cost_contingency_pct',
+      'development.construction_months',
+      'development.lease_up_months',
+      'development.takeout_loan.ltv_percentage',
+      'development.takeout_cap_rate',
+    ]))
+  })
+
+  it('applies a development override without touching the project', () => {
+    const applied = applyScenario(project, scenario([{ path: 'development.construction_months', value: 24 }]))
+    expect(applied.development?.construction_months).toBe(24)
+    expect(project.development?.construction_months).toBe(18)
+    expect(runProForma(applied).development?.stabilizationMonth).toBe(36)
+  })
+
+  it('moves the results with the development budget', () => {
+    const base = evaluateProject(project)
+    const overrun = evaluateScenario(project, scenario([{ path: 'development.budget.shell.amount', value: 9000000 }]))
+    expect(overrun.irr!).toBeLessThan(base.irr!)
+    expect(overrun.equity_multiple!).toBeLessThan(base.equity_multiple!)
+  })
+})
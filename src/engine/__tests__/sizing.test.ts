@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import type { DebtTranche, Project } from '../../types'
+import { createDebtTranche } from '../../lib/debtTranche'
+import { debtConstant, runProForma, sizeTranche } from '..'
+import { referenceDeals } from './referenceDeals'
+
+const base = referenceDeals['capital-stack']
+const [senior, mezz, pref] = base.financing!.debt_tranches
+
+const sized = (tranche: DebtTranche, overrides: Partial<DebtTranche>): DebtTranche => ({
+  ...tranche,
+  sizing_method: 'LTV',
+  loan_amount: null,
+  ...overrides,
+})
+
+const withStack = (tranches: DebtTranche[]): Project => ({
+  ...base,
+  financing: { ...base.financing!, debt_tranches: tranches },
+})
+
+describe('sizeTranche', () => {
+  const tranche = sized(createDebtTranche('Mezzanine'), { interest_rate_annual: 10, amortization_years: null })
+  const basis = { noi: 700000, value: 10000000, cost: 10500000 }
+  const ahead = { amount: 6000000, debtService: 420000 }
+
+  it('reads a junior LTV and LTC as combined limits', () => {
+    const ltv = sizeTranche({ ...tranche, ltv_percentage: 75 }, basis, undefined, 0, ahead)
+    expect(ltv.loanAmount).toBe(1500000)
+    const ltc = sizeTranche({ ...tranche, ltc_percentage: 80 }, basis, undefined, 0, ahead)
+    expect(ltc.loanAmount).toBe(2400000)
+  })
+
+  it('covers the senior debt service in a junior DSCR', () => {
+    const dscr = sizeTranche({ ...tranche, target_dscr: 1.25 }, basis, undefined, 0, ahead)
+    const constant = debtConstant(tranche)
+    expect(dscr.loanAmount).toBe(Math.round((700000 / 1.25 - 420000) / constant))
+  })
+
+  it('holds the senior balance against a junior debt yield', () => {
+    const yieldSized = sizeTranche({ ...tranche, target_debt_yield: 8 }, basis, undefined, 0, ahead)
+    expect(yieldSized.loanAmount).toBe(2750000)
+  })
+
+  it('sizes nothing once the layers ahead use up the limit', () => {
+    const full = sizeTranche({ ...tranche, ltv_percentage: 55 }, basis, undefined, 0, ahead)
+    expect(full.loanAmount).toBe(0)
+  })
+})
+
+describe('capital stack sizing', () => {
+  it('sizes mezzanine on the combined LTV net of the senior loan', () => {
+    const { sourcesUses } = runProForma(withStack([
+      sized(senior, { ltv_percentage: 60 }),
+      sized(mezz, { ltv_percentage: 75 }),
+      pref,
+    ]))
+    const [seniorLoan, mezzLoan] = sourcesUses.tranches
+    expect(seniorLoan.loan_amount).toBe(6000000)
+    expect(mezzLoan.loan_amount).toBe(1500000)
+    expect(sourcesUses.equity).toBeGreaterThan(0)
+  })
+
+  it('sizes senior first whatever the tranche order', () => {
+    const ordered = runProForma(withStack([sized(senior, { ltv_percentage: 60 }), sized(mezz, { ltv_percentage: 75 })]))
+    const reversed = runProForma(withStack([sized(mezz, { ltv_percentage: 75 }), sized(senior, { ltv_percentage: 60 })]))
+    expect(reversed.sourcesUses.tranches.map(t => t.loan_amount))
+      .toEqual([...ordered.sourcesUses.tranches.map(t => t.loan_amount)].reverse())
+  })
+
+  it('stops the junior layers at total uses so equity never goes negative', () => {
+    const { sourcesUses } = runProForma(withStack([
+      sized(senior, { ltv_percentage: 60 }),
+      sized(mezz, { ltv_percentage: 150 }),
+      pref,
+    ]))
+    expect(sourcesUses.sizing[1].binding?.type).toBe('Total Uses')
+    expect(sourcesUses.sizing[2].loanAmount).toBe(0)
+    expect(sourcesUses.equity).toBeGreaterThanOrEqual(0)
+    expect(sourcesUses.equity).toBeLessThan(1)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import type { EquitySplit, Financing, PromoteTier } from '../../types'
+import { runWaterfall } from '..'
+import { referenceDeals } from './referenceDeals'
+
+const split = (investor_class: string, equity_contribution: number, overrides: Partial<EquitySplit> = {}): EquitySplit => ({
+  id: investor_class,
+  investor_class,
+  equity_contribution,
+  equity_percentage: null,
+  preferred_return: 12,
+  preferred_type: 'Simple',
+  catch_up: false,
+  catch_up_percentage: null,
+  ...overrides,
+})
+
+const financing = (equity_splits: EquitySplit[], promote_structure: PromoteTier[] = []): Financing => ({
+  ...referenceDeals['stabilized-acquisition'].financing!,
+  equity_splits,
+  promote_structure,
+})
+
+// $1,000 in at closing, one distribution a year later; a 12% simple pref
+// accrues $120 over the year
+const flows = (distribution: number) => [-1000, ...new Array(11).fill(0), distribution]
+
+const tier = (result: ReturnType<typeof runWaterfall>, label: string) => result!.tiers.find(t => t.label === label)!
+
+describe('runWaterfall', () => {
+  it('returns nothing without equity splits', () => {
+    expect(runWaterfall(financing([]), flows(1100))).toBeNull()
+  })
+
+  it('returns capital, then pays the pref pro rata to contributions', () => {
+    const result = runWaterfall(financing([split('LP', 900), split('GP', 100)]), flows(1100))!
+    expect(result.gpShare).toBeCloseTo(0.1, 10)
+    expect(tier(result, 'Return of Capital').lp).toBeCloseTo(900, 6)
+    expect(tier(result, 'Return of Capital').gp).toBeCloseTo(100, 6)
+    expect(tier(result, 'Preferred Return (12%)').lp).toBeCloseTo(90, 6)
+    expect(tier(result, 'Preferred Return (12%)').gp).toBeCloseTo(10, 6)
+    expect(result.lp.distributed).toBeCloseTo(990, 6)
+  })
+
+  describe('with a catch-up and IRR hurdles', () => {
+    const promote: PromoteTier[] = [
+      { tier: 1, irr_hurdle: 12, lp_split: 80, gp_split: 20 },
+      { tier: 2, irr_hurdle: 18, lp_split: 70, gp_split: 30 },
+    ]
+    const splits = [split('LP', 900, { catch_up: true, catch_up_percentage: 100 }), split('GP', 100)]
+    const result = runWaterfall(financing(splits, promote), flows(1302.5))!
+
+    it('catches the GP up to its first-tier share of profit', () => {
+      const catchUp = tier(result, 'GP Catch-Up')
+      expect(catchUp.lp).toBeCloseTo(0, 6)
+      expect(catchUp.gp).toBeCloseTo(15, 6)
+      const preferred = tier(result, 'Preferred Return (12%)')
+      expect((preferred.gp + catchUp.gp) / (preferred.lp + preferred.gp + catchUp.gp)).toBeCloseTo(0.2, 10)
+    })
+
+    it('splits each band until the LP reaches the next hurdle', () => {
+      // The pref alone brings the LP to 12%; 18% needs another $54 to the LP
+      expect(tier(result, 'Pro Rata to 12% IRR').lp).toBeCloseTo(0, 6)
+      expect(tier(result, '80/20 to 18% IRR').lp).toBeCloseTo(54, 6)
+      expect(tier(result, '80/20 to 18% IRR').gp).toBeCloseTo(13.5, 6)
+      expect(tier(result, '70/30 above 18% IRR').lp).toBeCloseTo(70, 6)
+      expect(tier(result, '70/30 above 18% IRR').gp).toBeCloseTo(30, 6)
+    })
+
+    it('distributes every dollar', () => {
+      expect(result.lp.distributed + result.gp.distributed).toBeCloseTo(1302.5, 6)
+      expect(result.lp.irr!).toBeGreaterThan(18)
+    })
+  })
+})
@@ -0,0 +1,123 @@
+import type { DebtTranche } from '../types'
+import { positionRank, scheduleBalance, scheduleDebtService } from './debt'
+import type { LoanSchedule } from './debt'
+import type { Period } from './periods'
+
+// ============================================================================
+// COVENANT TESTS
+// ============================================================================
+
+// Lenders test quarterly; a failed test sweeps cash until the next one
+export const COVENANT_TEST_MONTHS = 3
+
+export type CovenantMetric = 'DSCR' | 'LTV' | 'Debt Yield'
+
+export interface CovenantTest {
+  metric: CovenantMetric
+  // Null when the loan has no debt service or balance to test against
+  actual: number | null
+  required: number
+  breached: boolean
+}
+
+export interface CovenantPeriod {
+  period: Period
+  // Empty when the loan wasn't outstanding at the end of the period or the
+  // property hadn't stabilized
+  tests: CovenantTest[]
+  breached: boolean
+  // Excess cash applied to principal during the period
+  sweep: number
+}
+
+export interface CovenantCompliance {
+  trancheId: string
+  trancheName: string
+  periods: CovenantPeriod[]
+  breachCount: number
+}
+
+export const hasCovenants = (tranche: DebtTranche): boolean =>
+  !!(tranche.covenants?.min_dscr || tranche.covenants?.max_ltv || tranche.covenants?.min_debt_yield)
+
+const outstanding = (loan: LoanSchedule, month: number): boolean =>
+  month > loan.fundingMonth && (loan.retiredMonth === null || month < loan.retiredMonth) &&
+  scheduleBalance(loan, month) > 0
+
+// Tests loan `index` at the end of a 1-based hold month. Each loan is tested on
+// its own debt and everything senior to it, against trailing twelve-month NOI
+// annualized from the months it has been outstanding; LTV marks the property
+// at that NOI over the exit cap rate. A development isn't tested until it
+// stabilizes, and then only on NOI from the stabilized months.
+export function testCovenants(
+  loans: LoanSchedule[],
+  terms: DebtTranche[],
+  index: number,
+  month: number,
+  noi: number[],
+  exitCapRate: number,
+  stabilizationMonth: number = 0
+): CovenantTest[] {
+  const loan = loans[index]
+  const covenants = terms[index]?.covenants
+  if (!covenants || month <= stabilizationMonth || !outstanding(loan, month)) return []
+
+  const rank = positionRank(loan.position)
+  const tested = loans.filter((l, j) =>
+    positionRank(l.position) < rank || (positionRank(l.position) === rank && j <= index)
+  )
+  const start = Math.max(1, month - 11, loan.fundingMonth + 1, stabilizationMonth + 1)
+  let trailingNOI = 0
+  let debtService = 0
+  for (let m = start; m <= month; m++) {
+    trailingNOI += noi[m - 1] || 0
+    debtService += tested.reduce((total, l) => total + scheduleDebtService(l, m), 0)
+  }
+  const annualize = 12 / (month - start + 1)
+  const annualNOI = trailingNOI * annualize
+  const balance = tested.reduce((total, l) => total + (outstanding(l, month) ? scheduleBalance(l, month) : 0), 0)
+  const value = exitCapRate > 0 ? annualNOI / (exitCapRate / 100) : 0
+
+  const tests: CovenantTest[] = []
+  if (covenants.min_dscr) {
+    const actual = debtService > 0 ? annualNOI / (debtService * annualize) : null
+    tests.push({ metric: 'DSCR', actual, required: covenants.min_dscr, breached: actual !== null && actual < covenants.min_dscr })
+  }
+  if (covenants.max_ltv) {
+    const actual = value > 0 ? balance / value * 100 : null
+    tests.push({ metric: 'LTV', actual, required: covenants.max_ltv, breached: actual === null || actual > covenants.max_ltv })
+  }
+  if (covenants.min_debt_yield) {
+    const actual = balance > 0 ? annualNOI / balance * 100 : null
+    tests.push({ metric: 'Debt Yield', actual, required: covenants.min_debt_yield, breached: actual !== null && actual < covenants.min_debt_yield })
+  }
+  return tests
+}
+
+// Every loan with covenants, tested at the end of each period
+export function covenantCompliance(
+  loans: LoanSchedule[],
+  terms: DebtTranche[],
+  periods: Period[],
+  noi: number[],
+  exitCapRate: number,
+  stabilizationMonth: number = 0
+): CovenantCompliance[] {
+  return loans.flatMap((loan, i) => {
+    if (!terms[i] || !hasCovenants(terms[i])) return []
+    const tested = periods.map(period => {
+      const tests = testCovenants(loans, terms, i, period.endMonth, noi, exitCapRate, stabilizationMonth)
+      let sweep = 0
+      for (const p of loan.periods) {
+        if (p.month >= period.startMonth && p.month <= period.endMonth) sweep += p.sweep
+      }
+      return { period, tests, breached: tests.some(t => t.breached), sweep }
+    })
+    return [{
+      trancheId: loan.trancheId,
+      trancheName: loan.trancheName,
+      periods: tested,
+      breachCount: tested.filter(p => p.breached).length,
+    }]
+  })
+}
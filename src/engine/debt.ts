@@ -0,0 +1,269 @@
+import type { CapitalPosition, DebtTranche, ForwardIndexCurve } from '../types'
+
+// ============================================================================
+// LOAN SCHEDULES
+// ============================================================================
+
+export interface LoanPeriod {
+  month: number
+  beginningBalance: number
+  // Construction draws added to the balance at the end of the month
+  draw: number
+  // All-in annual rate for the month, as a percentage
+  rate: number
+  interest: number
+  // Interest paid in cash vs. added to the balance (PIK)
+  interestPaid: number
+  interestAccrued: number
+  // Scheduled amortization; the maturity payoff is carried in `balloon`
+  principal: number
+  balloon: number
+  // Balance repaid ahead of maturity, at a refinance
+  prepayment: number
+  // Excess cash applied to principal under a covenant cash sweep
+  sweep: number
+  // Replacement rate cap bought as the previous one expires; not paid to the lender
+  hedgeCost: number
+  // Total cash paid to the lender in the month
+  payment: number
+  endingBalance: number
+}
+
+export interface LoanSchedule {
+  trancheId: string
+  trancheName: string
+  position: CapitalPosition
+  loanAmount: number
+  // Hold month in which the loan funds; 0 for loans in place at acquisition
+  fundingMonth: number
+  maturityMonth: number
+  // Hold month in which a refinance repaid the loan early
+  retiredMonth: number | null
+  periods: LoanPeriod[]
+}
+
+// Monthly payment that retires `balance` over `months` at `monthlyRate`
+export const amortizingPayment = (balance: number, monthlyRate: number, months: number): number => {
+  if (months <= 0) return balance
+  if (monthlyRate === 0) return balance / months
+  return balance * monthlyRate / (1 - Math.pow(1 + monthlyRate, -months))
+}
+
+export const isFloatingRate = (tranche: DebtTranche) =>
+  tranche.interest_type === 'Floating Rate' ||
+  tranche.interest_type === 'Floating with Cap' ||
+  tranche.interest_type === 'Floating with Swap'
+
+// A swapped loan pays the fixed swap rate plus its spread, so the index doesn't move it
+export const isSwapped = (tranche: DebtTranche) =>
+  tranche.interest_type === 'Floating with Swap' && tranche.swap_rate !== null && tranche.swap_rate !== undefined
+
+// Index rate (percent) for a 1-based hold month: the project's forward curve
+// for the tranche's index when one is entered, else the flat assumption
+export const indexRateForMonth = (tranche: DebtTranche, month: number, curves?: ForwardIndexCurve[]): number => {
+  const rates = curves?.find(c => c.index === tranche.index)?.rates || []
+  for (let year = Math.min(Math.floor((month - 1) / 12), rates.length - 1); year >= 0; year--) {
+    const rate = rates[year]
+    if (rate !== null && rate !== undefined) return rate
+  }
+  return tranche.index_assumption || 0
+}
+
+// Every curve moved in parallel by `delta` percentage points
+export const shiftForwardCurves = (curves: ForwardIndexCurve[] | undefined, delta: number): ForwardIndexCurve[] =>
+  (curves || []).map(c => ({ ...c, rates: c.rates.map(r => r === null ? null : Math.max(0, r + delta)) }))
+
+// Premium paid at closing for a capped loan's rate cap
+export const upfrontCapCost = (tranche: DebtTranche): number =>
+  tranche.interest_type === 'Floating with Cap' ? tranche.cap_cost || 0 : 0
+
+// All-in annual rate (percent) for a 1-based loan month. The floor, ceiling and
+// any cap strike apply to the index; a swap replaces the index with its fixed rate.
+export const trancheRateForMonth = (
+  tranche: DebtTranche,
+  month: number,
+  indexRate: number = tranche.index_assumption || 0
+): number => {
+  const fixedRate = tranche.interest_rate_annual || 0
+  switch (tranche.interest_type) {
+    case 'Floating Rate':
+    case 'Floating with Cap':
+    case 'Floating with Swap': {
+      if (isSwapped(tranche)) {
+        return tranche.swap_rate! + (tranche.spread_bps || 0) / 100
+      }
+      let index = indexRate
+      if (tranche.floor_rate !== null && tranche.floor_rate !== undefined) {
+        index = Math.max(index, tranche.floor_rate)
+      }
+      if (tranche.ceiling_rate) {
+        index = Math.min(index, tranche.ceiling_rate)
+      }
+      if (tranche.interest_type === 'Floating with Cap' && tranche.cap_strike_rate) {
+        index = Math.min(index, tranche.cap_strike_rate)
+      }
+      return index + (tranche.spread_bps || 0) / 100
+    }
+    case 'Step Rate': {
+      const loanYear = Math.floor((month - 1) / 12)
+      return fixedRate + loanYear * (tranche.step_rate_increase_bps || 0) / 100
+    }
+    default:
+      return fixedRate
+  }
+}
+
+// Month in which amortization begins (1-based) and the amortization length
+const amortizationTerms = (tranche: DebtTranche, term: number | null) => {
+  const amortMonths = (tranche.amortization_years || 30) * 12
+  const ioMonths = Math.min(tranche.io_period_months || 0, term ?? Infinity)
+  switch (tranche.amortization_type) {
+    case 'Interest Only (Full Term)':
+      return { startMonth: Infinity, months: 0 }
+    case 'Interest Only then Amortizing':
+      return { startMonth: ioMonths + 1, months: amortMonths }
+    case 'Partial IO':
+      // Amortization clock runs from funding, so the IO months shorten it
+      return { startMonth: ioMonths + 1, months: Math.max(1, amortMonths - ioMonths) }
+    default:
+      // Fully amortizing, balloon and custom schedules amortize over the stated
+      // period; whatever is left pays off at maturity
+      return { startMonth: 1, months: amortMonths }
+  }
+}
+
+// Periods are numbered in hold months; rates and amortization run on the loan's
+// own clock from `fundingMonth`, covering at most `months` months. A loan
+// without a term runs past them with no balloon, repaid when sold. Floating
+// loans read the index for each hold month from `curves`. Junior layers pass
+// the cash left for them by hold month; what it can't cover accrues. `sweeps`
+// holds extra principal paid at the end of each hold month.
+export function buildLoanSchedule(
+  tranche: DebtTranche,
+  months: number,
+  fundingMonth: number = 0,
+  curves?: ForwardIndexCurve[],
+  cashAvailable?: number[],
+  sweeps?: number[]
+): LoanSchedule {
+  const loanAmount = tranche.loan_amount || 0
+  const term = tranche.loan_term_months || null
+  const lastLoanMonth = Math.min(term ?? months, months)
+  const amort = amortizationTerms(tranche, term)
+  const isPIK = tranche.interest_type === 'Accruing/PIK'
+  const capTerm = tranche.interest_type === 'Floating with Cap' ? tranche.cap_term_months || 0 : 0
+
+  const periods: LoanPeriod[] = []
+  let balance = loanAmount
+  for (let month = 1; month <= lastLoanMonth && balance > 0; month++) {
+    const rate = trancheRateForMonth(tranche, month, indexRateForMonth(tranche, fundingMonth + month, curves))
+    const monthlyRate = rate / 100 / 12
+    const interest = balance * monthlyRate
+    const accrualRate = isPIK ? rate : Math.min(rate, tranche.accrual_rate || 0)
+    let interestAccrued = balance * accrualRate / 100 / 12
+    let interestPaid = interest - interestAccrued
+
+    let principal = 0
+    if (!isPIK && month >= amort.startMonth) {
+      // Re-solve each month so floating and step rates re-amortize the balance
+      const remaining = amort.months - (month - amort.startMonth)
+      principal = Math.min(balance, amortizingPayment(balance, monthlyRate, remaining) - interest)
+    }
+
+    if (cashAvailable) {
+      // Interest the cash can't cover accrues; scheduled principal waits
+      const available = Math.max(0, cashAvailable[fundingMonth + month - 1] || 0)
+      const shortfall = Math.max(0, interestPaid - available)
+      interestPaid -= shortfall
+      interestAccrued += shortfall
+      principal = Math.min(principal, available - interestPaid)
+    }
+
+    const beginningBalance = balance
+    balance = balance + interestAccrued - principal
+    const sweep = Math.min(balance, Math.max(0, sweeps?.[fundingMonth + month - 1] || 0))
+    balance -= sweep
+    let balloon = 0
+    if (month === term) {
+      // The remaining balance is due at maturity
+      balloon = balance
+      balance = 0
+    }
+
+    periods.push({
+      month: fundingMonth + month,
+      beginningBalance,
+      draw: 0,
+      rate,
+      interest,
+      interestPaid,
+      interestAccrued,
+      principal,
+      balloon,
+      prepayment: 0,
+      sweep,
+      hedgeCost: capTerm > 0 && month > 1 && (month - 1) % capTerm === 0 ? tranche.cap_replacement_cost || 0 : 0,
+      payment: interestPaid + principal + sweep + balloon,
+      endingBalance: balance,
+    })
+  }
+
+  return {
+    trancheId: tranche.id,
+    trancheName: tranche.tranche_name,
+    position: tranche.position || 'Senior',
+    loanAmount,
+    fundingMonth,
+    maturityMonth: fundingMonth + lastLoanMonth,
+    retiredMonth: null,
+    periods,
+  }
+}
+
+// The schedule cut off at the end of a 1-based hold month, with the balance
+// then outstanding repaid as a prepayment
+export const retireSchedule = (schedule: LoanSchedule, month: number): LoanSchedule => {
+  const periods = schedule.periods.filter(p => p.month <= month)
+  const last = periods[periods.length - 1]
+  if (!last || last.month !== month || last.endingBalance <= 0) return schedule
+  periods[periods.length - 1] = {
+    ...last,
+    prepayment: last.endingBalance,
+    payment: last.payment + last.endingBalance,
+    endingBalance: 0,
+  }
+  return { ...schedule, retiredMonth: month, periods }
+}
+
+const schedulePeriod = (schedule: LoanSchedule, month: number): LoanPeriod | undefined =>
+  schedule.periods[month - schedule.fundingMonth - 1]
+
+// Cash debt service (interest paid plus scheduled principal) for a 1-based month
+export const scheduleDebtService = (schedule: LoanSchedule, month: number): number => {
+  const period = schedulePeriod(schedule, month)
+  return period ? period.interestPaid + period.principal : 0
+}
+
+// Outstanding balance at the end of a 1-based month; the funding month carries
+// what was funded at closing, the full amount unless the loan is drawn over time
+export const scheduleBalance = (schedule: LoanSchedule, month: number): number => {
+  if (month < schedule.fundingMonth) return 0
+  if (month === schedule.fundingMonth) return schedule.periods[0]?.beginningBalance ?? schedule.loanAmount
+  return schedulePeriod(schedule, month)?.endingBalance || 0
+}
+
+// Junior layers are paid after everything ranked above them
+export const positionRank = (position: CapitalPosition | undefined): number =>
+  position === 'Preferred Equity' ? 2 : position === 'Mezzanine' ? 1 : 0
+
+// Replacement cap premium paid in a 1-based month
+export const scheduleHedgeCost = (schedule: LoanSchedule, month: number): number =>
+  schedulePeriod(schedule, month)?.hedgeCost || 0
+
+// Principal swept from excess cash in a 1-based month
+export const scheduleSweep = (schedule: LoanSchedule, month: number): number =>
+  schedulePeriod(schedule, month)?.sweep || 0
+
+// Balloon repaid at maturity in a 1-based month
+export const scheduleBalloon = (schedule: LoanSchedule, month: number): number =>
+  schedulePeriod(schedule, month)?.balloon || 0
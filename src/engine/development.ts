@@ -0,0 +1,203 @@
+import type { DebtTranche, DevelopmentCostCategory, DrawCurve, ForwardIndexCurve, Project } from '../types'
+import { indexRateForMonth, positionRank, trancheRateForMonth } from './debt'
+import type { LoanPeriod, LoanSchedule } from './debt'
+import { constructionManagementFee } from './fees'
+
+// ============================================================================
+// DEVELOPMENT
+// ============================================================================
+
+export const DEFAULT_CONSTRUCTION_MONTHS = 18
+
+// Refinance id of the permanent takeout placed at stabilization
+export const TAKEOUT_ID = 'takeout'
+
+export interface DevelopmentBudget {
+  hardCosts: number
+  softCosts: number
+  hardContingency: number
+  softContingency: number
+  managementFee: number
+  // Everything drawn during construction; the land closes with the acquisition
+  total: number
+  // Costs drawn by hold month (index 0 is month 1)
+  monthly: number[]
+  completionMonth: number
+  // Fully leased once the lease-up ends
+  stabilizationMonth: number
+}
+
+export interface ConstructionFunding {
+  // Draw-funded schedules, in tranche order
+  loans: LoanSchedule[]
+  // Costs paid by equity and by loan draws; index 0 is closing
+  equity: number[]
+  loanDraws: number[]
+  // Interest added to the loan balances, by month; index 0 is closing
+  capitalizedInterest: number[]
+  totalCapitalizedInterest: number
+}
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0)
+
+export const isDevelopment = (project: Project): boolean =>
+  project.analysis?.analysis_type === 'Development'
+
+// Share of the budget drawn once fraction `x` of construction has passed. The
+// S-curve starts and finishes slowly and peaks mid-construction.
+const cumulativeDraw = (curve: DrawCurve, x: number): number =>
+  curve === 'Straight-Line' ? x : x * x * (3 - 2 * x)
+
+// Totals the budget with its contingencies and the construction management fee,
+// spread over the construction months from the month after closing
+export function developmentBudget(project: Project, holdMonths: number): DevelopmentBudget {
+  const development = project.development
+  const items = development?.budget || []
+  const categoryTotal = (category: DevelopmentCostCategory) =>
+    sum(items.filter(item => item.category === category).map(item => item.amount || 0))
+
+  const hardCosts = categoryTotal('Hard Costs')
+  const softCosts = categoryTotal('Soft Costs')
+  const hardContingency = hardCosts * (development?.hard_cost_contingency_pct || 0) / 100
+  const softContingency = softCosts * (development?.soft_cost_contingency_pct || 0) / 100
+  const managementFee = constructionManagementFee(project.financing, hardCosts)
+  const total = hardCosts + softCosts + hardContingency + softContingency + managementFee
+
+  const completionMonth = Math.max(1, development?.construction_months || DEFAULT_CONSTRUCTION_MONTHS)
+  const curve = development?.draw_curve || 'S-Curve'
+  const monthly = Array.from({ length: holdMonths }, (_, i) =>
+    i < completionMonth
+      ? total * (cumulativeDraw(curve, (i + 1) / completionMonth) - cumulativeDraw(curve, i / completionMonth))
+      : 0
+  )
+
+  return {
+    hardCosts,
+    softCosts,
+    hardContingency,
+    softContingency,
+    managementFee,
+    total,
+    monthly,
+    completionMonth,
+    stabilizationMonth: completionMonth + Math.max(0, development?.lease_up_months || 0),
+  }
+}
+
+// Share of stabilized income collected in a 1-based month: none until
+// completion, then leasing up evenly to stabilization
+export const leasedShare = (budget: DevelopmentBudget, month: number): number => {
+  if (month <= budget.completionMonth) return 0
+  const leaseUp = budget.stabilizationMonth - budget.completionMonth
+  return leaseUp > 0 ? Math.min(1, (month - budget.completionMonth) / leaseUp) : 1
+}
+
+// Funds the closing uses and the budget draws equity first, then from each
+// tranche up to its commitment, most junior first. Interest capitalizes for a
+// tranche's interest reserve months (through stabilization when blank) while
+// its commitment has room, and is paid in cash after. Costs beyond the
+// commitments fall back to equity.
+export function fundConstruction(
+  tranches: DebtTranche[],
+  closingUses: number,
+  budget: DevelopmentBudget,
+  equity: number,
+  holdMonths: number,
+  curves?: ForwardIndexCurve[]
+): ConstructionFunding {
+  const drawOrder = tranches.map((_, i) => i).sort((a, b) =>
+    positionRank(tranches[b].position) - positionRank(tranches[a].position) || a - b
+  )
+  const committed = tranches.map(t => t.loan_amount || 0)
+  const funded = tranches.map(() => 0)
+  const balances = tranches.map(() => 0)
+  const periods: LoanPeriod[][] = tranches.map(() => [])
+  const equityFunded = new Array(holdMonths + 1).fill(0)
+  const loanDraws = new Array(holdMonths + 1).fill(0)
+  const capitalizedInterest = new Array(holdMonths + 1).fill(0)
+  let equityLeft = Math.max(0, equity)
+
+  // Draws equity first, then the tranches; returns each tranche's draw
+  const fund = (cost: number, month: number) => {
+    const draws = tranches.map(() => 0)
+    const fromEquity = Math.min(cost, equityLeft)
+    equityLeft -= fromEquity
+    let remaining = cost - fromEquity
+    for (const i of drawOrder) {
+      const term = tranches[i].loan_term_months
+      if (remaining <= 0 || (term && month >= term)) continue
+      draws[i] = Math.min(remaining, committed[i] - funded[i])
+      funded[i] += draws[i]
+      remaining -= draws[i]
+    }
+    equityFunded[month] = cost - sum(draws)
+    loanDraws[month] = sum(draws)
+    return draws
+  }
+
+  fund(closingUses, 0).forEach((draw, i) => { balances[i] = draw })
+
+  for (let month = 1; month <= holdMonths; month++) {
+    const draws = fund(budget.monthly[month - 1] || 0, month)
+    tranches.forEach((tranche, i) => {
+      const term = tranche.loan_term_months
+      if (term && month > term) return
+      const rate = trancheRateForMonth(tranche, month, indexRateForMonth(tranche, month, curves))
+      const beginningBalance = balances[i]
+      const interest = beginningBalance * rate / 100 / 12
+      const capitalizeMonths = tranche.lender_required_reserves?.interest_reserve_months ?? budget.stabilizationMonth
+      let interestAccrued = 0
+      if (tranche.interest_type === 'Accruing/PIK') {
+        interestAccrued = interest
+      } else if (month <= capitalizeMonths) {
+        interestAccrued = Math.min(interest, Math.max(0, committed[i] - funded[i]))
+        funded[i] += interestAccrued
+        capitalizedInterest[month] += interestAccrued
+      }
+      const interestPaid = interest - interestAccrued
+
+      let balance = beginningBalance + interestAccrued + draws[i]
+      let balloon = 0
+      if (month === term) {
+        balloon = balance
+        balance = 0
+      }
+      balances[i] = balance
+      periods[i].push({
+        month,
+        beginningBalance,
+        draw: draws[i],
+        rate,
+        interest,
+        interestPaid,
+        interestAccrued,
+        principal: 0,
+        balloon,
+        prepayment: 0,
+        sweep: 0,
+        hedgeCost: 0,
+        payment: interestPaid + balloon,
+        endingBalance: balance,
+      })
+    })
+  }
+
+  const loans: LoanSchedule[] = tranches.map((tranche, i) => ({
+    trancheId: tranche.id,
+    trancheName: tranche.tranche_name,
+    position: tranche.position || 'Senior',
+    loanAmount: committed[i],
+    fundingMonth: 0,
+    maturityMonth: Math.min(tranche.loan_term_months || holdMonths, holdMonths),
+    retiredMonth: null,
+    periods: periods[i],
+  }))
+
+  return {
+    loans,
+    equity: equityFunded,
+    loanDraws,
+    capitalizedInterest,
+    totalCapitalizedInterest: sum(capitalizedInterest),
+  }
+}
@@ -0,0 +1,38 @@
+import type { Financing, Project } from '../types'
+
+// ============================================================================
+// SPONSOR FEES
+// ============================================================================
+
+// Fees earned by the GP over the hold
+export interface SponsorFees {
+  acquisitionFee: number
+  // Charged on a development's hard costs, drawn with the budget
+  constructionManagementFee: number
+  assetManagementFee: number
+  refinanceFee: number
+  dispositionFee: number
+  total: number
+  // Asset management fee by year of the hold
+  annualAssetManagement: number[]
+}
+
+// Paid at close on the purchase price; funded as a use alongside the price
+export const acquisitionFee = (project: Project): number =>
+  (project.acquisition?.purchase_price || 0) * (project.financing?.fees?.acquisition_fee_pct || 0) / 100
+
+// Charged on the hard cost budget of a development
+export const constructionManagementFee = (financing: Financing | undefined, hardCosts: number): number =>
+  hardCosts * (financing?.fees?.construction_management_fee_pct || 0) / 100
+
+// Charged annually on contributed equity, paid monthly below NOI
+export const monthlyAssetManagementFee = (financing: Financing | undefined, equity: number): number =>
+  Math.max(0, equity) * (financing?.fees?.asset_management_fee_pct || 0) / 100 / 12
+
+// Paid out of the gross sale price at exit
+export const dispositionFee = (financing: Financing | undefined, grossSalePrice: number): number =>
+  grossSalePrice * (financing?.fees?.disposition_fee_pct || 0) / 100
+
+// Paid on the new loan amount when the property is refinanced
+export const refinanceFee = (financing: Financing | undefined, newLoanAmount: number): number =>
+  newLoanAmount * (financing?.fees?.refinance_fee_pct || 0) / 100
@@ -0,0 +1,76 @@
+export { runProForma, proFormaRows } from './proforma'
+export type { ProFormaResult, ProFormaLines, ExitSummary, LeverageSummary, CapitalLayer } from './proforma'
+export { buildPeriods, getHoldMonths, rollUpFlows, rollUpBalances } from './periods'
+export type { Granularity, Period } from './periods'
+export {
+  calculateIRR,
+  calculateEquityMultiple,
+  calculateNPV,
+  calculateXNPV,
+  calculateXIRR,
+  calculateProfitabilityIndex,
+  calculatePeakEquity,
+  calculatePaybackYears,
+  DEFAULT_DISCOUNT_RATE,
+  DEFAULT_UNLEVERED_DISCOUNT_RATE,
+} from './returns'
+export {
+  buildLoanSchedule,
+  retireSchedule,
+  amortizingPayment,
+  trancheRateForMonth,
+  indexRateForMonth,
+  isFloatingRate,
+  isSwapped,
+  shiftForwardCurves,
+  upfrontCapCost,
+  positionRank,
+} from './debt'
+export type { LoanSchedule, LoanPeriod } from './debt'
+export { sizeTranche, debtConstant } from './sizing'
+export type { TrancheSizing, SizingConstraint, SizingConstraintType, SizingBasis, SeniorDebt } from './sizing'
+export { runWaterfall } from './waterfall'
+export type { WaterfallResult, WaterfallTier, PartnerReturns } from './waterfall'
+export { applyRefinances } from './refinance'
+export type { RefinanceSummary, RefinanceResult } from './refinance'
+export { prepaymentPenalty, treasuryRate, DEFAULT_TREASURY_RATE, DEFAULT_STEP_DOWN } from './prepayment'
+export type { PrepaymentCost } from './prepayment'
+export { testCovenants, covenantCompliance, hasCovenants, COVENANT_TEST_MONTHS } from './covenants'
+export type { CovenantMetric, CovenantTest, CovenantPeriod, CovenantCompliance } from './covenants'
+export { solveSourcesAndUses, closingCostAmount, financingCosts } from './sourcesUses'
+export type { SourcesAndUses, SourcesUsesLine } from './sourcesUses'
+export { sizeReserves, projectReserves } from './reserves'
+export type { ReserveType, ReserveCosts, ReserveDeposit, LenderReserve, ReserveProjection } from './reserves'
+export { acquisitionFee, constructionManagementFee, monthlyAssetManagementFee, refinanceFee, dispositionFee } from './fees'
+export type { SponsorFees } from './fees'
+export { developmentBudget, fundConstruction, leasedShare, isDevelopment, DEFAULT_CONSTRUCTION_MONTHS, TAKEOUT_ID } from './development'
+export type { DevelopmentBudget, ConstructionFunding } from './development'
+export { projectRentRoll, hasRentRoll, analysisStartDate } from './rentRoll'
+export type { RentRollProjection, LeaseExpiration, TenantProjection } from './rentRoll'
+export { projectRecoveries, recoverablePools } from './recoveries'
+export type { RecoveryProjection, TenantRecovery, RecoveryPool } from './recoveries'
+export {
+  runSensitivity,
+  sensitivityDrivers,
+  sensitivityMetric,
+  driverBaseValue,
+  withDriver,
+  centeredRange,
+  defaultDriverStep,
+} from './sensitivity'
+export type { SensitivityMetric, SensitivityDriverDefinition } from './sensitivity'
+export { applyScenario, applyInputOverride, evaluateScenario, evaluateProject, scenarioInputs } from './scenarios'
+export type { ScenarioResults, ScenarioInput } from './scenarios'
+export {
+  runMonteCarlo,
+  summarizeSimulation,
+  breachesMinDSCR,
+  histogram,
+  suggestedDistribution,
+  simulationBaseValue,
+  simulationVariables,
+  DEFAULT_SIMULATION,
+  MAX_ITERATIONS,
+  SIMULATION_PERCENTILES,
+} from './monteCarlo'
+export type { SimulationIteration, SimulationSummary, HistogramBin } from './monteCarlo'
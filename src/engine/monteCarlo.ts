@@ -0,0 +1,235 @@
+import type { DebtTranche, MonteCarloSettings, Project, SimulationDistribution, SimulationVariable } from '../types'
+import { runProForma } from './proforma'
+import type { ProFormaResult } from './proforma'
+import { driverBaseValue, withDriver } from './sensitivity'
+import { indexRateForMonth, isFloatingRate, isSwapped, shiftForwardCurves } from './debt'
+import { covenantCompliance } from './covenants'
+import { buildPeriods } from './periods'
+
+// ============================================================================
+// MONTE CARLO SIMULATION
+// ============================================================================
+
+export const simulationVariables: Record<SimulationVariable, { label: string; spread: number }> = {
+  rent_growth: { label: 'Rent Growth', spread: 1 },
+  expense_growth: { label: 'Expense Growth', spread: 1 },
+  vacancy_rate: { label: 'Vacancy', spread: 2.5 },
+  exit_cap_rate: { label: 'Exit Cap Rate', spread: 0.5 },
+  interest_rate_index: { label: 'Interest Rate Index', spread: 1 },
+}
+
+export const DEFAULT_SIMULATION: MonteCarloSettings = {
+  iterations: 2000,
+  seed: null,
+  distributions: [],
+}
+
+export const MAX_ITERATIONS = 10000
+
+const floatsWithIndex = (tranche: DebtTranche) => isFloatingRate(tranche) && !isSwapped(tranche)
+
+// Current value of a simulated assumption; the index is Year 1's for the first
+// floating tranche that isn't swapped
+export const simulationBaseValue = (project: Project, variable: SimulationVariable): number | null => {
+  switch (variable) {
+    case 'rent_growth': return driverBaseValue(project, 'rent_growth')
+    case 'expense_growth': return project.growth?.expense_growth_rate ?? 3
+    case 'vacancy_rate': return driverBaseValue(project, 'vacancy_rate')
+    case 'exit_cap_rate': return driverBaseValue(project, 'exit_cap_rate')
+    case 'interest_rate_index': {
+      const tranche = project.financing?.debt_tranches?.find(floatsWithIndex)
+      return tranche ? indexRateForMonth(tranche, 1, project.financing?.forward_curves) : null
+    }
+  }
+}
+
+// A normal distribution centered on the current value, switched off until the user opts in
+export const suggestedDistribution = (project: Project, variable: SimulationVariable): SimulationDistribution => {
+  const base = simulationBaseValue(project, variable) ?? 0
+  const { spread } = simulationVariables[variable]
+  return {
+    variable,
+    enabled: false,
+    type: 'Normal',
+    mean: base,
+    std_dev: spread,
+    min: Math.max(0, base - 2 * spread),
+    mode: base,
+    max: base + 2 * spread,
+  }
+}
+
+// Seeded PRNG (mulberry32) so a fixed seed reproduces a run
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export const sampleDistribution = (distribution: SimulationDistribution, random: () => number): number => {
+  const { type } = distribution
+  const min = distribution.min ?? 0
+  const max = distribution.max ?? min
+  switch (type) {
+    case 'Normal': {
+      // Box-Muller
+      const u = 1 - random()
+      const v = random()
+      const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+      return (distribution.mean ?? 0) + z * (distribution.std_dev ?? 0)
+    }
+    case 'Triangular': {
+      const mode = Math.min(max, Math.max(min, distribution.mode ?? (min + max) / 2))
+      if (max <= min) return min
+      const u = random()
+      const split = (mode - min) / (max - min)
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode))
+    }
+    case 'Uniform':
+      return min + random() * (max - min)
+  }
+}
+
+// The project with one drawn assumption applied. Rates that can't go negative
+// are floored; the exit cap keeps a small minimum so the sale stays finite.
+export const applySimulationDraw = (project: Project, variable: SimulationVariable, value: number): Project => {
+  switch (variable) {
+    case 'rent_growth':
+      return withDriver(project, 'rent_growth', value)
+    case 'expense_growth':
+      return { ...project, growth: { ...project.growth!, expense_growth_rate: value } }
+    case 'vacancy_rate':
+      return withDriver(project, 'vacancy_rate', Math.min(100, Math.max(0, value)))
+    case 'exit_cap_rate':
+      return withDriver(project, 'exit_cap_rate', Math.max(0.5, value))
+    case 'interest_rate_index': {
+      // Every unswapped floating tranche's index and the forward curves move
+      // with the draw; swapped debt is hedged and keeps its fixed rate
+      const delta = Math.max(0, value) - (simulationBaseValue(project, variable) ?? 0)
+      const tranches = (project.financing?.debt_tranches || []).map(t =>
+        floatsWithIndex(t) ? { ...t, index_assumption: Math.max(0, (t.index_assumption || 0) + delta) } : t
+      )
+      const forward_curves = shiftForwardCurves(project.financing?.forward_curves, delta)
+      return { ...project, financing: { ...project.financing!, debt_tranches: tranches, forward_curves } }
+    }
+  }
+}
+
+// True when any loan, refinance loans included, fails its min DSCR at a
+// quarterly covenant test, on the same tests the pro forma reports
+export const breachesMinDSCR = (result: ProFormaResult): boolean =>
+  covenantCompliance(
+    result.loans,
+    result.loanTerms,
+    buildPeriods(result.holdMonths, 'quarterly'),
+    result.monthly.noi,
+    result.exit.exitCapRate,
+    result.development?.stabilizationMonth
+  ).some(c => c.periods.some(p => p.tests.some(t => t.metric === 'DSCR' && t.breached)))
+
+export interface SimulationIteration {
+  irr: number | null
+  equityMultiple: number | null
+  breach: boolean
+}
+
+export interface SimulationSummary {
+  iterations: number
+  // Percentile -> value, for P5 through P95
+  irrPercentiles: Record<number, number | null>
+  multiplePercentiles: Record<number, number | null>
+  meanIRR: number | null
+  meanMultiple: number | null
+  // Share of iterations (percent) returning less than the equity invested
+  probabilityOfLoss: number
+  // Share of iterations (percent) breaching a min DSCR covenant; null without covenants
+  probabilityOfBreach: number | null
+}
+
+export const SIMULATION_PERCENTILES = [5, 10, 25, 50, 75, 90, 95]
+
+const percentile = (sorted: number[], p: number): number | null => {
+  if (sorted.length === 0) return null
+  const rank = (p / 100) * (sorted.length - 1)
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null
+
+export function summarizeSimulation(project: Project, iterations: SimulationIteration[]): SimulationSummary {
+  const finite = (values: (number | null)[]) =>
+    values.filter((v): v is number => v !== null && Number.isFinite(v)).sort((a, b) => a - b)
+  const irrs = finite(iterations.map(i => i.irr))
+  const multiples = finite(iterations.map(i => i.equityMultiple))
+  const loans = [
+    ...(project.financing?.debt_tranches || []),
+    ...(project.financing?.refinances || []).map(r => r.new_loan),
+    ...(project.development?.takeout_loan ? [project.development.takeout_loan] : []),
+  ]
+  const hasCovenants = loans.some(t => !!t.covenants?.min_dscr)
+  const count = iterations.length || 1
+
+  return {
+    iterations: iterations.length,
+    irrPercentiles: Object.fromEntries(SIMULATION_PERCENTILES.map(p => [p, percentile(irrs, p)])),
+    multiplePercentiles: Object.fromEntries(SIMULATION_PERCENTILES.map(p => [p, percentile(multiples, p)])),
+    meanIRR: mean(irrs),
+    meanMultiple: mean(multiples),
+    probabilityOfLoss: iterations.filter(i => i.equityMultiple !== null && i.equityMultiple < 1).length / count * 100,
+    probabilityOfBreach: hasCovenants ? iterations.filter(i => i.breach).length / count * 100 : null,
+  }
+}
+
+export interface HistogramBin {
+  from: number
+  to: number
+  count: number
+}
+
+export const histogram = (values: (number | null)[], bins: number = 20): HistogramBin[] => {
+  const finite = values.filter((v): v is number => v !== null && Number.isFinite(v))
+  if (finite.length === 0) return []
+  const min = Math.min(...finite)
+  const max = Math.max(...finite)
+  const width = (max - min) / bins || 1
+  const result = Array.from({ length: bins }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }))
+  for (const v of finite) result[Math.min(bins - 1, Math.floor((v - min) / width))].count++
+  return result
+}
+
+// Runs the pro forma once per iteration with every enabled assumption drawn
+// at random. `onProgress` is called with the number of completed iterations.
+export function runMonteCarlo(
+  project: Project,
+  settings: MonteCarloSettings,
+  onProgress?: (completed: number) => void
+): SimulationIteration[] {
+  const random = createRandom(settings.seed ?? Math.floor(Math.random() * 2 ** 32))
+  const distributions = settings.distributions.filter(d => d.enabled)
+  const count = Math.min(MAX_ITERATIONS, Math.max(1, Math.round(settings.iterations)))
+  const iterations: SimulationIteration[] = []
+
+  for (let i = 0; i < count; i++) {
+    let draw = project
+    for (const distribution of distributions) {
+      draw = applySimulationDraw(draw, distribution.variable, sampleDistribution(distribution, random))
+    }
+    const result = runProForma(draw)
+    iterations.push({
+      irr: result.returns.levered_irr,
+      equityMultiple: result.returns.levered_equity_multiple,
+      breach: breachesMinDSCR(result),
+    })
+    if (onProgress && (i + 1) % 100 === 0) onProgress(i + 1)
+  }
+  return iterations
+}
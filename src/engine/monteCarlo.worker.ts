@@ -0,0 +1,29 @@
+import type { MonteCarloSettings, Project } from '../types'
+import { runMonteCarlo } from './monteCarlo'
+import type { SimulationIteration } from './monteCarlo'
+
+// ============================================================================
+// MONTE CARLO WORKER
+// ============================================================================
+
+export interface MonteCarloRequest {
+  project: Project
+  settings: MonteCarloSettings
+}
+
+export type MonteCarloMessage =
+  | { type: 'progress'; completed: number }
+  | { type: 'done'; iterations: SimulationIteration[] }
+  | { type: 'error'; message: string }
+
+const post = (message: MonteCarloMessage) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  try {
+    const { project, settings } = event.data
+    const iterations = runMonteCarlo(project, settings, completed => post({ type: 'progress', completed }))
+    post({ type: 'done', iterations })
+  } catch (e) {
+    post({ type: 'error', message: e instanceof Error ? e.message : 'Simulation failed' })
+  }
+}
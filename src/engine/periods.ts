@@ -0,0 +1,66 @@
+import type { AnalysisParameters } from '../types'
+
+// ============================================================================
+// TIMELINE
+// ============================================================================
+
+export type Granularity = AnalysisParameters['granularity']
+
+export interface Period {
+  label: string
+  // 1-based, inclusive month indices into the monthly projection
+  startMonth: number
+  endMonth: number
+}
+
+const monthsPerPeriod: Record<Granularity, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12,
+}
+
+// Total months in the hold, honoring the partial-year remainder
+export const getHoldMonths = (analysis?: AnalysisParameters): number => {
+  const years = analysis?.hold_period_years || 5
+  const months = analysis?.hold_period_months || 0
+  return Math.max(1, years * 12 + months)
+}
+
+// 0-based operating year for a 1-based month (months 1-12 are year 0)
+export const yearIndex = (month: number): number => Math.floor((month - 1) / 12)
+
+const periodLabel = (granularity: Granularity, index: number, length: number): string => {
+  const size = monthsPerPeriod[granularity]
+  const partial = length < size ? ` (${length} mo)` : ''
+  if (granularity === 'monthly') return `Month ${index + 1}`
+  if (granularity === 'quarterly') {
+    return `Y${Math.floor(index / 4) + 1} Q${(index % 4) + 1}${partial}`
+  }
+  return `Year ${index + 1}${partial}`
+}
+
+export const buildPeriods = (holdMonths: number, granularity: Granularity = 'annual'): Period[] => {
+  const size = monthsPerPeriod[granularity]
+  const periods: Period[] = []
+  for (let start = 1, i = 0; start <= holdMonths; start += size, i++) {
+    const endMonth = Math.min(start + size - 1, holdMonths)
+    periods.push({
+      label: periodLabel(granularity, i, endMonth - start + 1),
+      startMonth: start,
+      endMonth,
+    })
+  }
+  return periods
+}
+
+// Sum a monthly flow series (index 0 = month 1) into the given periods
+export const rollUpFlows = (monthly: number[], periods: Period[]): number[] =>
+  periods.map(p => {
+    let total = 0
+    for (let m = p.startMonth; m <= p.endMonth; m++) total += monthly[m - 1] || 0
+    return total
+  })
+
+// Take the end-of-period value of a monthly balance series
+export const rollUpBalances = (monthly: number[], periods: Period[]): number[] =>
+  periods.map(p => monthly[p.endMonth - 1] || 0)
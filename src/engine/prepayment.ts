@@ -0,0 +1,91 @@
+import type { DebtTranche, TreasuryCurvePoint } from '../types'
+import { buildLoanSchedule, trancheRateForMonth } from './debt'
+
+// ============================================================================
+// PREPAYMENT
+// ============================================================================
+
+// Treasury rate (percent) used when no curve is entered
+export const DEFAULT_TREASURY_RATE = 4
+
+// Step-down penalty by loan year, percent of the balance repaid
+export const DEFAULT_STEP_DOWN = [5, 4, 3, 2, 1]
+
+// Yield maintenance is never less than this share of the balance, percent
+const YIELD_MAINTENANCE_MINIMUM = 1
+
+export interface PrepaymentCost {
+  penalty: number
+  // Repaid before the lockout ends, when the lender wouldn't normally accept it
+  inLockout: boolean
+}
+
+// Treasury yield (percent) for a term in years, interpolated linearly between
+// points and held flat beyond either end of the curve
+export const treasuryRate = (curve: TreasuryCurvePoint[] | undefined, termYears: number): number => {
+  const points = [...(curve || [])].sort((a, b) => a.term_years - b.term_years)
+  if (points.length === 0) return DEFAULT_TREASURY_RATE
+  if (termYears <= points[0].term_years) return points[0].rate
+  for (let i = 1; i < points.length; i++) {
+    const lower = points[i - 1]
+    const upper = points[i]
+    if (termYears <= upper.term_years) {
+      const t = (termYears - lower.term_years) / (upper.term_years - lower.term_years)
+      return lower.rate + (upper.rate - lower.rate) * t
+    }
+  }
+  return points[points.length - 1].rate
+}
+
+// Contractual payments left after `loanMonth`, month by month through maturity,
+// for a loan whose balance at that point is `balance`
+const remainingPayments = (tranche: DebtTranche, loanMonth: number, balance: number): number[] => {
+  const term = tranche.loan_term_months || loanMonth
+  const schedule = buildLoanSchedule(tranche, term)
+  const scheduled = schedule.periods[loanMonth - 1]?.endingBalance || 0
+  const scale = scheduled > 0 ? balance / scheduled : 0
+  return schedule.periods.slice(loanMonth).map(p => p.payment * scale)
+}
+
+// Cost of repaying `balance` at the end of a 1-based loan month, ahead of maturity
+export function prepaymentPenalty(
+  tranche: DebtTranche,
+  loanMonth: number,
+  balance: number,
+  curve?: TreasuryCurvePoint[]
+): PrepaymentCost {
+  const term = tranche.loan_term_months || loanMonth
+  if (balance <= 0 || loanMonth >= term) return { penalty: 0, inLockout: false }
+  const inLockout = loanMonth < (tranche.prepayment_lockout_months || 0)
+  const remaining = term - loanMonth
+
+  switch (tranche.prepayment_type) {
+    case 'Step-Down': {
+      const schedule = tranche.prepayment_step_down?.length ? tranche.prepayment_step_down : DEFAULT_STEP_DOWN
+      const pct = schedule[Math.floor((loanMonth - 1) / 12)] || 0
+      return { penalty: balance * pct / 100, inLockout }
+    }
+    case 'Yield Maintenance': {
+      // Coupon above the Treasury matching the remaining term, for the rest of
+      // the term, discounted at that Treasury
+      const treasury = treasuryRate(curve, remaining / 12) / 100 / 12
+      const spread = Math.max(0, trancheRateForMonth(tranche, loanMonth + 1) / 100 / 12 - treasury)
+      const annuity = treasury > 0 ? (1 - Math.pow(1 + treasury, -remaining)) / treasury : remaining
+      const penalty = Math.max(balance * spread * annuity, balance * YIELD_MAINTENANCE_MINIMUM / 100)
+      return { penalty, inLockout }
+    }
+    case 'Defeasance': {
+      // Treasuries bought to cover every remaining payment, each priced off the
+      // curve at its own maturity, less the balance they replace, plus fees
+      const portfolio = remainingPayments(tranche, loanMonth, balance).reduce((total, payment, i) => {
+        const months = i + 1
+        const rate = treasuryRate(curve, months / 12) / 100 / 12
+        return total + payment / Math.pow(1 + rate, months)
+      }, 0)
+      return { penalty: Math.max(0, portfolio - balance) + (tranche.defeasance_fee || 0), inLockout }
+    }
+    default:
+      // 'Lockout then Open' and 'None' are free to prepay outside the lockout
+      return { penalty: 0, inLockout }
+  }
+}
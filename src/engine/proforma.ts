@@ -0,0 +1,720 @@
+import type { CapitalPosition, DebtTranche, Project, ProFormaRow, RefinanceEvent, ReturnsMetrics } from '../types'
+import { addMonths } from 'date-fns'
+import {
+  calculateIRR,
+  calculateEquityMultiple,
+  calculateNPV,
+  calculatePaybackYears,
+  calculatePeakEquity,
+  calculateProfitabilityIndex,
+  calculateXIRR,
+  calculateXNPV,
+  DEFAULT_DISCOUNT_RATE,
+  DEFAULT_UNLEVERED_DISCOUNT_RATE,
+} from './returns'
+import { buildPeriods, getHoldMonths, rollUpFlows, rollUpBalances, yearIndex } from './periods'
+import type { Granularity, Period } from './periods'
+import {
+  buildLoanSchedule,
+  scheduleBalance,
+  scheduleBalloon,
+  scheduleDebtService,
+  scheduleHedgeCost,
+  scheduleSweep,
+  positionRank,
+} from './debt'
+import type { LoanSchedule } from './debt'
+import type { TrancheSizing } from './sizing'
+import { prepaymentPenalty } from './prepayment'
+import { covenantCompliance, testCovenants, COVENANT_TEST_MONTHS } from './covenants'
+import type { CovenantCompliance } from './covenants'
+import { projectReserves } from './reserves'
+import type { ReserveCosts, ReserveProjection } from './reserves'
+import { applyRefinances } from './refinance'
+import type { RefinanceSummary } from './refinance'
+import { runWaterfall } from './waterfall'
+import { dispositionFee, monthlyAssetManagementFee } from './fees'
+import { solveSourcesAndUses } from './sourcesUses'
+import { developmentBudget, isDevelopment, leasedShare, TAKEOUT_ID } from './development'
+import type { DevelopmentBudget } from './development'
+import type { SourcesAndUses } from './sourcesUses'
+import type { SponsorFees } from './fees'
+import { analysisStartDate, hasRentRoll, projectRentRoll } from './rentRoll'
+import type { RentRollProjection } from './rentRoll'
+import { projectRecoveries } from './recoveries'
+import type { RecoveryProjection } from './recoveries'
+import type { WaterfallResult } from './waterfall'
+
+// ============================================================================
+// RESULT TYPES
+// ============================================================================
+
+export interface ProFormaLines {
+  gpr: number[]
+  otherIncome: number[]
+  reimbursements: number[]
+  vacancy: number[]
+  freeRent: number[]
+  egi: number[]
+  opex: number[]
+  noi: number[]
+  reserves: number[]
+  // Scheduled capital projects, each in its month
+  capex: number[]
+  leasingCosts: number[]
+  assetManagementFee: number[]
+  developmentCosts: number[]
+  cfBeforeDebt: number[]
+  debtService: number[]
+  preferredReturn: number[]
+  hedgeCosts: number[]
+  loanPayoff: number[]
+  preferredRedemption: number[]
+  cashSweep: number[]
+  constructionDraws: number[]
+  reserveDraws: number[]
+  reserveRelease: number[]
+  refinanceProceeds: number[]
+  cfAfterDebt: number[]
+}
+
+export interface ExitSummary {
+  exitMonth: number
+  exitNOI: number
+  exitCapRate: number
+  exitValue: number
+  dispositionCosts: number
+  dispositionFee: number
+  debtPayoff: number
+  // Preferred equity balance, accrued return included, redeemed from the sale
+  preferredRedemption: number
+  // Penalties on loans repaid at the sale ahead of maturity
+  prepaymentPenalty: number
+  // Names of loans still inside their prepayment lockout at the sale
+  lockedOut: string[]
+  // Undrawn lender reserves returned at the sale
+  reserveRelease: number
+  netSaleProceeds: number
+}
+
+export interface ProFormaResult {
+  holdMonths: number
+  granularity: Granularity
+  // Display columns at the project's granularity, with matching line totals
+  periods: Period[]
+  lines: ProFormaLines
+  rows: ProFormaRow[]
+  // Annual roll-up, regardless of display granularity
+  annualPeriods: Period[]
+  annual: ProFormaLines
+  // Month-by-month model; deductions are stored as negatives
+  monthly: ProFormaLines
+  // Monthly; index 0 is the acquisition (equity outflow), the last includes the sale
+  leveredCashFlows: number[]
+  // Same timing, before debt: all-in cost at close, then cash flow before debt and the net sale
+  unleveredCashFlows: number[]
+  // Date of each cash flow, from the acquisition date to the exit
+  cashFlowDates: Date[]
+  // Lease-by-lease income when a rent roll is entered
+  rentRoll: RentRollProjection | null
+  // End-of-period leased share of rent roll area (percent), by display period
+  occupancy: number[] | null
+  // Tenant expense reimbursements, when the rent roll has recoverable leases
+  recoveries: RecoveryProjection | null
+  // Loans in place at acquisition, then any placed by a refinance
+  loans: LoanSchedule[]
+  // The terms each of those loans was placed on, in the same order
+  loanTerms: DebtTranche[]
+  // How each tranche's loan amount was set, in tranche order
+  sizing: TrancheSizing[]
+  refinances: RefinanceSummary[]
+  // Each loan with covenants, tested at the end of every display period
+  covenants: CovenantCompliance[]
+  // End-of-month outstanding debt (preferred equity excluded), and its display roll-up
+  monthlyDebtBalance: number[]
+  debtBalance: number[]
+  purchasePrice: number
+  // Every use funded at closing, solved against the loans it depends on
+  sourcesUses: SourcesAndUses
+  totalUses: number
+  rateCapCost: number
+  lenderReserves: ReserveProjection
+  // Budget and schedule when the analysis is a development
+  development: DevelopmentBudget | null
+  // Debt and preferred equity funded at acquisition; the rest is common equity
+  totalDebt: number
+  totalPreferredEquity: number
+  totalEquity: number
+  // Equity the returns are measured on: the closing equity, or for a
+  // development every contribution through construction and lease-up
+  contributedEquity: number
+  // Each tranche's funding, payments and balances, senior first
+  capitalStack: CapitalLayer[]
+  fees: SponsorFees
+  exit: ExitSummary
+  returns: ReturnsMetrics
+  leverage: LeverageSummary
+  // LP/GP distributions; null until equity splits are set up
+  waterfall: WaterfallResult | null
+}
+
+// One tranche of the capital stack, by year of the hold
+export interface CapitalLayer {
+  trancheId: string
+  trancheName: string
+  position: CapitalPosition
+  funded: number
+  // Interest or preferred return paid in cash, plus principal and sweeps, each year
+  cashPaid: number[]
+  // Interest or return added to the balance each year, shortfalls included
+  accrued: number[]
+  endingBalance: number[]
+  // Repaid at maturity, redemption or a refinance before the sale
+  repaidDuringHold: number
+  payoffAtExit: number
+}
+
+// How debt changes the equity return, on Year 1 figures
+export interface LeverageSummary {
+  // Percent of purchase price and of total uses
+  ltv: number
+  ltc: number
+  // Loan-weighted Year 1 all-in rate, percent
+  costOfDebt: number | null
+  debtYield: number | null
+  dscr: number | null
+  // Levered minus unlevered IRR, percentage points
+  irrSpread: number | null
+  // Unlevered return above the cost of debt
+  positiveLeverage: boolean | null
+}
+
+const lineKeys: (keyof ProFormaLines)[] = [
+  'gpr', 'otherIncome', 'reimbursements', 'vacancy', 'freeRent', 'egi', 'opex', 'noi', 'reserves', 'capex', 'leasingCosts', 'assetManagementFee', 'developmentCosts', 'cfBeforeDebt', 'debtService', 'preferredReturn', 'hedgeCosts', 'loanPayoff', 'preferredRedemption', 'cashSweep', 'constructionDraws', 'reserveDraws', 'reserveRelease', 'refinanceProceeds', 'cfAfterDebt',
+]
+
+const emptyLines = (): ProFormaLines => ({
+  gpr: [],
+  otherIncome: [],
+  reimbursements: [],
+  vacancy: [],
+  freeRent: [],
+  egi: [],
+  opex: [],
+  noi: [],
+  reserves: [],
+  capex: [],
+  leasingCosts: [],
+  assetManagementFee: [],
+  developmentCosts: [],
+  cfBeforeDebt: [],
+  debtService: [],
+  preferredReturn: [],
+  hedgeCosts: [],
+  loanPayoff: [],
+  preferredRedemption: [],
+  cashSweep: [],
+  constructionDraws: [],
+  reserveDraws: [],
+  reserveRelease: [],
+  refinanceProceeds: [],
+  cfAfterDebt: [],
+})
+
+const rollUpLines = (monthly: ProFormaLines, periods: Period[]): ProFormaLines => {
+  const lines = emptyLines()
+  lineKeys.forEach(key => { lines[key] = rollUpFlows(monthly[key], periods) })
+  return lines
+}
+
+const sliceLines = (lines: ProFormaLines, start: number, end: number): ProFormaLines => {
+  const sliced = emptyLines()
+  lineKeys.forEach(key => { sliced[key] = lines[key].slice(start, end) })
+  return sliced
+}
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0)
+
+// Statement rows rolled up to `periods`; lines that never move are left out
+export function proFormaRows(
+  result: Pick<ProFormaResult, 'monthly' | 'monthlyDebtBalance' | 'development' | 'loans'>,
+  periods: Period[]
+): ProFormaRow[] {
+  const lines = rollUpLines(result.monthly, periods)
+  return [
+    { label: 'Gross Potential Rent', values: lines.gpr },
+    { label: 'Other Income', values: lines.otherIncome },
+    ...(lines.reimbursements.some(v => v !== 0)
+      ? [{ label: 'Expense Reimbursements', values: lines.reimbursements }]
+      : []),
+    { label: 'Less: Vacancy', values: lines.vacancy },
+    ...(lines.freeRent.some(v => v !== 0)
+      ? [{ label: 'Less: Free Rent', values: lines.freeRent }]
+      : []),
+    { label: 'Effective Gross Income', values: lines.egi, isSubtotal: true },
+    { label: 'Less: Operating Expenses', values: lines.opex },
+    { label: 'Net Operating Income', values: lines.noi, isTotal: true },
+    { label: 'Less: Capital Reserves', values: lines.reserves },
+    ...(lines.capex.some(v => v !== 0)
+      ? [{ label: 'Less: Capital Expenditures', values: lines.capex }]
+      : []),
+    ...(lines.leasingCosts.some(v => v !== 0)
+      ? [{ label: 'Less: TI & Leasing Commissions', values: lines.leasingCosts }]
+      : []),
+    ...(lines.assetManagementFee.some(v => v !== 0)
+      ? [{ label: 'Less: Asset Management Fee', values: lines.assetManagementFee }]
+      : []),
+    ...(result.development
+      ? [{ label: 'Less: Development Costs', values: lines.developmentCosts }]
+      : []),
+    { label: 'Less: Debt Service', values: lines.debtService },
+    ...(result.loans.some(l => l.position === 'Preferred Equity')
+      ? [{ label: 'Less: Preferred Equity Return', values: lines.preferredReturn }]
+      : []),
+    ...(lines.hedgeCosts.some(v => v !== 0)
+      ? [{ label: 'Less: Rate Cap Replacement', values: lines.hedgeCosts }]
+      : []),
+    ...(lines.loanPayoff.some(v => v !== 0)
+      ? [{ label: 'Less: Loan Payoff at Maturity', values: lines.loanPayoff }]
+      : []),
+    ...(lines.preferredRedemption.some(v => v !== 0)
+      ? [{ label: 'Less: Preferred Equity Redemption', values: lines.preferredRedemption }]
+      : []),
+    ...(lines.cashSweep.some(v => v !== 0)
+      ? [{ label: 'Less: Covenant Cash Sweep', values: lines.cashSweep }]
+      : []),
+    ...(lines.constructionDraws.some(v => v !== 0)
+      ? [{ label: 'Plus: Construction Loan Draws', values: lines.constructionDraws }]
+      : []),
+    ...(lines.reserveDraws.some(v => v !== 0)
+      ? [{ label: 'Plus: Lender Reserve Draws', values: lines.reserveDraws }]
+      : []),
+    ...(lines.reserveRelease.some(v => v !== 0)
+      ? [{ label: 'Plus: Lender Reserve Release', values: lines.reserveRelease }]
+      : []),
+    ...(lines.refinanceProceeds.some(v => v !== 0)
+      ? [{ label: 'Plus: Net Refinance Proceeds', values: lines.refinanceProceeds }]
+      : []),
+    { label: 'Cash Flow After Debt', values: lines.cfAfterDebt, isTotal: true },
+    { label: 'Loan Balance (End of Period)', values: rollUpBalances(result.monthlyDebtBalance, periods) },
+  ]
+}
+
+const summarizeLayer = (loan: LoanSchedule, annualPeriods: Period[], holdMonths: number): CapitalLayer => {
+  const inPeriod = (period: Period) =>
+    loan.periods.filter(p => p.month >= period.startMonth && p.month <= period.endMonth)
+  const held = loan.periods.filter(p => p.month <= holdMonths)
+  return {
+    trancheId: loan.trancheId,
+    trancheName: loan.trancheName,
+    position: loan.position,
+    funded: loan.loanAmount,
+    cashPaid: annualPeriods.map(period => sum(inPeriod(period).map(p => p.interestPaid + p.principal + p.sweep))),
+    accrued: annualPeriods.map(period => sum(inPeriod(period).map(p => p.interestAccrued))),
+    endingBalance: annualPeriods.map(period => scheduleBalance(loan, period.endMonth)),
+    repaidDuringHold: sum(held.map(p => p.balloon + p.prepayment)),
+    payoffAtExit: scheduleBalance(loan, holdMonths),
+  }
+}
+
+// ============================================================================
+// ENGINE
+// ============================================================================
+
+export function runProForma(project: Project): ProFormaResult {
+  const { analysis, financing, income, expenses, capital, growth, exit, property } = project
+
+  const holdMonths = getHoldMonths(analysis)
+  const granularity = analysis?.granularity || 'annual'
+  // Project one extra year so forward NOI is available at exit
+  const projectionMonths = holdMonths + 12
+
+  // Base values
+  // In-place tenants are projected lease by lease; summary GPR stands in when there are none
+  const tenantRent = income?.tenants?.reduce((sum, t) => sum + ((t.base_rent_monthly || 0) * 12), 0) || 0
+  const summaryRent = tenantRent > 0 ? 0 : income?.summary?.gross_potential_rent || 0
+  const otherIncome = income?.other_income?.reduce((sum, i) => sum + (i.amount_annual || 0), 0) ||
+                      income?.summary?.total_other_income || 0
+  // A rent roll models downtime lease by lease, so it can replace the general vacancy rate
+  const rentRoll = hasRentRoll(project) ? projectRentRoll(project, projectionMonths) : null
+  const vacancyRate = rentRoll && income?.vacancy?.vacancy_input_method === 'Calculated from rent roll'
+    ? 0
+    : (income?.vacancy?.vacancy_rate_single ?? 5) / 100
+  const rentGrowth = (growth?.rent_growth_rate ?? 3) / 100
+  const expenseGrowth = (growth?.expense_growth_rate ?? 3) / 100
+  const recoveries = rentRoll ? projectRecoveries(project, rentRoll, expenseGrowth, projectionMonths) : null
+
+  // Base expenses
+  let baseExpenses = 0
+  baseExpenses += expenses?.real_estate_taxes?.amount || 0
+  baseExpenses += expenses?.insurance?.amount || 0
+  baseExpenses += (expenses?.utilities?.electric?.amount || 0) +
+                  (expenses?.utilities?.gas?.amount || 0) +
+                  (expenses?.utilities?.water_sewer?.amount || 0) +
+                  (expenses?.utilities?.trash?.amount || 0)
+  baseExpenses += expenses?.repairs_maintenance?.amount || 0
+  baseExpenses += expenses?.administrative?.amount || 0
+  baseExpenses += expenses?.marketing_leasing?.amount || 0
+
+  // Capital reserves
+  const rentableSF = property?.sizing?.rentable_sf || 0
+  const reservePerSF = capital?.reserve_per_sf || 0.25
+  const baseReserve = rentableSF * reservePerSF
+  // Scheduled projects land in their hold month; a blank month is the first of the year
+  const scheduledCapex = new Array(projectionMonths).fill(0)
+  for (const event of capital?.scheduled_capex || []) {
+    const month = (event.year - 1) * 12 + (event.month || 1)
+    if (month >= 1 && month <= projectionMonths) scheduledCapex[month - 1] += event.amount || 0
+  }
+
+  // A development collects nothing until completion and then leases up; its
+  // expenses and reserves start at completion
+  const development = isDevelopment(project) ? developmentBudget(project, holdMonths) : null
+
+  // Exit
+  const exitCapRate = exit?.exit_cap_rate || 6.5
+  const dispositionCostsPct = ((exit?.selling_costs?.broker_commission_pct || 2) +
+                                (exit?.selling_costs?.transfer_taxes_pct || 0.5)) / 100
+
+  // Build monthly operations; growth steps on each anniversary
+  const projected = emptyLines()
+  for (let month = 1; month <= projectionMonths; month++) {
+    const year = yearIndex(month)
+    const leased = development ? leasedShare(development, month) : 1
+    const operating = !development || month > development.completionMonth ? 1 : 0
+    const gpr = (summaryRent / 12 * Math.pow(1 + rentGrowth, year) +
+                (rentRoll ? rentRoll.scheduledRent[month - 1] : 0)) * leased
+    const other = otherIncome / 12 * Math.pow(1 + rentGrowth, year) * leased
+    const vacancy = gpr * vacancyRate
+    const freeRent = rentRoll ? rentRoll.freeRent[month - 1] * leased : 0
+    const reimbursements = recoveries ? recoveries.monthly[month - 1] * leased : 0
+    const egi = gpr + other + reimbursements - vacancy - freeRent
+    const opex = baseExpenses / 12 * Math.pow(1 + expenseGrowth, year) * operating
+    const noi = egi - opex
+    const reserves = baseReserve / 12 * Math.pow(1 + expenseGrowth, year) * operating
+    const leasingCosts = rentRoll
+      ? (rentRoll.tenantImprovements[month - 1] + rentRoll.leasingCommissions[month - 1]) * operating
+      : 0
+
+    projected.gpr.push(gpr)
+    projected.otherIncome.push(other)
+    projected.reimbursements.push(reimbursements)
+    projected.vacancy.push(-vacancy)
+    projected.freeRent.push(-freeRent)
+    projected.egi.push(egi)
+    projected.opex.push(-opex)
+    projected.noi.push(noi)
+    projected.reserves.push(-reserves)
+    projected.capex.push(-scheduledCapex[month - 1])
+    projected.leasingCosts.push(-leasingCosts)
+    projected.developmentCosts.push(-(development?.monthly[month - 1] || 0))
+  }
+  const year1NOI = sum(projected.noi.slice(0, 12))
+  // A development is sized and valued on the first twelve months after stabilization
+  const stabilizedStart = development ? Math.min(development.stabilizationMonth, projectionMonths - 12) : 0
+  const stabilizedNOI = sum(projected.noi.slice(stabilizedStart, stabilizedStart + 12))
+  const stabilizedCapRate = project.development?.takeout_cap_rate || exitCapRate
+  const sizingValue = development
+    ? stabilizedNOI / (stabilizedCapRate / 100)
+    : project.acquisition?.purchase_price || 0
+
+  // Debt and equity at closing; sized tranches solve their amount from Year 1
+  // (or stabilized) NOI, value and total uses, which themselves depend on the loans
+  const curves = financing?.forward_curves
+  const reserveCosts: ReserveCosts = {
+    taxes: Array.from({ length: holdMonths }, (_, i) =>
+      (expenses?.real_estate_taxes?.amount || 0) / 12 * Math.pow(1 + expenseGrowth, yearIndex(i + 1))
+    ),
+    insurance: Array.from({ length: holdMonths }, (_, i) =>
+      (expenses?.insurance?.amount || 0) / 12 * Math.pow(1 + expenseGrowth, yearIndex(i + 1))
+    ),
+    capex: projected.reserves.slice(0, holdMonths).map((v, i) => -v - projected.capex[i]),
+    leasing: projected.leasingCosts.slice(0, holdMonths).map(v => -v),
+  }
+  const sourcesUses = solveSourcesAndUses(
+    project, { noi: stabilizedNOI, value: sizingValue }, reserveCosts, holdMonths, development || undefined
+  )
+  const construction = sourcesUses.construction
+  const { sizing, totalUses, totalDebt, totalPreferredEquity, purchasePrice, rateCapCost } = sourcesUses
+  const sized = sourcesUses.tranches
+  const isPreferred = (position: CapitalPosition | undefined) => position === 'Preferred Equity'
+  const acqFee = sourcesUses.acquisitionFee
+  // Financing costs and lender reserves stay out of the property-level return
+  const propertyCost = sourcesUses.propertyCost
+  const totalEquity = sourcesUses.equity
+  const assetManagementFee = monthlyAssetManagementFee(financing, totalEquity)
+  const cfBeforeDebt = projected.noi.map((noi, i) =>
+    noi + projected.reserves[i] + projected.capex[i] + projected.leasingCosts[i] - assetManagementFee + projected.developmentCosts[i]
+  )
+
+  // Layers are scheduled senior first. Junior layers are paid from the cash
+  // left after the layers above them and accrue whatever it can't cover.
+  const payOrder = sized.map((_, i) => i).sort((a, b) =>
+    positionRank(sized[a].position) - positionRank(sized[b].position) || a - b
+  )
+  const sweeps = sized.map(() => new Array(holdMonths).fill(0))
+  const scheduleLayers = () => {
+    const layers: LoanSchedule[] = []
+    const cashLeft = [...cfBeforeDebt]
+    for (const i of payOrder) {
+      const junior = positionRank(sized[i].position) > 0
+      const loan = buildLoanSchedule(sized[i], holdMonths, 0, curves, junior ? cashLeft : undefined, sweeps[i])
+      for (const p of loan.periods) cashLeft[p.month - 1] -= p.interestPaid + p.principal + p.hedgeCost + p.sweep
+      layers[i] = loan
+    }
+    return { layers, cashLeft }
+  }
+  let layered = scheduleLayers()
+
+  // A failed quarterly test sweeps excess cash to that loan's principal, senior
+  // first, until the next test. Each window is swept from the cash left as of
+  // its test, then the layers are rescheduled once. Construction loans are
+  // drawn, not swept.
+  if (!construction && sized.some(t => t.covenants?.cash_sweep_pct)) {
+    for (let test = COVENANT_TEST_MONTHS; test < holdMonths; test += COVENANT_TEST_MONTHS) {
+      const breached = payOrder.filter(i =>
+        sized[i].covenants?.cash_sweep_pct &&
+        testCovenants(layered.layers, sized, i, test, projected.noi, exitCapRate).some(t => t.breached)
+      )
+      if (breached.length === 0) continue
+      const balances = breached.map(i => scheduleBalance(layered.layers[i], test))
+      for (let month = test + 1; month <= Math.min(test + COVENANT_TEST_MONTHS, holdMonths); month++) {
+        let excess = Math.max(0, layered.cashLeft[month - 1])
+        breached.forEach((i, b) => {
+          const swept = Math.min(excess * sized[i].covenants.cash_sweep_pct! / 100, balances[b])
+          sweeps[i][month - 1] = swept
+          balances[b] -= swept
+          excess -= swept
+        })
+      }
+      layered = scheduleLayers()
+    }
+  }
+  const initialLoans = construction ? construction.loans : layered.layers
+
+  // Refinances retire loans mid-hold and place new ones sized on forward NOI.
+  // A development's permanent loan takes out its construction debt at stabilization.
+  const takeoutLoan = project.development?.takeout_loan
+  const takeout: RefinanceEvent[] = development && takeoutLoan && development.stabilizationMonth < holdMonths
+    ? [{
+        id: TAKEOUT_ID,
+        month: development.stabilizationMonth,
+        retired_tranche_ids: sized.filter(t => !isPreferred(t.position)).map(t => t.id),
+        valuation_cap_rate: project.development?.takeout_cap_rate ?? null,
+        new_loan: takeoutLoan,
+      }]
+    : []
+  const refinance = applyRefinances(
+    project, initialLoans, sized, projected.noi, holdMonths, exitCapRate, [...takeout, ...(financing?.refinances || [])]
+  )
+  const loans = refinance.loans
+  const debtLoans = loans.filter(l => !isPreferred(l.position))
+  const preferredLoans = loans.filter(l => isPreferred(l.position))
+  const lenderReserves = projectReserves(sourcesUses.reserveDeposits, loans, reserveCosts, holdMonths)
+
+  for (let month = 1; month <= projectionMonths; month++) {
+    const debtService = debtLoans.reduce((sum, l) => sum + scheduleDebtService(l, month), 0)
+    const preferredReturn = preferredLoans.reduce((sum, l) => sum + scheduleDebtService(l, month), 0)
+    const hedgeCosts = loans.reduce((sum, l) => sum + scheduleHedgeCost(l, month), 0)
+    const loanPayoff = debtLoans.reduce((sum, l) => sum + scheduleBalloon(l, month), 0)
+    const preferredRedemption = preferredLoans.reduce((sum, l) => sum + scheduleBalloon(l, month), 0)
+    const cashSweep = loans.reduce((sum, l) => sum + scheduleSweep(l, month), 0)
+    const constructionDraws = construction?.loanDraws[month] || 0
+    const reserveDraws = lenderReserves.draws[month - 1] || 0
+    const reserveRelease = lenderReserves.releases[month - 1] || 0
+    const refinanceProceeds = refinance.proceeds[month - 1] || 0
+    projected.assetManagementFee.push(-assetManagementFee)
+    projected.cfBeforeDebt.push(cfBeforeDebt[month - 1])
+    projected.debtService.push(-debtService)
+    projected.preferredReturn.push(-preferredReturn)
+    projected.hedgeCosts.push(-hedgeCosts)
+    projected.loanPayoff.push(-loanPayoff)
+    projected.preferredRedemption.push(-preferredRedemption)
+    projected.cashSweep.push(-cashSweep)
+    projected.constructionDraws.push(constructionDraws)
+    projected.reserveDraws.push(reserveDraws)
+    projected.reserveRelease.push(reserveRelease)
+    projected.refinanceProceeds.push(refinanceProceeds)
+    projected.cfAfterDebt.push(
+      cfBeforeDebt[month - 1] - debtService - preferredReturn - hedgeCosts - loanPayoff - preferredRedemption - cashSweep +
+        constructionDraws + reserveDraws + reserveRelease + refinanceProceeds
+    )
+  }
+  const monthly = sliceLines(projected, 0, holdMonths)
+  const refinanceFees = sum(refinance.refinances.map(r => r.refinanceFee))
+  const cmFee = development?.managementFee || 0
+
+  // Exit calculations
+  const exitNOI = exit?.valuation_method === 'Cap Rate on Trailing NOI'
+    ? sum(projected.noi.slice(Math.max(0, holdMonths - 12), holdMonths))
+    : sum(projected.noi.slice(holdMonths, holdMonths + 12))
+  const exitValue = exitNOI / (exitCapRate / 100)
+  const dispositionCosts = exitValue * dispositionCostsPct
+  const dispFee = dispositionFee(financing, exitValue)
+  const debtPayoff = debtLoans.reduce((sum, l) => sum + scheduleBalance(l, holdMonths), 0)
+  const preferredPayoff = preferredLoans.reduce((sum, l) => sum + scheduleBalance(l, holdMonths), 0)
+
+  // Loans outstanding at a sale before maturity are prepaid on their own terms
+  let exitPrepayment = 0
+  const exitLockedOut: string[] = []
+  loans.forEach((l, i) => {
+    const cost = prepaymentPenalty(
+      refinance.terms[i], holdMonths - l.fundingMonth, scheduleBalance(l, holdMonths), financing?.treasury_curve
+    )
+    exitPrepayment += cost.penalty
+    if (cost.inLockout) exitLockedOut.push(l.trancheName)
+  })
+  const netSaleProceeds = exitValue - dispositionCosts - dispFee - debtPayoff - preferredPayoff - exitPrepayment +
+    lenderReserves.exitRelease
+
+  // Levered and unlevered cash flows, dated monthly from the acquisition. A
+  // development's later equity and budget draws are already in the monthly flows.
+  const leveredCashFlows = [-(construction ? construction.equity[0] : totalEquity), ...monthly.cfAfterDebt]
+  leveredCashFlows[holdMonths] += netSaleProceeds
+  const unleveredCashFlows = [-(propertyCost - sourcesUses.developmentCosts), ...monthly.cfBeforeDebt]
+  unleveredCashFlows[holdMonths] += exitValue - dispositionCosts - dispFee
+  const startDate = analysisStartDate(project)
+  const cashFlowDates = leveredCashFlows.map((_, month) => addMonths(startDate, month))
+
+  const leveredRate = analysis?.discount_rate_levered ?? DEFAULT_DISCOUNT_RATE
+  const unleveredRate = analysis?.discount_rate_unlevered ?? DEFAULT_UNLEVERED_DISCOUNT_RATE
+  const leveredNPV = calculateNPV(leveredCashFlows, leveredRate, 12)
+  const unleveredNPV = calculateNPV(unleveredCashFlows, unleveredRate, 12)
+
+  // A development keeps calling equity after closing, so its multiple and
+  // yields are on everything contributed rather than the closing requirement
+  const contributedEquity = construction
+    ? -sum(leveredCashFlows.filter(cf => cf < 0))
+    : totalEquity
+
+  const holdYears = holdMonths / 12
+  // Refinance proceeds and development funding are capital events, not operating yield
+  const capitalFlows = sum(monthly.refinanceProceeds) + sum(monthly.developmentCosts) + sum(monthly.constructionDraws)
+  const avgCashOnCash = contributedEquity > 0
+    ? ((sum(monthly.cfAfterDebt) - capitalFlows) / holdYears) / contributedEquity * 100
+    : 0
+
+  const returns: ReturnsMetrics = {
+    unlevered_irr: calculateIRR(unleveredCashFlows, 12),
+    unlevered_equity_multiple: calculateEquityMultiple(unleveredCashFlows, propertyCost),
+    levered_irr: calculateIRR(leveredCashFlows, 12),
+    levered_equity_multiple: calculateEquityMultiple(leveredCashFlows, contributedEquity),
+    average_cash_on_cash: avgCashOnCash,
+    going_in_cap_rate: purchasePrice > 0 ? (year1NOI / purchasePrice) * 100 : 0,
+    exit_cap_rate: exitCapRate,
+    yield_on_cost: propertyCost > 0 ? (stabilizedNOI / propertyCost) * 100 : null,
+    peak_equity: calculatePeakEquity(leveredCashFlows),
+    payback_period_years: calculatePaybackYears(leveredCashFlows, 12),
+    levered_npv: leveredNPV,
+    levered_profitability_index: calculateProfitabilityIndex(leveredNPV, contributedEquity),
+    levered_xirr: calculateXIRR(leveredCashFlows, cashFlowDates),
+    levered_xnpv: calculateXNPV(leveredCashFlows, cashFlowDates, leveredRate),
+    unlevered_npv: unleveredNPV,
+    unlevered_profitability_index: calculateProfitabilityIndex(unleveredNPV, propertyCost),
+  }
+
+  const year1DebtService = -sum(monthly.debtService.slice(0, 12))
+  const leverage: LeverageSummary = {
+    ltv: sizingValue > 0 ? totalDebt / sizingValue * 100 : 0,
+    ltc: totalUses > 0 ? totalDebt / totalUses * 100 : 0,
+    costOfDebt: totalDebt > 0
+      ? initialLoans
+          .filter(l => !isPreferred(l.position))
+          .reduce((total, l) => total + (l.periods[0]?.rate || 0) * l.loanAmount, 0) / totalDebt
+      : null,
+    debtYield: totalDebt > 0 ? year1NOI / totalDebt * 100 : null,
+    dscr: year1DebtService > 0 ? year1NOI / year1DebtService : null,
+    irrSpread: returns.levered_irr !== null && returns.unlevered_irr !== null
+      ? returns.levered_irr - returns.unlevered_irr
+      : null,
+    positiveLeverage: null,
+  }
+  if (leverage.costOfDebt !== null && returns.unlevered_irr !== null) {
+    leverage.positiveLeverage = returns.unlevered_irr > leverage.costOfDebt
+  }
+
+  // Roll up for display
+  const periods = buildPeriods(holdMonths, granularity)
+  const lines = rollUpLines(monthly, periods)
+  const annualPeriods = buildPeriods(holdMonths, 'annual')
+  const annual = rollUpLines(monthly, annualPeriods)
+  const monthlyDebtBalance = Array.from({ length: holdMonths }, (_, i) =>
+    debtLoans.reduce((sum, l) => sum + scheduleBalance(l, i + 1), 0)
+  )
+  const debtBalance = rollUpBalances(monthlyDebtBalance, periods)
+
+  // With summary income, suites outside the rent roll are taken as leased
+  const occupiedOutsideRentRoll = summaryRent > 0 ? Math.max(0, rentableSF - (rentRoll?.totalSF || 0)) : 0
+  const occupancyBasis = occupiedOutsideRentRoll + (rentRoll?.totalSF || 0)
+  const occupancy = rentRoll && occupancyBasis > 0
+    ? rollUpBalances(rentRoll.leasedSF.slice(0, holdMonths), periods)
+        .map(sf => (sf + occupiedOutsideRentRoll) / occupancyBasis * 100)
+    : null
+
+  const rows = proFormaRows({ monthly, monthlyDebtBalance, development, loans }, periods)
+
+  return {
+    holdMonths,
+    granularity,
+    periods,
+    lines,
+    rows,
+    annualPeriods,
+    annual,
+    monthly,
+    leveredCashFlows,
+    unleveredCashFlows,
+    cashFlowDates,
+    rentRoll,
+    occupancy,
+    recoveries,
+    loans,
+    loanTerms: refinance.terms,
+    sizing,
+    refinances: refinance.refinances,
+    covenants: covenantCompliance(
+      loans, refinance.terms, periods, projected.noi, exitCapRate, development?.stabilizationMonth
+    ),
+    monthlyDebtBalance,
+    debtBalance,
+    purchasePrice,
+    sourcesUses,
+    totalUses,
+    rateCapCost,
+    lenderReserves,
+    development,
+    totalDebt,
+    totalPreferredEquity,
+    totalEquity,
+    contributedEquity,
+    capitalStack: [...loans]
+      .sort((a, b) => positionRank(a.position) - positionRank(b.position))
+      .map(l => summarizeLayer(l, annualPeriods, holdMonths)),
+    fees: {
+      acquisitionFee: acqFee,
+      constructionManagementFee: cmFee,
+      assetManagementFee: -sum(monthly.assetManagementFee),
+      refinanceFee: refinanceFees,
+      dispositionFee: dispFee,
+      total: acqFee + cmFee - sum(monthly.assetManagementFee) + refinanceFees + dispFee,
+      annualAssetManagement: annual.assetManagementFee.map(v => -v),
+    },
+    exit: {
+      exitMonth: holdMonths,
+      exitNOI,
+      exitCapRate,
+      exitValue,
+      dispositionCosts,
+      dispositionFee: dispFee,
+      debtPayoff,
+      preferredRedemption: preferredPayoff,
+      prepaymentPenalty: exitPrepayment,
+      lockedOut: exitLockedOut,
+      reserveRelease: lenderReserves.exitRelease,
+      netSaleProceeds,
+    },
+    returns,
+    leverage,
+    waterfall: runWaterfall(financing, leveredCashFlows),
+  }
+}
@@ -0,0 +1,112 @@
+import type { ExpenseCategory, LeaseType, Project, Tenant } from '../types'
+import { yearIndex } from './periods'
+import type { RentRollProjection } from './rentRoll'
+
+// ============================================================================
+// EXPENSE RECOVERIES
+// ============================================================================
+
+export type RecoveryPool = 'taxes' | 'insurance' | 'cam'
+
+export interface TenantRecovery {
+  tenantId: string
+  tenantName: string
+  leaseType: LeaseType
+  // Percent of the building's recoverable expenses
+  proRataShare: number
+  year1: Record<RecoveryPool, number> & { total: number }
+  monthly: number[]
+}
+
+export interface RecoveryProjection {
+  monthly: number[]
+  tenants: TenantRecovery[]
+}
+
+// Pools each lease type reimburses; Modified Gross pays increases over a base year
+const poolsByLeaseType: Partial<Record<LeaseType, RecoveryPool[]>> = {
+  'NNN (Triple Net)': ['taxes', 'insurance', 'cam'],
+  'Absolute Net': ['taxes', 'insurance', 'cam'],
+  'NN (Double Net)': ['taxes', 'insurance'],
+  'N (Single Net)': ['taxes'],
+  'Modified Gross': ['taxes', 'insurance', 'cam'],
+}
+
+// Recoverable portion of a category; taxes, insurance and CAM default to fully recoverable
+const recoverable = (category: Partial<ExpenseCategory> | undefined, defaultPct: number) =>
+  (category?.amount || 0) * (category?.recoverable_pct ?? defaultPct) / 100
+
+// Annual recoverable expense in each pool at Year 1 levels
+export const recoverablePools = (project: Project): Record<RecoveryPool, number> => {
+  const expenses = project.expenses
+  const utilities = expenses?.utilities
+  return {
+    taxes: recoverable(expenses?.real_estate_taxes, 100),
+    insurance: recoverable(expenses?.insurance, 100),
+    cam: recoverable(utilities?.electric, 100) +
+         recoverable(utilities?.gas, 100) +
+         recoverable(utilities?.water_sewer, 100) +
+         recoverable(utilities?.trash, 100) +
+         recoverable(expenses?.repairs_maintenance, 100) +
+         recoverable(expenses?.administrative, 0) +
+         recoverable(expenses?.marketing_leasing, 0),
+  }
+}
+
+const tenantPools = (tenant: Tenant): RecoveryPool[] =>
+  (poolsByLeaseType[tenant.lease_type] || []).filter(pool =>
+    (pool === 'taxes' && tenant.tax_recoverable) ||
+    (pool === 'insurance' && tenant.insurance_recoverable) ||
+    (pool === 'cam' && tenant.cam_recoverable)
+  )
+
+// Bills each tenant its pro rata share of recoverable expenses, growing at
+// `expenseGrowth` and weighted by the suite's expected occupancy
+export function projectRecoveries(
+  project: Project,
+  rentRoll: RentRollProjection,
+  expenseGrowth: number,
+  months: number
+): RecoveryProjection {
+  const pools = recoverablePools(project)
+  const buildingSF = project.property?.sizing?.rentable_sf || 0
+  const poolForMonth = (pool: RecoveryPool, year: number) => pools[pool] / 12 * Math.pow(1 + expenseGrowth, year)
+
+  const result: RecoveryProjection = { monthly: new Array(months).fill(0), tenants: [] }
+
+  for (const tenant of project.income?.tenants || []) {
+    const projection = rentRoll.tenants.find(t => t.tenantId === tenant.id)
+    if (!projection) continue
+    const share = tenant.pro_rata_share ??
+      (buildingSF > 0 ? (tenant.rentable_sf || 0) / buildingSF * 100 : 0)
+    const billed = tenantPools(tenant)
+    const isBaseYearStop = tenant.lease_type === 'Modified Gross'
+
+    const recovery: TenantRecovery = {
+      tenantId: tenant.id,
+      tenantName: projection.tenantName,
+      leaseType: tenant.lease_type,
+      proRataShare: share,
+      year1: { taxes: 0, insurance: 0, cam: 0, total: 0 },
+      monthly: new Array(months).fill(0),
+    }
+
+    for (let month = 1; month <= months; month++) {
+      const occupancy = projection.occupancy[month - 1]
+      if (occupancy === 0) continue
+      const year = yearIndex(month)
+      const baseYear = yearIndex(projection.leaseStart[month - 1])
+      for (const pool of billed) {
+        const stop = isBaseYearStop ? poolForMonth(pool, baseYear) : 0
+        const amount = Math.max(0, poolForMonth(pool, year) - stop) * share / 100 * occupancy
+        recovery.monthly[month - 1] += amount
+        if (month <= 12) recovery.year1[pool] += amount
+      }
+      result.monthly[month - 1] += recovery.monthly[month - 1]
+    }
+    recovery.year1.total = recovery.year1.taxes + recovery.year1.insurance + recovery.year1.cam
+    result.tenants.push(recovery)
+  }
+
+  return result
+}
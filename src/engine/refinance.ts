@@ -0,0 +1,120 @@
+import type { DebtTranche, Project, RefinanceEvent } from '../types'
+import { buildLoanSchedule, retireSchedule, scheduleBalance, upfrontCapCost } from './debt'
+import type { LoanSchedule } from './debt'
+import { prepaymentPenalty } from './prepayment'
+import { sizeTranche } from './sizing'
+import type { TrancheSizing } from './sizing'
+import { refinanceFee } from './fees'
+import { financingCosts } from './sourcesUses'
+
+// ============================================================================
+// REFINANCE EVENTS
+// ============================================================================
+
+export interface RefinanceSummary {
+  id: string
+  month: number
+  loanName: string
+  // Then-current value: forward 12-month NOI over the valuation cap rate
+  forwardNOI: number
+  capRate: number
+  value: number
+  sizing: TrancheSizing
+  newLoanAmount: number
+  // Balances repaid and the prepayment penalties on them
+  payoff: number
+  prepaymentPenalty: number
+  // Names of repaid loans still inside their prepayment lockout
+  lockedOut: string[]
+  // Origination, rate cap and other costs on the new loan, and the sponsor's refinance fee
+  loanCosts: number
+  refinanceFee: number
+  // New loan less payoff, penalties and costs; paid to equity when positive
+  netProceeds: number
+}
+
+export interface RefinanceResult {
+  // Loans in place at acquisition followed by each refinance loan
+  loans: LoanSchedule[]
+  // Sized terms behind each loan, in the same order
+  terms: DebtTranche[]
+  refinances: RefinanceSummary[]
+  // Net refinance proceeds by hold month (index 0 is month 1)
+  proceeds: number[]
+}
+
+// Applies the project's refinances, or `events` when given, in month order.
+// `terms` holds the sized tranche behind each loan so prepayment penalties
+// follow the right terms.
+export function applyRefinances(
+  project: Project,
+  loans: LoanSchedule[],
+  terms: DebtTranche[],
+  noi: number[],
+  holdMonths: number,
+  exitCapRate: number,
+  events: RefinanceEvent[] = project.financing?.refinances || []
+): RefinanceResult {
+  const scheduled = events
+    .filter(e => e.month !== null && e.month >= 1 && e.month < holdMonths)
+    .sort((a, b) => a.month! - b.month!)
+
+  const curves = project.financing?.forward_curves
+  let current = [...loans]
+  const allTerms = [...terms]
+  const refinances: RefinanceSummary[] = []
+  const proceeds = new Array(holdMonths).fill(0)
+
+  for (const event of scheduled) {
+    const month = event.month!
+    const retired = new Set(event.retired_tranche_ids)
+    let payoff = 0
+    let penalty = 0
+    const lockedOut: string[] = []
+
+    current = current.map((loan, i) => {
+      if (retired.size > 0 && !retired.has(loan.trancheId)) return loan
+      const balance = loan.retiredMonth === null ? scheduleBalance(loan, month) : 0
+      if (balance <= 0 || month <= loan.fundingMonth) return loan
+      const cost = prepaymentPenalty(allTerms[i], month - loan.fundingMonth, balance, project.financing?.treasury_curve)
+      payoff += balance
+      penalty += cost.penalty
+      if (cost.inLockout) lockedOut.push(loan.trancheName)
+      return retireSchedule(loan, month)
+    })
+
+    // The lender sizes on the next twelve months of NOI; there's no cost basis, so LTC reads value
+    const forwardNOI = noi.slice(month, month + 12).reduce((sum, v) => sum + v, 0)
+    const capRate = event.valuation_cap_rate || exitCapRate
+    const value = capRate > 0 ? forwardNOI / (capRate / 100) : 0
+    const sizing = sizeTranche(event.new_loan, { noi: forwardNOI, value, cost: value }, curves, month)
+    const newLoanAmount = sizing.loanAmount
+    const tranche = { ...event.new_loan, loan_amount: newLoanAmount }
+    current.push(buildLoanSchedule(tranche, holdMonths - month, month, curves))
+    allTerms.push(tranche)
+
+    const loanCosts = financingCosts(tranche, newLoanAmount) + upfrontCapCost(tranche)
+    const fee = refinanceFee(project.financing, newLoanAmount)
+    const netProceeds = newLoanAmount - payoff - penalty - loanCosts - fee
+    proceeds[month - 1] += netProceeds
+
+    refinances.push({
+      id: event.id,
+      month,
+      loanName: event.new_loan.tranche_name,
+      forwardNOI,
+      capRate,
+      value,
+      sizing,
+      newLoanAmount,
+      payoff,
+      prepaymentPenalty: penalty,
+      lockedOut,
+      loanCosts,
+      refinanceFee: fee,
+      netProceeds,
+    })
+  }
+
+  return { loans: current, terms: allTerms, refinances, proceeds }
+}
@@ -0,0 +1,235 @@
+import { differenceInCalendarMonths, isValid, parseISO } from 'date-fns'
+import type { Project, RenewalOption } from '../types'
+import { yearIndex } from './periods'
+
+// ============================================================================
+// RENT ROLL
+// ============================================================================
+
+export interface LeaseExpiration {
+  tenantId: string
+  tenantName: string
+  // 1-based model month in which the lease expires
+  month: number
+  sf: number
+  expiringRent: number
+}
+
+export interface TenantProjection {
+  tenantId: string
+  tenantName: string
+  rent: number[]
+  // Expected share of the suite that is leased (rollover downtime lowers it)
+  occupancy: number[]
+  // Model month the lease in force began; can be zero or negative for in-place leases
+  leaseStart: number[]
+}
+
+export interface RentRollProjection {
+  // Monthly, 1-based months stored at index month - 1; all amounts positive
+  scheduledRent: number[]
+  freeRent: number[]
+  tenantImprovements: number[]
+  leasingCommissions: number[]
+  // Expected leased area each month, against the rent roll's total area
+  leasedSF: number[]
+  totalSF: number
+  expirations: LeaseExpiration[]
+  // In-place tenants and vacant suites
+  tenants: TenantProjection[]
+}
+
+const DEFAULT_LEASE_TERM_MONTHS = 60
+
+// Model month (1-based) containing a date, relative to the analysis start
+const modelMonth = (date: string, start: Date): number | null => {
+  if (!date) return null
+  const parsed = parseISO(date)
+  return isValid(parsed) ? differenceInCalendarMonths(parsed, start) + 1 : null
+}
+
+export const analysisStartDate = (project: Project): Date => {
+  const parsed = parseISO(project.acquisition?.acquisition_date || '')
+  return isValid(parsed) ? parsed : new Date()
+}
+
+// True when the rent roll carries enough data to drive income lease by lease
+export const hasRentRoll = (project: Project): boolean =>
+  (project.income?.tenants || []).some(t => (t.base_rent_monthly || 0) > 0) ||
+  (project.income?.vacant_spaces || []).some(s => (s.sf || 0) > 0)
+
+// Rent on a renewal option, or null to renew at market
+const optionRent = (option: RenewalOption, expiringRent: number): number | null => {
+  if (option.rent_value === null) return null
+  if (option.rent_type === 'Fixed') return option.rent_value
+  if (option.rent_type === 'Percentage Increase') return expiringRent * (1 + option.rent_value / 100)
+  return null
+}
+
+// Projects each in-place lease through expiration, then rolls it over as a
+// probability-weighted blend of a renewal (no downtime, renewal TI/LC) and a
+// new tenant (downtime, new-lease TI/LC) at market rent, repeating each term.
+// Vacant suites lease at market once their lease-up period ends.
+export function projectRentRoll(project: Project, months: number): RentRollProjection {
+  const { income, growth, capital } = project
+  const start = analysisStartDate(project)
+
+  const renewalProbability = (income?.vacancy?.renewal_probability ?? 65) / 100
+  const downtime = income?.vacancy?.average_downtime_months ?? 6
+  const rolloverTerm = income?.vacancy?.rollover_lease_term_months || DEFAULT_LEASE_TERM_MONTHS
+  const marketRentPSF = growth?.market_rent_current_psf || 0
+  const marketGrowth = (growth?.market_rent_growth ?? growth?.rent_growth_rate ?? 3) / 100
+  const ti = capital?.ti_assumptions
+
+  const projection: RentRollProjection = {
+    scheduledRent: new Array(months).fill(0),
+    freeRent: new Array(months).fill(0),
+    tenantImprovements: new Array(months).fill(0),
+    leasingCommissions: new Array(months).fill(0),
+    leasedSF: new Array(months).fill(0),
+    totalSF: 0,
+    expirations: [],
+    tenants: [],
+  }
+
+  const addSuite = (id: string, name: string): TenantProjection => {
+    const suite: TenantProjection = {
+      tenantId: id,
+      tenantName: name,
+      rent: new Array(months).fill(0),
+      occupancy: new Array(months).fill(0),
+      leaseStart: new Array(months).fill(0),
+    }
+    projection.tenants.push(suite)
+    return suite
+  }
+
+  const book = (suite: TenantProjection, sf: number, month: number, rent: number, occupancy: number, leaseStart: number) => {
+    projection.scheduledRent[month - 1] += rent
+    projection.leasedSF[month - 1] += sf * occupancy
+    suite.rent[month - 1] = rent
+    suite.occupancy[month - 1] = occupancy
+    suite.leaseStart[month - 1] = leaseStart
+  }
+
+  // Market rent for a suite in a given month; falls back to the expiring rent
+  const marketRent = (psf: number, sf: number, month: number, expiringRent: number) =>
+    psf > 0 && sf > 0
+      ? psf * sf / 12 * Math.pow(1 + marketGrowth, yearIndex(month))
+      : expiringRent
+
+  // Rollover generations from `fromMonth` until the projection ends
+  const rollOver = (
+    suite: TenantProjection,
+    sf: number,
+    psf: number,
+    fromMonth: number,
+    expiringRent: number,
+    escalationPct: number,
+    option?: RenewalOption
+  ) => {
+    let rolloverStart = fromMonth
+    let first = true
+    while (rolloverStart <= months) {
+      const market = marketRent(psf, sf, rolloverStart, expiringRent)
+      const renewalRent = (first && option ? optionRent(option, expiringRent) : null) ?? market
+      const term = (first && option?.term_months) || rolloverTerm
+      const renewalValue = renewalRent * term
+      const newValue = market * term
+
+      const tiCost = sf * (renewalProbability * (ti?.renewal_ti_psf || 0) + (1 - renewalProbability) * (ti?.new_lease_ti_psf || 0))
+      const lcCost = renewalProbability * renewalValue * (ti?.renewal_lc_pct || 0) / 100 +
+                     (1 - renewalProbability) * newValue * (ti?.new_lease_lc_pct || 0) / 100
+      projection.tenantImprovements[rolloverStart - 1] += tiCost
+      projection.leasingCommissions[rolloverStart - 1] += lcCost
+
+      // Downtime only applies to the new-tenant share; both legs escalate each lease year
+      let renewalLeg = renewalRent
+      let newLeg = market
+      const end = Math.min(rolloverStart + term - 1, months)
+      for (let month = rolloverStart; month <= end; month++) {
+        const leaseMonth = month - rolloverStart
+        if (leaseMonth > 0 && leaseMonth % 12 === 0) {
+          renewalLeg *= 1 + (escalationPct || marketGrowth)
+          newLeg *= 1 + (escalationPct || marketGrowth)
+        }
+        const newTenantIn = leaseMonth < downtime ? 0 : 1
+        book(
+          suite,
+          sf,
+          month,
+          renewalProbability * renewalLeg + (1 - renewalProbability) * newLeg * newTenantIn,
+          renewalProbability + (1 - renewalProbability) * newTenantIn,
+          rolloverStart
+        )
+      }
+
+      expiringRent = renewalProbability * renewalLeg + (1 - renewalProbability) * newLeg
+      rolloverStart += term
+      first = false
+    }
+  }
+
+  for (const tenant of income?.tenants || []) {
+    const currentRent = tenant.base_rent_monthly || 0
+    if (currentRent <= 0) continue
+    const sf = tenant.rentable_sf || 0
+    const leaseStart = modelMonth(tenant.lease_start_date, start)
+    const leaseEnd = modelMonth(tenant.lease_end_date, start) ?? months
+    const escalationPct = (tenant.escalation_percentage || 0) / 100
+    const escalationDollar = tenant.escalation_dollar || 0
+    const tenantName = tenant.tenant_name || tenant.suite_unit || 'Tenant'
+    const suite = addSuite(tenant.id, tenantName)
+    projection.totalSF += sf
+
+    // In-place lease: current rent steps on each lease anniversary after today
+    let rent = currentRent
+    const anniversaryOffset = leaseStart !== null ? ((leaseStart - 1) % 12 + 12) % 12 : 0
+    const freeRentEnd = leaseStart !== null ? leaseStart + (tenant.free_rent_months || 0) : 0
+    const firstMonth = Math.max(1, leaseStart ?? 1)
+    for (let month = firstMonth; month <= Math.min(leaseEnd, months); month++) {
+      if (month > 1 && (month - 1) % 12 === anniversaryOffset && (leaseStart === null || month > leaseStart)) {
+        rent = escalationDollar > 0 && escalationPct === 0 ? rent + escalationDollar : rent * (1 + escalationPct)
+      }
+      book(suite, sf, month, rent, 1, leaseStart ?? 1)
+      if (month < freeRentEnd) projection.freeRent[month - 1] += rent
+    }
+
+    if (leaseEnd >= months) continue
+    projection.expirations.push({
+      tenantId: tenant.id,
+      tenantName,
+      month: Math.max(0, leaseEnd),
+      sf,
+      expiringRent: rent,
+    })
+
+    // Leases already expired roll at close
+    rollOver(suite, sf, marketRentPSF, Math.max(1, leaseEnd + 1), rent, escalationPct, tenant.renewal_options?.[0])
+  }
+
+  for (const space of income?.vacant_spaces || []) {
+    const sf = space.sf || 0
+    const psf = space.market_rent_psf || marketRentPSF
+    if (sf <= 0 || psf <= 0) continue
+    const suite = addSuite(space.id, space.suite ? `${space.suite} (Vacant)` : 'Vacant Space')
+    projection.totalSF += sf
+
+    // First-generation lease signed at market when lease-up completes
+    const leaseUpMonth = (space.estimated_lease_up_months || 0) + 1
+    if (leaseUpMonth > months) continue
+    projection.tenantImprovements[leaseUpMonth - 1] += space.estimated_ti || 0
+    projection.leasingCommissions[leaseUpMonth - 1] += space.estimated_lc || 0
+
+    let rent = marketRent(psf, sf, leaseUpMonth, 0)
+    const end = Math.min(leaseUpMonth + rolloverTerm - 1, months)
+    for (let month = leaseUpMonth; month <= end; month++) {
+      const leaseMonth = month - leaseUpMonth
+      if (leaseMonth > 0 && leaseMonth % 12 === 0) rent *= 1 + marketGrowth
+      book(suite, sf, month, rent, 1, leaseUpMonth)
+    }
+    rollOver(suite, sf, psf, leaseUpMonth + rolloverTerm, rent, 0)
+  }
+
+  return projection
+}
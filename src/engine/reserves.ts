@@ -0,0 +1,106 @@
+import type { DebtTranche } from '../types'
+import { scheduleDebtService } from './debt'
+import type { LoanSchedule } from './debt'
+
+// ============================================================================
+// LENDER RESERVES
+// ============================================================================
+
+export type ReserveType = 'Tax Escrow' | 'Insurance Escrow' | 'CapEx Reserve' | 'TI/LC Reserve' | 'Interest Reserve'
+
+// Monthly costs the reserves pay, as positives; index 0 is month 1
+export interface ReserveCosts {
+  taxes: number[]
+  insurance: number[]
+  capex: number[]
+  leasing: number[]
+}
+
+// Funded at closing as a use of funds
+export interface ReserveDeposit {
+  trancheId: string
+  trancheName: string
+  type: ReserveType
+  funded: number
+}
+
+export interface LenderReserve extends ReserveDeposit {
+  // Draws by hold month (index 0 is month 1)
+  draws: number[]
+  // Undrawn balance returned to equity when the loan is repaid or the property sold
+  released: number
+  releaseMonth: number
+}
+
+export interface ReserveProjection {
+  reserves: LenderReserve[]
+  funded: number
+  // Draws and releases at loan payoffs during the hold, by month
+  draws: number[]
+  releases: number[]
+  // Released from the sale proceeds at exit
+  exitRelease: number
+}
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0)
+
+// Deposits a tranche's lender requires at closing. Escrows hold the first months
+// of modeled taxes and insurance; the interest reserve holds the loan's first
+// months of debt service.
+export function sizeReserves(tranche: DebtTranche, costs: ReserveCosts, schedule: LoanSchedule): ReserveDeposit[] {
+  const required = tranche.lender_required_reserves
+  if (!required || !tranche.loan_amount) return []
+  const interestMonths = required.interest_reserve_months || 0
+  const deposits: [ReserveType, number][] = [
+    ['Tax Escrow', sum(costs.taxes.slice(0, required.tax_escrow_months || 0))],
+    ['Insurance Escrow', sum(costs.insurance.slice(0, required.insurance_escrow_months || 0))],
+    ['CapEx Reserve', required.capex_reserve || 0],
+    ['TI/LC Reserve', required.ti_lc_reserve || 0],
+    ['Interest Reserve', sum(Array.from({ length: interestMonths }, (_, i) => scheduleDebtService(schedule, i + 1)))],
+  ]
+  return deposits
+    .filter(([, funded]) => funded > 0)
+    .map(([type, funded]) => ({ trancheId: tranche.id, trancheName: tranche.tranche_name, type, funded }))
+}
+
+// Draws each reserve against the cost it covers until it runs out or its loan
+// is repaid, then releases what's left. Reserves covering the same cost draw in order.
+export function projectReserves(
+  deposits: ReserveDeposit[],
+  loans: LoanSchedule[],
+  costs: ReserveCosts,
+  holdMonths: number
+): ReserveProjection {
+  const unpaid: Record<Exclude<ReserveType, 'Interest Reserve'>, number[]> = {
+    'Tax Escrow': [...costs.taxes],
+    'Insurance Escrow': [...costs.insurance],
+    'CapEx Reserve': [...costs.capex],
+    'TI/LC Reserve': [...costs.leasing],
+  }
+  const draws = new Array(holdMonths).fill(0)
+  const releases = new Array(holdMonths).fill(0)
+  let exitRelease = 0
+
+  const reserves = deposits.map(deposit => {
+    const loan = loans.find(l => l.trancheId === deposit.trancheId)
+    const payoff = loan?.periods.find(p => p.balloon > 0 || p.prepayment > 0)?.month
+    const releaseMonth = Math.min(payoff ?? holdMonths, holdMonths)
+    const reserveDraws = new Array(holdMonths).fill(0)
+    let balance = deposit.funded
+    for (let month = 1; month <= releaseMonth && balance > 0; month++) {
+      const cost = deposit.type === 'Interest Reserve'
+        ? (loan ? scheduleDebtService(loan, month) : 0)
+        : unpaid[deposit.type][month - 1] || 0
+      const draw = Math.min(balance, Math.max(0, cost))
+      if (deposit.type !== 'Interest Reserve') unpaid[deposit.type][month - 1] -= draw
+      reserveDraws[month - 1] = draw
+      draws[month - 1] += draw
+      balance -= draw
+    }
+    if (releaseMonth < holdMonths) releases[releaseMonth - 1] += balance
+    else exitRelease += balance
+    return { ...deposit, draws: reserveDraws, released: balance, releaseMonth }
+  })
+
+  return { reserves, funded: sum(deposits.map(d => d.funded)), draws, releases, exitRelease }
+}
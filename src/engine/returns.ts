@@ -0,0 +1,146 @@
+import { differenceInCalendarDays } from 'date-fns'
+
+// ============================================================================
+// RETURNS MATH
+// ============================================================================
+
+// Fallback discount rates (percent) when the project doesn't set its own
+export const DEFAULT_DISCOUNT_RATE = 10
+export const DEFAULT_UNLEVERED_DISCOUNT_RATE = 8
+
+// Guess used to pick among multiple IRRs, and the search range (annual rates)
+const IRR_GUESS = 0.1
+const MIN_RATE = -0.99
+const MAX_RATE = 100
+
+// Present value at an annual rate (decimal) of cash flows `years` after the first
+const presentValue = (cashFlows: number[], years: number[], rate: number): number =>
+  cashFlows.reduce((pv, cf, i) => pv + cf / Math.pow(1 + rate, years[i]), 0)
+
+const signChanges = (cashFlows: number[]): number => {
+  const signs = cashFlows.filter(cf => cf !== 0).map(Math.sign)
+  return signs.reduce((count, sign, i) => i > 0 && sign !== signs[i - 1] ? count + 1 : count, 0)
+}
+
+const bisect = (f: (rate: number) => number, low: number, high: number): number => {
+  let fLow = f(low)
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2
+    const fMid = f(mid)
+    if (Math.abs(fMid) < 1e-7 || high - low < 1e-12) return mid
+    if (Math.sign(fMid) === Math.sign(fLow)) {
+      low = mid
+      fLow = fMid
+    } else {
+      high = mid
+    }
+  }
+  return (low + high) / 2
+}
+
+// Annual IRR (decimal) for cash flows timed in years, or null when none exists.
+// Conventional flows (one sign change) have a single root, found by Newton's
+// method; otherwise, or if Newton fails, the whole range is scanned for sign
+// changes and the root nearest the guess is returned.
+const solveIRR = (cashFlows: number[], years: number[]): number | null => {
+  const changes = signChanges(cashFlows)
+  if (changes === 0) return null
+  const npv = (rate: number) => presentValue(cashFlows, years, rate)
+
+  if (changes === 1) {
+    let rate = IRR_GUESS
+    for (let i = 0; i < 50; i++) {
+      const value = npv(rate)
+      if (Math.abs(value) < 1e-7) return rate
+      const slope = cashFlows.reduce((d, cf, t) => d - years[t] * cf / Math.pow(1 + rate, years[t] + 1), 0)
+      if (slope === 0 || !Number.isFinite(slope)) break
+      const next = rate - value / slope
+      if (!Number.isFinite(next) || next <= MIN_RATE || next > MAX_RATE) break
+      if (Math.abs(next - rate) < 1e-12) return next
+      rate = next
+    }
+  }
+
+  // Grid evenly spaced in log(1 + rate), so low rates get fine resolution
+  const roots: number[] = []
+  const steps = 400
+  const from = Math.log(1 + MIN_RATE)
+  const to = Math.log(1 + MAX_RATE)
+  let prevRate = MIN_RATE
+  let prevValue = npv(prevRate)
+  for (let i = 1; i <= steps; i++) {
+    const rate = Math.exp(from + (to - from) * i / steps) - 1
+    const value = npv(rate)
+    if (prevValue === 0) roots.push(prevRate)
+    else if (Number.isFinite(value) && Number.isFinite(prevValue) && Math.sign(value) !== Math.sign(prevValue)) {
+      roots.push(bisect(npv, prevRate, rate))
+    }
+    prevRate = rate
+    prevValue = value
+  }
+  if (roots.length === 0) return null
+  return roots.reduce((best, root) => Math.abs(root - IRR_GUESS) < Math.abs(best - IRR_GUESS) ? root : best)
+}
+
+// IRR of cash flows evenly spaced at `periodsPerYear`, as an annualized
+// percentage; null when the flows have no solution (e.g. never turn positive)
+export const calculateIRR = (cashFlows: number[], periodsPerYear: number = 1): number | null => {
+  const rate = solveIRR(cashFlows, cashFlows.map((_, t) => t / periodsPerYear))
+  return rate === null ? null : rate * 100
+}
+
+// Present value of evenly spaced cash flows, discounted at an annual rate
+// (percent) converted to the cash flow frequency
+export const calculateNPV = (cashFlows: number[], annualRatePct: number, periodsPerYear: number = 1): number =>
+  presentValue(cashFlows, cashFlows.map((_, t) => t / periodsPerYear), annualRatePct / 100)
+
+// Dated cash flows use actual days over a 365-day year, as Excel's XNPV/XIRR do
+const yearFractions = (dates: Date[]): number[] =>
+  dates.map(date => differenceInCalendarDays(date, dates[0]) / 365)
+
+export const calculateXNPV = (cashFlows: number[], dates: Date[], annualRatePct: number): number =>
+  presentValue(cashFlows, yearFractions(dates), annualRatePct / 100)
+
+export const calculateXIRR = (cashFlows: number[], dates: Date[]): number | null => {
+  const rate = solveIRR(cashFlows, yearFractions(dates))
+  return rate === null ? null : rate * 100
+}
+
+// Present value of the inflows per dollar of initial outflow
+export const calculateProfitabilityIndex = (npv: number, investment: number): number | null =>
+  investment > 0 ? 1 + npv / investment : null
+
+// Total distributions over equity invested. Contributions after the initial
+// outflow are counted in `equity` and net against the later flows.
+export const calculateEquityMultiple = (cashFlows: number[], equity: number): number => {
+  const totalDistributions = cashFlows.reduce((sum, cf) => sum + cf, 0) + equity
+  return equity > 0 ? totalDistributions / equity : 0
+}
+
+// Largest cumulative net investment: the initial outflow plus any later
+// shortfalls funded before distributions catch up
+export const calculatePeakEquity = (cashFlows: number[]): number => {
+  let cumulative = 0
+  let peak = 0
+  for (const cf of cashFlows) {
+    cumulative += cf
+    peak = Math.max(peak, -cumulative)
+  }
+  return peak
+}
+
+// Years until cumulative cash flow turns non-negative, interpolated within the
+// period; null if the investment is never paid back
+export const calculatePaybackYears = (cashFlows: number[], periodsPerYear: number = 1): number | null => {
+  let cumulative = cashFlows[0] || 0
+  if (cumulative >= 0) return 0
+  for (let t = 1; t < cashFlows.length; t++) {
+    const previous = cumulative
+    cumulative += cashFlows[t]
+    if (cumulative >= 0) {
+      const fraction = cashFlows[t] > 0 ? -previous / cashFlows[t] : 1
+      return (t - 1 + fraction) / periodsPerYear
+    }
+  }
+  return null
+}
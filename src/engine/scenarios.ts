@@ -0,0 +1,120 @@
+import type { Project, Scenario, ScenarioInputOverride } from '../types'
+import { runProForma } from './proforma'
+import { withDriver } from './sensitivity'
+
+// ============================================================================
+// SCENARIOS
+// ============================================================================
+
+export type ScenarioResults = NonNullable<Scenario['results']>
+
+// Sections a scenario may override; everything else on the project is metadata
+const inputSections = [
+  'property', 'analysis', 'acquisition', 'financing', 'income', 'expenses', 'capital', 'development', 'growth', 'exit',
+] as const
+
+export interface ScenarioInput {
+  path: string
+  section: string
+  label: string
+  kind: 'number' | 'boolean' | 'date'
+  value: number | boolean | string | null
+}
+
+const isoDate = /^\d{4}-\d{2}-\d{2}/
+
+const humanize = (key: string) =>
+  key.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase()).replace(/\bSf\b/g, 'SF')
+
+// A readable name for an array item (tenant, tranche, cost line…)
+const itemLabel = (item: unknown, index: number) => {
+  if (item && typeof item === 'object') {
+    const record = item as Record<string, unknown>
+    for (const key of ['tenant_name', 'tranche_name', 'investor_class', 'name', 'description', 'suite_unit', 'category']) {
+      if (typeof record[key] === 'string' && record[key]) return record[key] as string
+    }
+  }
+  return `#${index + 1}`
+}
+
+const itemKey = (item: unknown, index: number) =>
+  item && typeof item === 'object' && typeof (item as { id?: unknown }).id === 'string'
+    ? (item as { id: string }).id
+    : String(index)
+
+// Every numeric, yes/no and date input on the project. Null leaves are
+// unset numbers; free text and ids can't move the model and are skipped.
+export function scenarioInputs(project: Project): ScenarioInput[] {
+  const inputs: ScenarioInput[] = []
+  const walk = (value: unknown, path: string[], labels: string[], section: string) => {
+    const key = path[path.length - 1]
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => walk(item, [...path, itemKey(item, i)], [...labels, itemLabel(item, i)], section))
+    } else if (value && typeof value === 'object') {
+      for (const [k, v] of Object.entries(value)) walk(v, [...path, k], [...labels, humanize(k)], section)
+    } else if (key === 'id' || key.endsWith('_id')) {
+      return
+    } else if (typeof value === 'number' || value === null) {
+      inputs.push({ path: path.join('.'), section, label: labels.join(' › '), kind: 'number', value })
+    } else if (typeof value === 'boolean') {
+      inputs.push({ path: path.join('.'), section, label: labels.join(' › '), kind: 'boolean', value })
+    } else if (typeof value === 'string' && isoDate.test(value)) {
+      inputs.push({ path: path.join('.'), section, label: labels.join(' › '), kind: 'date', value })
+    }
+  }
+  for (const section of inputSections) {
+    const value = project[section]
+    if (value) walk(value, [section], [], humanize(section))
+  }
+  return inputs
+}
+
+// Copy of `target` with the value at `path` replaced; unknown paths leave it unchanged
+const setPath = (target: unknown, path: string[], value: ScenarioInputOverride['value']): unknown => {
+  if (path.length === 0) return value
+  const [head, ...rest] = path
+  if (Array.isArray(target)) {
+    const index = target.findIndex((item, i) => itemKey(item, i) === head)
+    if (index === -1) return target
+    return target.map((item, i) => i === index ? setPath(item, rest, value) : item)
+  }
+  if (target && typeof target === 'object' && head in target) {
+    const record = target as Record<string, unknown>
+    return { ...record, [head]: setPath(record[head], rest, value) }
+  }
+  return target
+}
+
+export const applyInputOverride = (project: Project, override: ScenarioInputOverride): Project =>
+  setPath(project, override.path.split('.'), override.value) as Project
+
+// The project as the scenario sees it: the headline overrides first, then
+// any individual inputs
+export function applyScenario(project: Project, scenario: Scenario): Project {
+  const { overrides } = scenario
+  let result = project
+  if (overrides.rent_growth !== undefined) result = withDriver(result, 'rent_growth', overrides.rent_growth)
+  if (overrides.expense_growth !== undefined) {
+    result = { ...result, growth: { ...result.growth!, expense_growth_rate: overrides.expense_growth } }
+  }
+  if (overrides.vacancy_rate !== undefined) result = withDriver(result, 'vacancy_rate', overrides.vacancy_rate)
+  if (overrides.exit_cap_rate !== undefined) result = withDriver(result, 'exit_cap_rate', overrides.exit_cap_rate)
+  if (overrides.interest_rate !== undefined) result = withDriver(result, 'interest_rate', overrides.interest_rate)
+  if (overrides.purchase_price !== undefined) result = withDriver(result, 'purchase_price', overrides.purchase_price)
+  for (const override of overrides.inputs || []) result = applyInputOverride(result, override)
+  return result
+}
+
+// NPV is at the project's levered discount rate
+export function evaluateProject(project: Project): ScenarioResults {
+  const { returns } = runProForma(project)
+  return {
+    irr: returns.levered_irr,
+    equity_multiple: returns.levered_equity_multiple,
+    cash_on_cash: returns.average_cash_on_cash,
+    npv: returns.levered_npv ?? 0,
+  }
+}
+
+export const evaluateScenario = (project: Project, scenario: Scenario): ScenarioResults =>
+  evaluateProject(applyScenario(project, scenario))
@@ -0,0 +1,141 @@
+import type { Project, SensitivityDriver, SensitivityTable } from '../types'
+import { runProForma } from './proforma'
+import type { ProFormaResult } from './proforma'
+import { indexRateForMonth, isFloatingRate, isSwapped, shiftForwardCurves, trancheRateForMonth } from './debt'
+import { calculateNPV } from './returns'
+
+// ============================================================================
+// SENSITIVITY ANALYSIS
+// ============================================================================
+
+export type SensitivityMetric = SensitivityTable['output_metric']
+
+export interface SensitivityDriverDefinition {
+  label: string
+  unit: 'percent' | 'currency' | 'years'
+  // Default spacing between grid points; purchase price steps are a share of the base
+  step: number
+}
+
+export const sensitivityDrivers: Record<SensitivityDriver, SensitivityDriverDefinition> = {
+  exit_cap_rate: { label: 'Exit Cap Rate', unit: 'percent', step: 0.25 },
+  rent_growth: { label: 'Rent Growth', unit: 'percent', step: 1 },
+  vacancy_rate: { label: 'Vacancy', unit: 'percent', step: 2.5 },
+  interest_rate: { label: 'Interest Rate', unit: 'percent', step: 0.5 },
+  purchase_price: { label: 'Purchase Price', unit: 'currency', step: 0.05 },
+  hold_period: { label: 'Hold Period', unit: 'years', step: 1 },
+}
+
+// The driver's value as the model reads it, engine defaults included
+export const driverBaseValue = (project: Project, driver: SensitivityDriver): number => {
+  switch (driver) {
+    case 'exit_cap_rate':
+      return project.exit?.exit_cap_rate || 6.5
+    case 'rent_growth':
+      return project.growth?.rent_growth_rate ?? 3
+    case 'vacancy_rate':
+      return project.income?.vacancy?.vacancy_rate_single ?? 5
+    case 'interest_rate': {
+      // Year 1 all-in rate on the first tranche; every tranche moves by the same amount
+      const tranche = project.financing?.debt_tranches?.[0]
+      return tranche ? trancheRateForMonth(tranche, 1, indexRateForMonth(tranche, 1, project.financing?.forward_curves)) : 0
+    }
+    case 'purchase_price':
+      return project.acquisition?.purchase_price || 0
+    case 'hold_period':
+      return project.analysis?.hold_period_years || 5
+  }
+}
+
+// A copy of the project with one driver set to `value`
+export const withDriver = (project: Project, driver: SensitivityDriver, value: number): Project => {
+  switch (driver) {
+    case 'exit_cap_rate':
+      return { ...project, exit: { ...project.exit!, exit_cap_rate: value } }
+    case 'rent_growth': {
+      // Market rent growth on rollovers moves with the general rate
+      const delta = value - driverBaseValue(project, driver)
+      const marketGrowth = project.growth?.market_rent_growth
+      return {
+        ...project,
+        growth: {
+          ...project.growth!,
+          rent_growth_rate: value,
+          market_rent_growth: marketGrowth === null || marketGrowth === undefined ? null : marketGrowth + delta,
+        },
+      }
+    }
+    case 'vacancy_rate':
+      return {
+        ...project,
+        income: { ...project.income!, vacancy: { ...project.income!.vacancy, vacancy_rate_single: value } },
+      }
+    case 'interest_rate': {
+      const delta = value - driverBaseValue(project, driver)
+      // Floating tranches move with the index, so the forward curves shift too.
+      // A swap fixes the rate it would be struck at, so it moves with them.
+      const tranches = (project.financing?.debt_tranches || []).map(t =>
+        isSwapped(t)
+          ? { ...t, swap_rate: t.swap_rate! + delta }
+          : isFloatingRate(t)
+            ? { ...t, index_assumption: (t.index_assumption || 0) + delta }
+            : { ...t, interest_rate_annual: (t.interest_rate_annual || 0) + delta }
+      )
+      const forward_curves = shiftForwardCurves(project.financing?.forward_curves, delta)
+      return { ...project, financing: { ...project.financing!, debt_tranches: tranches, forward_curves } }
+    }
+    case 'purchase_price':
+      return { ...project, acquisition: { ...project.acquisition!, purchase_price: value } }
+    case 'hold_period':
+      return { ...project, analysis: { ...project.analysis!, hold_period_years: value, hold_period_months: 0 } }
+  }
+}
+
+// Grid points centered on the base value; near the driver's floor the window
+// shifts up instead so the grid keeps its size
+export const centeredRange = (driver: SensitivityDriver, base: number, step: number, points: number): number[] => {
+  const minimum = driver === 'hold_period' ? 1 : 0
+  const start = Math.max(minimum, base - Math.floor(points / 2) * step)
+  return Array.from({ length: points }, (_, i) => Math.round((start + i * step) * 10000) / 10000)
+}
+
+export const defaultDriverStep = (driver: SensitivityDriver, base: number): number => {
+  const { step } = sensitivityDrivers[driver]
+  return driver === 'purchase_price' ? Math.max(1000, Math.round(base * step / 1000) * 1000) : step
+}
+
+// NPV uses the table's own discount rate when set, otherwise the project's levered rate
+export const sensitivityMetric = (
+  result: ProFormaResult,
+  metric: SensitivityMetric,
+  discountRate: number | null = null
+): number | null => {
+  const { returns } = result
+  switch (metric) {
+    case 'IRR':
+      return returns.levered_irr
+    case 'Equity Multiple':
+      return returns.levered_equity_multiple
+    case 'Cash-on-Cash':
+      return returns.average_cash_on_cash
+    case 'DSCR': {
+      // Year 1 coverage; undefined without debt service
+      const debtService = -(result.annual.debtService[0] || 0)
+      return debtService > 0 ? result.annual.noi[0] / debtService : null
+    }
+    case 'NPV':
+      return discountRate === null ? result.returns.levered_npv : calculateNPV(result.leveredCashFlows, discountRate, 12)
+  }
+}
+
+// Reruns the pro forma at every grid point: rows are variable 1, columns variable 2
+export function runSensitivity(project: Project, table: SensitivityTable): (number | null)[][] {
+  const { variable_1, variable_2, output_metric } = table
+  const discountRate = table.discount_rate ?? null
+  return variable_1.range.map(rowValue => {
+    const rowProject = withDriver(project, variable_1.name, rowValue)
+    return variable_2.range.map(colValue =>
+      sensitivityMetric(runProForma(withDriver(rowProject, variable_2.name, colValue)), output_metric, discountRate)
+    )
+  })
+}
@@ -0,0 +1,91 @@
+import type { DebtTranche, ForwardIndexCurve } from '../types'
+import { buildLoanSchedule, scheduleDebtService } from './debt'
+
+// ============================================================================
+// LOAN SIZING
+// ============================================================================
+
+export type SizingConstraintType = 'LTV' | 'LTC' | 'DSCR' | 'Debt Yield' | 'Total Uses'
+
+export interface SizingConstraint {
+  type: SizingConstraintType
+  target: number
+  maxLoan: number
+}
+
+export interface TrancheSizing {
+  trancheId: string
+  loanAmount: number
+  // Every constraint with a target; the smallest max loan binds
+  constraints: SizingConstraint[]
+  binding: SizingConstraint | null
+}
+
+// What the lender sizes against: Year 1 NOI, value and all-in cost
+export interface SizingBasis {
+  noi: number
+  value: number
+  cost: number
+}
+
+// The layers ahead of a junior tranche: their combined loan amount and
+// first-year debt service
+export interface SeniorDebt {
+  amount: number
+  debtService: number
+}
+
+const NO_SENIOR_DEBT: SeniorDebt = { amount: 0, debtService: 0 }
+
+// First-year debt service per dollar of loan, on the tranche's own rate and
+// amortization, for a loan funded in `fundingMonth`
+export const debtConstant = (tranche: DebtTranche, curves?: ForwardIndexCurve[], fundingMonth: number = 0): number => {
+  const schedule = buildLoanSchedule({ ...tranche, loan_amount: 1 }, 12, fundingMonth, curves)
+  let annual = 0
+  for (let month = fundingMonth + 1; month <= fundingMonth + 12; month++) annual += scheduleDebtService(schedule, month)
+  return annual
+}
+
+// A junior layer's targets are combined limits on the whole stack down to it,
+// so the senior amount and debt service come off what they allow
+export function sizeTranche(
+  tranche: DebtTranche,
+  basis: SizingBasis,
+  curves?: ForwardIndexCurve[],
+  fundingMonth: number = 0,
+  senior: SeniorDebt = NO_SENIOR_DEBT
+): TrancheSizing {
+  if (tranche.sizing_method === 'Loan Amount (direct)') {
+    return { trancheId: tranche.id, loanAmount: tranche.loan_amount || 0, constraints: [], binding: null }
+  }
+
+  const constraints: SizingConstraint[] = []
+  if (tranche.ltv_percentage) {
+    constraints.push({ type: 'LTV', target: tranche.ltv_percentage, maxLoan: Math.max(0, basis.value * tranche.ltv_percentage / 100 - senior.amount) })
+  }
+  if (tranche.ltc_percentage) {
+    constraints.push({ type: 'LTC', target: tranche.ltc_percentage, maxLoan: Math.max(0, basis.cost * tranche.ltc_percentage / 100 - senior.amount) })
+  }
+  if (tranche.target_dscr) {
+    // Accruing loans have no current debt service, so coverage doesn't limit them
+    const constant = debtConstant(tranche, curves, fundingMonth)
+    if (constant > 0) {
+      constraints.push({ type: 'DSCR', target: tranche.target_dscr, maxLoan: Math.max(0, (basis.noi / tranche.target_dscr - senior.debtService) / constant) })
+    }
+  }
+  if (tranche.target_debt_yield) {
+    constraints.push({ type: 'Debt Yield', target: tranche.target_debt_yield, maxLoan: Math.max(0, basis.noi / (tranche.target_debt_yield / 100) - senior.amount) })
+  }
+
+  const binding = constraints.reduce<SizingConstraint | null>(
+    (min, c) => (min === null || c.maxLoan < min.maxLoan ? c : min),
+    null
+  )
+
+  return {
+    trancheId: tranche.id,
+    loanAmount: binding ? Math.round(binding.maxLoan) : 0,
+    constraints,
+    binding,
+  }
+}
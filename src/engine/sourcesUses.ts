@@ -0,0 +1,205 @@
+import type { ClosingCostItem, DebtTranche, ForwardIndexCurve, Project } from '../types'
+import { buildLoanSchedule, positionRank, upfrontCapCost } from './debt'
+import { debtConstant, sizeTranche } from './sizing'
+import type { SizingBasis, SizingConstraint, TrancheSizing } from './sizing'
+import { sizeReserves } from './reserves'
+import type { ReserveCosts, ReserveDeposit } from './reserves'
+import { acquisitionFee } from './fees'
+import { fundConstruction } from './development'
+import type { ConstructionFunding, DevelopmentBudget } from './development'
+
+// ============================================================================
+// SOURCES & USES
+// ============================================================================
+
+// Costs that scale with the loan feed back into LTC sizing, so the solver stops
+// once total uses move by less than this
+const CONVERGENCE_TOLERANCE = 0.5
+const MAX_ITERATIONS = 100
+
+export interface SourcesUsesLine {
+  label: string
+  amount: number
+}
+
+export interface SourcesAndUses {
+  uses: SourcesUsesLine[]
+  sources: SourcesUsesLine[]
+  purchasePrice: number
+  closingCosts: number
+  immediateCapital: number
+  acquisitionFee: number
+  // Development budget drawn after closing and the interest capitalized on its loans
+  developmentCosts: number
+  capitalizedInterest: number
+  // Origination fees and other loan costs, and rate cap premiums
+  loanCosts: number
+  rateCapCost: number
+  reserveDeposits: ReserveDeposit[]
+  lenderReserves: number
+  totalUses: number
+  // What the property itself costs, development budget included, leaving out
+  // financing costs, capitalized interest and reserves
+  propertyCost: number
+  // Tranches with their solved loan amounts, and how each was sized
+  tranches: (DebtTranche & { loan_amount: number })[]
+  sizing: TrancheSizing[]
+  // Draw schedules for a development, funded equity first
+  construction: ConstructionFunding | null
+  totalDebt: number
+  totalPreferredEquity: number
+  // Common equity closing the gap; the Year 0 outflow
+  equity: number
+  iterations: number
+  converged: boolean
+}
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0)
+
+const isPreferred = (tranche: DebtTranche) => tranche.position === 'Preferred Equity'
+
+// A closing cost's dollar amount; percentage items read the price or the loans
+export const closingCostAmount = (item: ClosingCostItem, purchasePrice: number, loanAmount: number): number => {
+  if (item.calculation_type !== 'percentage') return item.amount || 0
+  switch (item.percentage_of) {
+    case 'purchase_price': return purchasePrice * (item.percentage || 0) / 100
+    case 'loan_amount': return loanAmount * (item.percentage || 0) / 100
+    default: return item.amount || 0
+  }
+}
+
+// Origination and other lender costs on a loan of `amount`
+export const financingCosts = (tranche: DebtTranche, amount: number): number =>
+  amount * (tranche.origination_fee_pct || 0) / 100 +
+  (tranche.origination_fee_flat || 0) +
+  (tranche.other_loan_costs?.reduce((total, c) => total + (c.amount || 0), 0) || 0)
+
+// Sizes the stack senior first, each layer against the amount and debt service
+// ahead of it. No layer funds past the uses the layers ahead leave, so common
+// equity never goes negative. Sizing comes back in the tranches' own order.
+const sizeStack = (
+  tranches: DebtTranche[],
+  basis: SizingBasis,
+  curves?: ForwardIndexCurve[]
+): TrancheSizing[] => {
+  const order = tranches.map((_, i) => i).sort((a, b) =>
+    positionRank(tranches[a].position) - positionRank(tranches[b].position) || a - b
+  )
+  const sizing: TrancheSizing[] = new Array(tranches.length)
+  const senior = { amount: 0, debtService: 0 }
+  for (const i of order) {
+    const tranche = tranches[i]
+    let sized = sizeTranche(tranche, basis, curves, 0, senior)
+    const room = Math.max(0, Math.floor(basis.cost - senior.amount))
+    if (sized.loanAmount > room) {
+      const cap: SizingConstraint = { type: 'Total Uses', target: 100, maxLoan: room }
+      sized = { ...sized, loanAmount: room, constraints: [...sized.constraints, cap], binding: cap }
+    }
+    sizing[i] = sized
+    senior.amount += sized.loanAmount
+    senior.debtService += sized.loanAmount * debtConstant(tranche, curves)
+  }
+  return sizing
+}
+
+// Sizes the tranches and totals the uses, feeding total uses back in as the LTC
+// cost basis until it settles. Percentage closing costs read the loans (preferred
+// equity excluded), and interest reserves the sized loans' debt service. With a
+// development budget the loans are drawn over construction instead, and the
+// interest they capitalize replaces the interest reserve.
+export function solveSourcesAndUses(
+  project: Project,
+  basis: Omit<SizingBasis, 'cost'>,
+  reserveCosts: ReserveCosts,
+  holdMonths: number,
+  development?: DevelopmentBudget
+): SourcesAndUses {
+  const { acquisition, financing } = project
+  const tranches = financing?.debt_tranches || []
+  const curves = financing?.forward_curves
+  const purchasePrice = acquisition?.purchase_price || 0
+  const immediateCapital = sum((acquisition?.immediate_capital || []).map(item => item.amount || 0))
+  const acqFee = acquisitionFee(project)
+  const rateCapCost = sum(tranches.map(upfrontCapCost))
+
+  const developmentCosts = development?.total || 0
+  const sizingBasis: SizingBasis = { ...basis, cost: purchasePrice + immediateCapital + acqFee + rateCapCost + developmentCosts }
+  let iterations = 0
+  let converged = false
+  let solved
+  do {
+    iterations++
+    const sizing = sizeStack(tranches, sizingBasis, curves)
+    const sized = tranches.map((t, i) => ({ ...t, loan_amount: sizing[i].loanAmount }))
+    const loans = sum(sized.filter(t => !isPreferred(t)).map(t => t.loan_amount))
+    const closingCosts = sum((acquisition?.closing_costs || []).map(item => closingCostAmount(item, purchasePrice, loans)))
+    const loanCosts = sum(sized.map(t => financingCosts(t, t.loan_amount)))
+    const reserveDeposits = sized.flatMap(t => {
+      // Construction loans capitalize their interest rather than fund a reserve
+      const terms = development
+        ? { ...t, lender_required_reserves: { ...t.lender_required_reserves, interest_reserve_months: null } }
+        : t
+      return sizeReserves(terms, reserveCosts, buildLoanSchedule(t, holdMonths, 0, curves))
+    })
+    const lenderReserves = sum(reserveDeposits.map(d => d.funded))
+    const closingUses = purchasePrice + closingCosts + immediateCapital + acqFee + loanCosts + rateCapCost + lenderReserves
+    // Equity goes in first, so the draws read the equity left by the last pass
+    const construction = development
+      ? fundConstruction(sized, closingUses, development, sizingBasis.cost - sum(sized.map(t => t.loan_amount)), holdMonths, curves)
+      : null
+    const capitalizedInterest = construction?.totalCapitalizedInterest || 0
+    const totalUses = closingUses + developmentCosts + capitalizedInterest
+    solved = { sizing, sized, closingCosts, loanCosts, reserveDeposits, lenderReserves, construction, capitalizedInterest, totalUses }
+    converged = Math.abs(totalUses - sizingBasis.cost) < CONVERGENCE_TOLERANCE
+    sizingBasis.cost = totalUses
+  } while (!converged && iterations < MAX_ITERATIONS)
+
+  const { sizing, sized, closingCosts, loanCosts, reserveDeposits, lenderReserves, construction, capitalizedInterest, totalUses } = solved
+  const totalDebt = sum(sized.filter(t => !isPreferred(t)).map(t => t.loan_amount))
+  const totalPreferredEquity = sum(sized.filter(isPreferred).map(t => t.loan_amount))
+  const equity = totalUses - totalDebt - totalPreferredEquity
+
+  const uses: SourcesUsesLine[] = [
+    { label: development ? 'Land' : 'Purchase Price', amount: purchasePrice },
+    { label: 'Closing Costs', amount: closingCosts },
+    { label: 'Immediate Capital', amount: immediateCapital },
+    { label: 'Acquisition Fee', amount: acqFee },
+    { label: 'Hard Costs', amount: development?.hardCosts || 0 },
+    { label: 'Soft Costs', amount: development?.softCosts || 0 },
+    { label: 'Contingency', amount: (development?.hardContingency || 0) + (development?.softContingency || 0) },
+    { label: 'Construction Management Fee', amount: development?.managementFee || 0 },
+    { label: 'Capitalized Interest', amount: capitalizedInterest },
+    { label: 'Loan Fees & Costs', amount: loanCosts },
+    { label: 'Rate Cap Premium', amount: rateCapCost },
+    { label: 'Lender Reserves & Escrows', amount: lenderReserves },
+  ].filter((line, i) => i === 0 || line.amount !== 0)
+  const sources: SourcesUsesLine[] = [
+    ...sized.map(t => ({ label: t.tranche_name, amount: t.loan_amount })),
+    { label: totalPreferredEquity > 0 ? 'Common Equity' : 'Equity', amount: equity },
+  ]
+
+  return {
+    uses,
+    sources,
+    purchasePrice,
+    closingCosts,
+    immediateCapital,
+    acquisitionFee: acqFee,
+    developmentCosts,
+    capitalizedInterest,
+    loanCosts,
+    rateCapCost,
+    reserveDeposits,
+    lenderReserves,
+    totalUses,
+    propertyCost: purchasePrice + closingCosts + immediateCapital + acqFee + developmentCosts,
+    tranches: sized,
+    sizing,
+    construction,
+    totalDebt,
+    totalPreferredEquity,
+    equity,
+    iterations,
+    converged,
+  }
+}
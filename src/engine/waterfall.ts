@@ -0,0 +1,204 @@
+import type { EquitySplit, Financing, PromoteTier } from '../types'
+import { calculateIRR } from './returns'
+
+// ============================================================================
+// EQUITY WATERFALL
+// ============================================================================
+
+export interface PartnerReturns {
+  contributed: number
+  distributed: number
+  profit: number
+  // Null when the partner's cash flows have no IRR
+  irr: number | null
+  equityMultiple: number
+  // Monthly; contributions negative, distributions positive
+  cashFlows: number[]
+}
+
+export interface WaterfallTier {
+  label: string
+  lp: number
+  gp: number
+}
+
+export interface WaterfallResult {
+  lpShare: number
+  gpShare: number
+  preferredReturn: number
+  lp: PartnerReturns
+  gp: PartnerReturns
+  // Dollars distributed through each step, in waterfall order
+  tiers: WaterfallTier[]
+}
+
+const isGPClass = (split: EquitySplit) => /\b(gp|general partner|sponsor)\b/i.test(split.investor_class)
+
+// Monthly rate equivalent to an annual hurdle, so hurdles line up with annualized IRR
+const monthlyHurdleRate = (annualPct: number) => Math.pow(1 + annualPct / 100, 1 / 12) - 1
+
+const splitWeight = (split: EquitySplit) => split.equity_contribution || split.equity_percentage || 0
+
+const partnerReturns = (cashFlows: number[]): PartnerReturns => {
+  const contributed = -cashFlows.reduce((sum, cf) => cf < 0 ? sum + cf : sum, 0)
+  const distributed = cashFlows.reduce((sum, cf) => cf > 0 ? sum + cf : sum, 0)
+  return {
+    contributed,
+    distributed,
+    profit: distributed - contributed,
+    irr: contributed > 0 ? calculateIRR(cashFlows, 12) : null,
+    equityMultiple: contributed > 0 ? distributed / contributed : 0,
+    cashFlows,
+  }
+}
+
+// Allocates monthly levered cash flow (index 0 = equity in) between the LP and
+// GP classes: return of capital, preferred return, GP catch-up, then each IRR
+// hurdle tier measured on the LP's cash flows. Returns null with no splits.
+export function runWaterfall(financing: Financing | undefined, leveredCashFlows: number[]): WaterfallResult | null {
+  const splits = financing?.equity_splits || []
+  if (splits.length === 0) return null
+
+  const gpSplits = splits.filter(isGPClass)
+  const lpSplits = splits.filter(s => !isGPClass(s))
+  const totalWeight = splits.reduce((sum, s) => sum + splitWeight(s), 0)
+  const gpShare = totalWeight > 0 ? gpSplits.reduce((sum, s) => sum + splitWeight(s), 0) / totalWeight : 0
+  const lpShare = 1 - gpShare
+  const shares = [lpShare, gpShare]
+
+  // Deal terms come from the LP class; GP co-invest earns the same pref pari passu
+  const terms = lpSplits[0] || splits[0]
+  const prefRate = terms.preferred_return || 0
+  const prefMonthly = terms.preferred_type === 'Compounding' ? monthlyHurdleRate(prefRate) : prefRate / 100 / 12
+  const compounding = terms.preferred_type === 'Compounding'
+  const nonCumulative = terms.preferred_type === 'Non-Cumulative'
+
+  const promote: PromoteTier[] = [...(financing?.promote_structure || [])]
+    .filter(t => t.irr_hurdle !== null && t.lp_split !== null && t.gp_split !== null)
+    .sort((a, b) => (a.irr_hurdle || 0) - (b.irr_hurdle || 0))
+  const catchUpTarget = promote.length > 0 ? (promote[0].gp_split || 0) / 100 : gpShare
+  const catchUpPct = terms.catch_up ? (terms.catch_up_percentage || 100) / 100 : 0
+
+  const tiers: WaterfallTier[] = [
+    { label: 'Return of Capital', lp: 0, gp: 0 },
+    { label: `Preferred Return (${prefRate}%)`, lp: 0, gp: 0 },
+    ...(catchUpPct > 0 ? [{ label: 'GP Catch-Up', lp: 0, gp: 0 }] : []),
+    { label: promote.length > 0 ? `Pro Rata to ${promote[0].irr_hurdle}% IRR` : 'Pro Rata Split', lp: 0, gp: 0 },
+    ...promote.map((t, i) => ({
+      label: i < promote.length - 1
+        ? `${t.lp_split}/${t.gp_split} to ${promote[i + 1].irr_hurdle}% IRR`
+        : `${t.lp_split}/${t.gp_split} above ${t.irr_hurdle}% IRR`,
+      lp: 0,
+      gp: 0,
+    })),
+  ]
+  const catchUpTier = catchUpPct > 0 ? tiers[2] : null
+  const bandTiers = tiers.slice(catchUpPct > 0 ? 3 : 2)
+
+  // Running accounts: [LP, GP]
+  const capital = [0, 0]
+  const pref = [0, 0]
+  const hurdles = promote.map(() => 0)
+  const hurdleRates = promote.map(t => monthlyHurdleRate(t.irr_hurdle || 0))
+  let totalProfit = 0
+  let gpProfit = 0
+
+  const lpFlows: number[] = []
+  const gpFlows: number[] = []
+
+  const pay = (target: WaterfallTier, lpAmount: number, gpAmount: number, month: number) => {
+    target.lp += lpAmount
+    target.gp += gpAmount
+    lpFlows[month] += lpAmount
+    gpFlows[month] += gpAmount
+    hurdles.forEach((_, i) => { hurdles[i] -= lpAmount })
+  }
+
+  leveredCashFlows.forEach((cash, month) => {
+    lpFlows.push(0)
+    gpFlows.push(0)
+
+    // Accrue pref and grow hurdle balances for the month just ended
+    if (month > 0) {
+      for (let p = 0; p < 2; p++) {
+        // Non-cumulative pref left unpaid at year end is forfeited
+        if (nonCumulative && month > 1 && (month - 1) % 12 === 0) pref[p] = 0
+        pref[p] += prefMonthly * (capital[p] + (compounding ? pref[p] : 0))
+      }
+      hurdles.forEach((balance, i) => { hurdles[i] = balance * (1 + hurdleRates[i]) })
+    }
+
+    if (cash < 0) {
+      // Capital calls are funded pro rata
+      for (let p = 0; p < 2; p++) capital[p] -= cash * shares[p]
+      lpFlows[month] += cash * lpShare
+      gpFlows[month] += cash * gpShare
+      hurdles.forEach((_, i) => { hurdles[i] -= cash * lpShare })
+      return
+    }
+
+    let remaining = cash
+
+    // 1. Return of capital, pro rata to unreturned balances
+    const unreturned = capital[0] + capital[1]
+    if (remaining > 0 && unreturned > 0) {
+      const paid = Math.min(remaining, unreturned)
+      const lpPaid = paid * capital[0] / unreturned
+      const gpPaid = paid - lpPaid
+      capital[0] -= lpPaid
+      capital[1] -= gpPaid
+      pay(tiers[0], lpPaid, gpPaid, month)
+      remaining -= paid
+    }
+
+    // 2. Preferred return, pro rata to accrued balances
+    const accrued = pref[0] + pref[1]
+    if (remaining > 0 && accrued > 0) {
+      const paid = Math.min(remaining, accrued)
+      const lpPaid = paid * pref[0] / accrued
+      const gpPaid = paid - lpPaid
+      pref[0] -= lpPaid
+      pref[1] -= gpPaid
+      pay(tiers[1], lpPaid, gpPaid, month)
+      totalProfit += paid
+      gpProfit += gpPaid
+      remaining -= paid
+    }
+
+    // 3. Catch-up until the GP holds its first-tier share of profits
+    if (remaining > 0 && catchUpTier && catchUpPct > catchUpTarget) {
+      const needed = Math.max(0, (catchUpTarget * totalProfit - gpProfit) / (catchUpPct - catchUpTarget))
+      const paid = Math.min(remaining, needed)
+      if (paid > 0) {
+        pay(catchUpTier, paid * (1 - catchUpPct), paid * catchUpPct, month)
+        totalProfit += paid
+        gpProfit += paid * catchUpPct
+        remaining -= paid
+      }
+    }
+
+    // 4. Hurdle bands: pro rata until the first hurdle clears, then each tier's split
+    while (remaining > 0.005) {
+      const band = hurdles.findIndex(balance => balance > 0.005)
+      const split = band === -1
+        ? promote[promote.length - 1]
+        : band === 0 ? null : promote[band - 1]
+      const lpPct = split ? (split.lp_split || 0) / 100 : lpShare
+      const target = bandTiers[band === -1 ? promote.length : band]
+      const paid = band === -1 || lpPct <= 0 ? remaining : Math.min(remaining, hurdles[band] / lpPct)
+      pay(target, paid * lpPct, paid * (1 - lpPct), month)
+      totalProfit += paid
+      gpProfit += paid * (1 - lpPct)
+      remaining -= paid
+    }
+  })
+
+  return {
+    lpShare,
+    gpShare,
+    preferredReturn: prefRate,
+    lp: partnerReturns(lpFlows),
+    gp: partnerReturns(gpFlows),
+    tiers,
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import * as XLSX from 'xlsx'
+import { autoMapColumns, mapRentRollRows, parseRentRollFile } from '../rentRollImport'
+import type { ParsedSheet } from '../rentRollImport'
+
+const headers = ['Tenant', 'Suite', 'RSF', 'Lease Start', 'Lease End', 'Monthly Rent', 'Lease Type', 'Escalation']
+
+const sheet = (rows: unknown[][]): ParsedSheet => ({ fileName: 'rent-roll.csv', headers, rows })
+
+const mapRows = (rows: unknown[][]) => mapRentRollRows(sheet(rows), autoMapColumns(headers))
+
+// An .xlsx upload built from cells, so number formats survive the round trip
+const workbookFile = (rows: XLSX.CellObject[][]): File => {
+  const worksheet = XLSX.utils.aoa_to_sheet([headers, ...rows])
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Rent Roll')
+  const buffer: ArrayBuffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })
+  return new File([buffer], 'rent-roll.xlsx')
+}
+
+const text = (v: string): XLSX.CellObject => ({ t: 's', v })
+const number = (v: number, z?: string): XLSX.CellObject => ({ t: 'n', v, z })
+
+describe('mapRentRollRows', () => {
+  it('maps a clean row onto a tenant', () => {
+    const [row] = mapRows([['Acme', '100', '5,000', '1/1/2025', '12/31/2029', '$12,500.00', 'NNN', '3%']])
+    expect(row.errors).toEqual([])
+    expect(row.values).toEqual({
+      tenant_name: 'Acme',
+      suite_unit: '100',
+      rentable_sf: 5000,
+      lease_start_date: '2025-01-01',
+      lease_end_date: '2029-12-31',
+      base_rent_monthly: 12500,
+      lease_type: 'NNN (Triple Net)',
+      escalation_percentage: 3,
+    })
+  })
+
+  it('reports each invalid value on its row', () => {
+    const [row] = mapRows([[null, '100', 'large', 'soon', '1/1/2030', '-500', 'Bespoke', '3']])
+    expect(row.errors).toEqual([
+      'Tenant Name is missing',
+      'Rentable SF "large" is not a number',
+      'Lease Start "soon" is not a valid date',
+      'Monthly Rent cannot be negative',
+      'Lease Type "Bespoke" is not recognized',
+    ])
+  })
+
+  it('rejects a lease that ends before it starts', () => {
+    const [row] = mapRows([['Acme', '100', 5000, '1/1/2030', '1/1/2025', 1000, 'Gross', null]])
+    expect(row.errors).toEqual(['Lease End is before Lease Start'])
+  })
+
+  it('reads a plain escalation number as percent, however small', () => {
+    const rows = mapRows([['Acme', '100', 5000, null, null, 1000, null, 0.5], ['Beta', '200', 5000, null, null, 1000, null, 3]])
+    expect(rows.map(r => r.values.escalation_percentage)).toEqual([0.5, 3])
+  })
+})
+
+describe('parseRentRollFile', () => {
+  it('reads percent-formatted escalations as the percentage shown', async () => {
+    const parsed = await parseRentRollFile(workbookFile([
+      [text('Acme'), text('100'), number(5000), text('1/1/2025'), text('12/31/2029'), number(1000), text('NNN'), number(0.03, '0.00%')],
+      [text('Beta'), text('200'), number(5000), text('1/1/2025'), text('12/31/2029'), number(1000), text('NNN'), number(0.5)],
+    ]))
+    const rows = mapRentRollRows(parsed, autoMapColumns(parsed.headers))
+    expect(rows.map(r => r.values.escalation_percentage)).toEqual([3, 0.5])
+  })
+})
@@ -0,0 +1,44 @@
+import { v4 as uuidv4 } from 'uuid'
+import type { DebtTranche } from '../types'
+
+// A blank direct-amount loan; tranches, refinance loans and development
+// takeout loans all start here
+export const createDebtTranche = (name: string): DebtTranche => ({
+  id: uuidv4(),
+  tranche_name: name,
+  sizing_method: 'Loan Amount (direct)',
+  loan_amount: null,
+  ltv_percentage: null,
+  ltc_percentage: null,
+  target_dscr: null,
+  target_debt_yield: null,
+  interest_type: 'Fixed Rate',
+  interest_rate_annual: null,
+  index: 'SOFR',
+  spread_bps: null,
+  floor_rate: null,
+  ceiling_rate: null,
+  index_assumption: null,
+  amortization_type: 'Interest Only (Full Term)',
+  amortization_years: 30,
+  io_period_months: null,
+  loan_term_months: 60,
+  origination_fee_pct: null,
+  origination_fee_flat: null,
+  exit_fee_pct: null,
+  prepayment_type: 'None',
+  prepayment_lockout_months: null,
+  other_loan_costs: [],
+  lender_required_reserves: {
+    tax_escrow_months: null,
+    insurance_escrow_months: null,
+    capex_reserve: null,
+    ti_lc_reserve: null,
+    interest_reserve_months: null,
+  },
+  covenants: {
+    min_dscr: null,
+    max_ltv: null,
+    min_debt_yield: null,
+  },
+})
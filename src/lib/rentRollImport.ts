@@ -0,0 +1,265 @@
+import * as XLSX from 'xlsx'
+import { format, isValid, parse, parseISO } from 'date-fns'
+import { v4 as uuidv4 } from 'uuid'
+import type { LeaseType, Tenant } from '../types'
+
+// ============================================================================
+// RENT ROLL IMPORT
+// ============================================================================
+
+export type ImportField =
+  | 'tenant_name'
+  | 'suite_unit'
+  | 'rentable_sf'
+  | 'lease_start_date'
+  | 'lease_end_date'
+  | 'base_rent_monthly'
+  | 'lease_type'
+  | 'escalation_percentage'
+
+export interface ImportFieldDefinition {
+  field: ImportField
+  label: string
+  required: boolean
+  // Lower-case header fragments that suggest this field
+  aliases: string[]
+}
+
+export const importFields: ImportFieldDefinition[] = [
+  { field: 'tenant_name', label: 'Tenant Name', required: true, aliases: ['tenant', 'name', 'lessee', 'occupant'] },
+  { field: 'suite_unit', label: 'Suite / Unit', required: false, aliases: ['suite', 'unit', 'space'] },
+  { field: 'rentable_sf', label: 'Rentable SF', required: false, aliases: ['rsf', 'rentable', 'sf', 'square', 'area'] },
+  { field: 'lease_start_date', label: 'Lease Start', required: false, aliases: ['start', 'commence', 'from'] },
+  { field: 'lease_end_date', label: 'Lease End', required: false, aliases: ['end', 'expir', 'to'] },
+  { field: 'base_rent_monthly', label: 'Monthly Rent', required: true, aliases: ['monthly rent', 'rent', 'base rent', 'mo'] },
+  { field: 'lease_type', label: 'Lease Type', required: false, aliases: ['lease type', 'type', 'structure'] },
+  { field: 'escalation_percentage', label: 'Escalation %', required: false, aliases: ['escalat', 'bump', 'increase'] },
+]
+
+// Source column index for each field; null leaves the field unmapped
+export type ColumnMapping = Record<ImportField, number | null>
+
+export interface ParsedSheet {
+  fileName: string
+  headers: string[]
+  rows: unknown[][]
+}
+
+export interface ImportRow {
+  // 1-based position among the data rows
+  rowNumber: number
+  // Only the fields the file supplied, so merges leave everything else alone
+  values: Partial<Tenant>
+  tenant: Tenant
+  errors: string[]
+}
+
+// Percent-formatted cells hold fractions (0.03 shown as 3%); they're read as the
+// percentage text the sheet displays so every value arrives in percent
+const percentCellsAsText = (sheet: XLSX.WorkSheet) => {
+  for (const [address, cell] of Object.entries(sheet)) {
+    if (address.startsWith('!') || cell.t !== 'n' || !String(cell.z ?? '').includes('%')) continue
+    sheet[address] = { t: 's', v: `${Number((cell.v * 100).toPrecision(12))}%` }
+  }
+}
+
+// Reads the first sheet of a CSV or Excel file; the first non-empty row holds headers
+export async function parseRentRollFile(file: File): Promise<ParsedSheet> {
+  const buffer = await file.arrayBuffer()
+  let workbook: XLSX.WorkBook
+  try {
+    workbook = XLSX.read(buffer, { type: 'array', cellDates: true, cellNF: true })
+  } catch {
+    throw new Error(`Could not read ${file.name}. Upload a .csv, .xlsx or .xls file.`)
+  }
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  if (!sheet) throw new Error(`${file.name} has no worksheets.`)
+  percentCellsAsText(sheet)
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: null, blankrows: false })
+  const isBlank = (row: unknown[]) => row.every(cell => cell === null || String(cell).trim() === '')
+  const headerIndex = table.findIndex(row => !isBlank(row))
+  if (headerIndex === -1) throw new Error(`${file.name} is empty.`)
+
+  return {
+    fileName: file.name,
+    headers: table[headerIndex].map((cell, i) => String(cell ?? '').trim() || `Column ${i + 1}`),
+    rows: table.slice(headerIndex + 1).filter(row => !isBlank(row)),
+  }
+}
+
+// Best guess at which column feeds each field, matching headers against aliases
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(h => h.toLowerCase())
+  const taken = new Set<number>()
+  const mapping = {} as ColumnMapping
+
+  // Exact label matches first, then alias fragments in field order
+  for (const { field, label } of importFields) {
+    const index = normalized.indexOf(label.toLowerCase())
+    mapping[field] = index === -1 ? null : index
+    if (index !== -1) taken.add(index)
+  }
+  // Short aliases must match a whole word so "to" doesn't claim "Total"
+  const matches = (header: string, alias: string) =>
+    alias.length > 2 ? header.includes(alias) : header.split(/\W+/).includes(alias)
+  for (const { field, aliases } of importFields) {
+    if (mapping[field] !== null) continue
+    for (const alias of aliases) {
+      const index = normalized.findIndex((header, i) => !taken.has(i) && matches(header, alias))
+      if (index === -1) continue
+      mapping[field] = index
+      taken.add(index)
+      break
+    }
+  }
+  return mapping
+}
+
+// ============================================================================
+// VALUE PARSING
+// ============================================================================
+
+const isEmpty = (value: unknown) => value === null || value === undefined || String(value).trim() === ''
+
+// Accepts numbers and text like "$12,500.00", "(1,200)" or "3%"
+const parseNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  const text = String(value).trim()
+  const negative = /^\(.*\)$/.test(text)
+  const cleaned = text.replace(/[$,%\s()]/g, '')
+  if (cleaned === '' || !/^-?\d*\.?\d+$/.test(cleaned)) return null
+  return negative ? -Number(cleaned) : Number(cleaned)
+}
+
+const dateFormats = ['M/d/yyyy', 'M/d/yy', 'M-d-yyyy', 'MMM d, yyyy', 'd-MMM-yy', 'd-MMM-yyyy', 'MMM yyyy', 'M/yyyy']
+
+// Returns an ISO date (yyyy-MM-dd) from a Date, an Excel serial or common text formats
+const parseDate = (value: unknown): string | null => {
+  if (value instanceof Date) return isValid(value) ? format(value, 'yyyy-MM-dd') : null
+  if (typeof value === 'number') {
+    const code = XLSX.SSF.parse_date_code(value)
+    return code ? format(new Date(code.y, code.m - 1, code.d), 'yyyy-MM-dd') : null
+  }
+  const text = String(value).trim()
+  const iso = parseISO(text)
+  if (isValid(iso)) return format(iso, 'yyyy-MM-dd')
+  for (const pattern of dateFormats) {
+    const parsed = parse(text, pattern, new Date())
+    if (isValid(parsed)) return format(parsed, 'yyyy-MM-dd')
+  }
+  return null
+}
+
+const leaseTypeMatchers: [RegExp, LeaseType][] = [
+  [/abs/i, 'Absolute Net'],
+  [/nnn|triple/i, 'NNN (Triple Net)'],
+  [/nn\b|double/i, 'NN (Double Net)'],
+  [/^n$|single/i, 'N (Single Net)'],
+  [/mod|mg\b/i, 'Modified Gross'],
+  [/ground/i, 'Ground Lease'],
+  [/percent|%/i, 'Percentage'],
+  [/gross|fsg|full service/i, 'Gross'],
+]
+
+const parseLeaseType = (value: unknown): LeaseType | null => {
+  const text = String(value).trim()
+  return leaseTypeMatchers.find(([pattern]) => pattern.test(text))?.[1] ?? null
+}
+
+const blankTenant = (): Tenant => ({
+  id: uuidv4(),
+  tenant_name: '',
+  suite_unit: '',
+  rentable_sf: null,
+  usable_sf: null,
+  pro_rata_share: null,
+  lease_start_date: '',
+  lease_end_date: '',
+  lease_type: 'NNN (Triple Net)',
+  base_rent_monthly: null,
+  escalation_type: 'Fixed Annual Percentage',
+  escalation_percentage: null,
+  escalation_dollar: null,
+  renewal_options: [],
+  termination_option: false,
+  ti_allowance_total: null,
+  free_rent_months: null,
+  cam_recoverable: true,
+  tax_recoverable: true,
+  insurance_recoverable: true,
+  tenant_credit: 'Unknown',
+  security_deposit: null,
+  notes: '',
+})
+
+// Converts each source row into a tenant, collecting validation errors per row
+export function mapRentRollRows(sheet: ParsedSheet, mapping: ColumnMapping): ImportRow[] {
+  return sheet.rows.map((row, i) => {
+    const values: Partial<Tenant> = {}
+    const errors: string[] = []
+    const cell = (field: ImportField) => {
+      const index = mapping[field]
+      return index === null ? null : row[index] ?? null
+    }
+
+    for (const { field, label, required } of importFields) {
+      const value = cell(field)
+      if (isEmpty(value)) {
+        if (required && mapping[field] !== null) errors.push(`${label} is missing`)
+        continue
+      }
+
+      switch (field) {
+        case 'tenant_name':
+        case 'suite_unit':
+          values[field] = String(value).trim()
+          break
+        case 'rentable_sf':
+        case 'base_rent_monthly':
+        case 'escalation_percentage': {
+          const parsed = parseNumber(value)
+          if (parsed === null) errors.push(`${label} "${value}" is not a number`)
+          else if (parsed < 0) errors.push(`${label} cannot be negative`)
+          // Escalations are in percent: 3 and "3%" are both 3%
+          else values[field] = parsed
+          break
+        }
+        case 'lease_start_date':
+        case 'lease_end_date': {
+          const parsed = parseDate(value)
+          if (parsed === null) errors.push(`${label} "${value}" is not a valid date`)
+          else values[field] = parsed
+          break
+        }
+        case 'lease_type': {
+          const parsed = parseLeaseType(value)
+          if (parsed === null) errors.push(`Lease Type "${value}" is not recognized`)
+          else values.lease_type = parsed
+          break
+        }
+      }
+    }
+
+    if (values.lease_start_date && values.lease_end_date && values.lease_end_date <= values.lease_start_date) {
+      errors.push('Lease End is before Lease Start')
+    }
+
+    return { rowNumber: i + 1, values, tenant: { ...blankTenant(), ...values }, errors }
+  })
+}
+
+// Replaces tenants, or merges by suite (then name) so re-imports update in place
+export function mergeImportedTenants(existing: Tenant[], rows: ImportRow[], mode: 'merge' | 'replace'): Tenant[] {
+  if (mode === 'replace') return rows.map(row => row.tenant)
+
+  const key = (t: Partial<Tenant>) => (t.suite_unit || t.tenant_name || '').trim().toLowerCase()
+  const merged = [...existing]
+  for (const row of rows) {
+    const index = merged.findIndex(t => key(t) !== '' && key(t) === key(row.values))
+    if (index === -1) merged.push(row.tenant)
+    else merged[index] = { ...merged[index], ...row.values }
+  }
+  return merged
+}
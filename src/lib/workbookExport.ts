@@ -0,0 +1,191 @@
+import * as XLSX from 'xlsx'
+import { buildPeriods, proFormaRows } from '../engine'
+import type { Period, ProFormaResult } from '../engine'
+import type { Project } from '../types'
+
+// ============================================================================
+// WORKBOOK HELPERS
+// ============================================================================
+
+export const CURRENCY = '$#,##0;[Red]($#,##0)'
+export const CURRENCY_CENTS = '$#,##0.00;[Red]($#,##0.00)'
+export const NUMBER = '#,##0'
+export const PERCENT = '0.00%'
+export const MULTIPLE = '0.00"x"'
+export const RATIO = '0.00'
+
+export type SheetCell = string | number | null | XLSX.CellObject
+export type SheetRow = SheetCell[]
+
+// Column letter from a 0-based index
+export const colName = (col: number): string => XLSX.utils.encode_col(col)
+
+// A1 reference from a 0-based column and 1-based row, optionally on another sheet
+export const cellRef = (col: number, row: number, sheet?: string): string =>
+  `${sheet ? `'${sheet}'!` : ''}${colName(col)}${row}`
+
+export const num = (v: number, z: string = CURRENCY): XLSX.CellObject => ({ t: 'n', v, z })
+
+// A live formula; `v` is the cached result shown before the workbook recalculates
+// (cells without one are dropped on write)
+export const formula = (f: string, v: number, z: string = CURRENCY): XLSX.CellObject =>
+  ({ t: 'n', f, v: Number.isFinite(v) ? v : 0, z })
+
+export const sheetFromRows = (rows: SheetRow[], widths: number[] = []): XLSX.WorkSheet => {
+  const sheet = XLSX.utils.aoa_to_sheet(rows)
+  sheet['!cols'] = widths.map(wch => ({ wch }))
+  return sheet
+}
+
+export const saveWorkbook = (sheets: [string, XLSX.WorkSheet][], fileName: string) => {
+  const workbook = XLSX.utils.book_new()
+  for (const [name, sheet] of sheets) XLSX.utils.book_append_sheet(workbook, sheet, name)
+  XLSX.writeFile(workbook, fileName)
+}
+
+// File-system safe name from a project or property name
+export const safeFileName = (name: string) =>
+  (name || 'Pro Forma').replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '_')
+
+export const workbookFileName = (name: string, suffix: string) => `${safeFileName(name)}_${suffix}.xlsx`
+
+// ============================================================================
+// PROJECT WORKBOOK
+// ============================================================================
+
+// Statement rows by period; each subtotal sums the lines since the previous subtotal
+const proFormaSheet = (proforma: ProFormaResult, periods: Period[]): XLSX.WorkSheet => {
+  const rows: SheetRow[] = [['Line Item', ...periods.map(p => p.label)]]
+  let runningFrom = 2
+  for (const [i, line] of proFormaRows(proforma, periods).entries()) {
+    const row = i + 2
+    const isSum = line.isSubtotal || line.isTotal
+    rows.push([
+      line.label,
+      ...line.values.map((v, col) => isSum
+        ? formula(`SUM(${cellRef(col + 1, runningFrom)}:${cellRef(col + 1, row - 1)})`, v ?? 0)
+        : v === null ? null : num(v)
+      ),
+    ])
+    if (isSum) runningFrom = row
+  }
+  return sheetFromRows(rows, [34, ...periods.map(() => 14)])
+}
+
+// Inputs, rent roll, the annual pro forma and returns for a project, with the
+// month-by-month statement on its own sheet when `monthly` is set. Subtotal
+// rows and the return metrics are formulas over the exported lines.
+export function exportProjectWorkbook(project: Project, proforma: ProFormaResult, { monthly = false } = {}) {
+  const { acquisition, analysis, growth, exit, financing, property } = project
+
+  const inputRows: SheetRow[] = [
+    ['Assumption', 'Value'],
+    ['Project', project.name],
+    ['Property Type', project.property_type || ''],
+    ['Rentable SF', num(property?.sizing?.rentable_sf || 0, NUMBER)],
+    ['Acquisition Date', acquisition?.acquisition_date || ''],
+    ['Purchase Price', num(proforma.purchasePrice)],
+    ['Total Uses', num(proforma.totalUses)],
+    ['Total Debt', num(proforma.totalDebt)],
+    ['Total Equity', num(proforma.totalEquity)],
+    ['Hold Period (Years)', num(proforma.holdMonths / 12, RATIO)],
+    ['Rent Growth', num((growth?.rent_growth_rate || 3) / 100, PERCENT)],
+    ['Expense Growth', num((growth?.expense_growth_rate || 3) / 100, PERCENT)],
+    ['Exit Cap Rate', num(proforma.exit.exitCapRate / 100, PERCENT)],
+    ['Exit Valuation', exit?.valuation_method || 'Cap Rate on Forward NOI'],
+    ['Granularity', analysis?.granularity || 'annual'],
+  ]
+  for (const loan of proforma.loans) {
+    const tranche = financing?.debt_tranches?.find(t => t.id === loan.trancheId) ||
+      financing?.refinances?.find(r => r.new_loan.id === loan.trancheId)?.new_loan ||
+      (project.development?.takeout_loan?.id === loan.trancheId ? project.development.takeout_loan : undefined)
+    inputRows.push(
+      [`${loan.trancheName} — Amount`, num(loan.loanAmount)],
+      [`${loan.trancheName} — Rate`, num((tranche?.interest_rate_annual || 0) / 100, PERCENT)],
+      [`${loan.trancheName} — Maturity (Months)`, num(loan.maturityMonth, NUMBER)],
+    )
+  }
+
+  // Rent roll with a formula total row
+  const tenants = project.income?.tenants || []
+  const totalSF = tenants.reduce((sum, t) => sum + (t.rentable_sf || 0), 0)
+  const totalRent = tenants.reduce((sum, t) => sum + (t.base_rent_monthly || 0), 0)
+  const rentPSF = (sf: number | null, monthly: number | null) => sf ? (monthly || 0) * 12 / sf : 0
+  const rentRollRows: SheetRow[] = [
+    ['Tenant', 'Suite', 'Rentable SF', 'Lease Start', 'Lease End', 'Lease Type', 'Monthly Rent', 'Annual Rent', 'Rent / SF', 'Escalation'],
+    ...tenants.map((t, i): SheetRow => {
+      const row = i + 2
+      return [
+        t.tenant_name,
+        t.suite_unit,
+        num(t.rentable_sf || 0, NUMBER),
+        t.lease_start_date,
+        t.lease_end_date,
+        t.lease_type,
+        num(t.base_rent_monthly || 0),
+        formula(`${cellRef(6, row)}*12`, (t.base_rent_monthly || 0) * 12),
+        formula(`IF(${cellRef(2, row)}>0,${cellRef(7, row)}/${cellRef(2, row)},0)`, rentPSF(t.rentable_sf, t.base_rent_monthly), CURRENCY_CENTS),
+        num((t.escalation_percentage || 0) / 100, PERCENT),
+      ]
+    }),
+  ]
+  if (tenants.length > 0) {
+    const last = tenants.length + 1
+    rentRollRows.push([
+      'Total', '',
+      formula(`SUM(C2:C${last})`, totalSF, NUMBER),
+      '', '', '',
+      formula(`SUM(G2:G${last})`, totalRent),
+      formula(`SUM(H2:H${last})`, totalRent * 12),
+      formula(`IF(C${last + 1}>0,H${last + 1}/C${last + 1},0)`, rentPSF(totalSF, totalRent), CURRENCY_CENTS),
+      '',
+    ])
+  }
+
+  // Returns from the monthly levered cash flows, so the IRR matches the model
+  const flows = proforma.leveredCashFlows
+  const firstFlow = 16
+  const lastFlow = firstFlow + flows.length - 1
+  const flowRange = `B${firstFlow}:B${lastFlow}`
+  const { returns } = proforma
+  const returnsRows: SheetRow[] = [
+    ['Metric', 'Value'],
+    // A development draws equity after closing too, so it counts every contribution
+    [
+      'Total Equity',
+      proforma.development
+        ? formula(`-SUMIF(${flowRange},"<0")`, proforma.contributedEquity)
+        : formula(`-B${firstFlow}`, proforma.contributedEquity),
+    ],
+    ['Levered IRR', formula(`(1+IRR(${flowRange}))^12-1`, (returns.levered_irr ?? 0) / 100, PERCENT)],
+    ['Equity Multiple', formula(`(SUM(${flowRange})+B2)/B2`, returns.levered_equity_multiple ?? 0, MULTIPLE)],
+    ['Avg Cash-on-Cash', num((returns.average_cash_on_cash ?? 0) / 100, PERCENT)],
+    ['Going-In Cap Rate', num((returns.going_in_cap_rate ?? 0) / 100, PERCENT)],
+    ['Exit NOI', num(proforma.exit.exitNOI)],
+    ['Exit Value', formula(`B7/Inputs!B13`, proforma.exit.exitValue)],
+    ['Disposition Costs & Fees', num(-(proforma.exit.dispositionCosts + proforma.exit.dispositionFee))],
+    [
+      proforma.exit.preferredRedemption > 0 ? 'Debt & Preferred Equity Payoff' : 'Debt Payoff',
+      num(-(proforma.exit.debtPayoff + proforma.exit.preferredRedemption)),
+    ],
+    ['Prepayment Penalty', num(-proforma.exit.prepaymentPenalty)],
+    ['Lender Reserve Release', num(proforma.exit.reserveRelease)],
+    ['Net Sale Proceeds', formula('SUM(B8:B12)', proforma.exit.netSaleProceeds)],
+    [],
+    ['Month', 'Levered Cash Flow'],
+    // The exit month links to the sale proceeds above
+    ...flows.map((cf, month): SheetRow => [
+      month,
+      month === flows.length - 1 ? formula(`${cf - proforma.exit.netSaleProceeds}+B13`, cf) : num(cf),
+    ]),
+  ]
+
+  const sheets: [string, XLSX.WorkSheet][] = [
+    ['Inputs', sheetFromRows(inputRows, [32, 18])],
+    ['Rent Roll', sheetFromRows(rentRollRows, [28, 10, 12, 12, 12, 20, 14, 14, 10, 10])],
+    ['Pro Forma', proFormaSheet(proforma, proforma.annualPeriods)],
+    ['Returns', sheetFromRows(returnsRows, [26, 18])],
+  ]
+  if (monthly) sheets.push(['Monthly Pro Forma', proFormaSheet(proforma, buildPeriods(proforma.holdMonths, 'monthly'))])
+  saveWorkbook(sheets, workbookFileName(project.name, 'Pro_Forma'))
+}
@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react'
+import React, { useEffect, useMemo } from 'react'
 import { Link } from 'react-router-dom'
 import { 
   Plus, 
@@ -16,6 +16,7 @@ import { Button, Card, CardHeader, CardTitle, CardContent, ProgressBar } from '.
 import { useProjectStore } from '../store/projectStore'
 import { useAuthStore } from '../store/authStore'
 import { format } from 'date-fns'
+import { runProForma } from '../engine'
 
 export const DashboardPage: React.FC = () => {
   const { user } = useAuthStore()
@@ -30,6 +31,27 @@ export const DashboardPage: React.FC = () => {
   const draftProjects = projects.filter(p => p.status === 'draft').length
   const completedProjects = projects.filter(p => p.status === 'complete').length
 
+  // Portfolio metrics from the pro forma engine (priced projects only)
+  const portfolio = useMemo(() => {
+    const results = projects
+      .filter(p => (p.acquisition?.purchase_price || 0) > 0)
+      .map(p => runProForma(p))
+    // Projects whose cash flows have no IRR are left out of the average
+    const irrs = results.map(r => r.returns.levered_irr).filter((irr): irr is number => irr !== null)
+    const avgIRR = irrs.length > 0
+      ? irrs.reduce((sum, irr) => sum + irr, 0) / irrs.length
+      : null
+    const totalEquity = results.reduce((sum, r) => sum + r.totalEquity, 0)
+    return { avgIRR, totalEquity, count: results.length }
+  }, [projects])
+
+  const formatCurrency = (value: number) => {
+    if (Math.abs(value) >= 1000000) {
+      return `$${(value / 1000000).toFixed(1)}M`
+    }
+    return `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+  }
+
   return (
     <div className="max-w-7xl mx-auto space-y-8 animate-fade-in">
       {/* Header */}
@@ -93,15 +115,17 @@ export const DashboardPage: React.FC = () => {
         <Card variant="elevated" className="animate-fade-in stagger-3">
           <div className="flex items-start justify-between">
             <div>
-              <p className="text-slate-400 text-sm font-medium">Avg IRR Target</p>
-              <p className="text-3xl font-bold text-white mt-1">15%</p>
+              <p className="text-slate-400 text-sm font-medium">Avg Levered IRR</p>
+              <p className="text-3xl font-bold text-white mt-1">
+                {portfolio.avgIRR !== null ? `${portfolio.avgIRR.toFixed(1)}%` : '—'}
+              </p>
             </div>
             <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-blue-400/20 to-blue-600/20 flex items-center justify-center">
               <Percent className="w-6 h-6 text-blue-400" />
             </div>
           </div>
           <div className="mt-4 text-sm text-slate-500">
-            Across all analyses
+            Across {portfolio.count} priced {portfolio.count === 1 ? 'analysis' : 'analyses'}
           </div>
         </Card>
 
@@ -109,7 +133,7 @@ export const DashboardPage: React.FC = () => {
           <div className="flex items-start justify-between">
             <div>
               <p className="text-slate-400 text-sm font-medium">Total Equity</p>
-              <p className="text-3xl font-bold text-white mt-1">$0</p>
+              <p className="text-3xl font-bold text-white mt-1">{formatCurrency(portfolio.totalEquity)}</p>
             </div>
             <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-purple-400/20 to-purple-600/20 flex items-center justify-center">
               <DollarSign className="w-6 h-6 text-purple-400" />
@@ -7,13 +7,18 @@ import {
   BarChart3, 
   Receipt,
   Hammer,
+  HardHat,
   TrendingUp,
   LogOut,
   Save,
   FileDown,
   ChevronLeft,
   AlertTriangle,
-  Check
+  Check,
+  Layers,
+  Grid3x3,
+  GitBranch,
+  Dices
 } from 'lucide-react'
 import { Button, Card, ProgressBar, Tabs, TabsList, TabTrigger, TabContent } from '../components/ui'
 import { useProjectStore } from '../store/projectStore'
@@ -25,8 +30,13 @@ import { FinancingSection } from '../components/sections/FinancingSection'
 import { IncomeSection } from '../components/sections/IncomeSection'
 import { ExpensesSection } from '../components/sections/ExpensesSection'
 import { CapitalSection } from '../components/sections/CapitalSection'
+import { DevelopmentSection } from '../components/sections/DevelopmentSection'
 import { GrowthExitSection } from '../components/sections/GrowthExitSection'
 import { ProFormaSection } from '../components/sections/ProFormaSection'
+import { WaterfallSection } from '../components/sections/WaterfallSection'
+import { ScenariosSection } from '../components/sections/ScenariosSection'
+import { SensitivitySection } from '../components/sections/SensitivitySection'
+import { SimulationSection } from '../components/sections/SimulationSection'
 
 const sections = [
   { id: 'property', label: 'Property', icon: Building2 },
@@ -35,8 +45,13 @@ const sections = [
   { id: 'income', label: 'Income', icon: BarChart3 },
   { id: 'expenses', label: 'Expenses', icon: Receipt },
   { id: 'capital', label: 'Capital', icon: Hammer },
+  { id: 'development', label: 'Development', icon: HardHat },
   { id: 'growth', label: 'Growth & Exit', icon: TrendingUp },
   { id: 'proforma', label: 'Pro Forma', icon: LogOut },
+  { id: 'waterfall', label: 'Waterfall', icon: Layers },
+  { id: 'scenarios', label: 'Scenarios', icon: GitBranch },
+  { id: 'sensitivity', label: 'Sensitivity', icon: Grid3x3 },
+  { id: 'simulation', label: 'Simulation', icon: Dices },
 ]
 
 export const ProjectEditorPage: React.FC = () => {
@@ -190,6 +205,10 @@ export const ProjectEditorPage: React.FC = () => {
         <TabContent value="capital">
           <CapitalSection onChange={() => setHasChanges(true)} />
         </TabContent>
+
+        <TabContent value="development">
+          <DevelopmentSection onChange={() => setHasChanges(true)} />
+        </TabContent>
         
         <TabContent value="growth">
           <GrowthExitSection onChange={() => setHasChanges(true)} />
@@ -198,6 +217,22 @@ export const ProjectEditorPage: React.FC = () => {
         <TabContent value="proforma">
           <ProFormaSection />
         </TabContent>
+
+        <TabContent value="waterfall">
+          <WaterfallSection onChange={() => setHasChanges(true)} />
+        </TabContent>
+
+        <TabContent value="scenarios">
+          <ScenariosSection onChange={() => setHasChanges(true)} />
+        </TabContent>
+
+        <TabContent value="sensitivity">
+          <SensitivitySection onChange={() => setHasChanges(true)} />
+        </TabContent>
+
+        <TabContent value="simulation">
+          <SimulationSection onChange={() => setHasChanges(true)} />
+        </TabContent>
       </Tabs>
     </div>
   )
@@ -1,6 +1,7 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { v4 as uuidv4 } from 'uuid'
+import { evaluateScenario } from '../engine'
 import type { 
   Project, 
   PropertyType, 
@@ -10,9 +11,12 @@ import type {
   Income,
   OperatingExpenses,
   CapitalExpenditures,
+  DevelopmentAssumptions,
   GrowthAssumptions,
   ExitAssumptions,
-  Scenario
+  Scenario,
+  SensitivityTable,
+  MonteCarloSettings
 } from '../types'
 
 // Check if Supabase is properly configured
@@ -47,9 +51,12 @@ interface ProjectState {
   updateIncome: (data: Partial<Income>) => void
   updateExpenses: (data: Partial<OperatingExpenses>) => void
   updateCapital: (data: Partial<CapitalExpenditures>) => void
+  updateDevelopment: (data: Partial<DevelopmentAssumptions>) => void
   updateGrowth: (data: Partial<GrowthAssumptions>) => void
   updateExit: (data: Partial<ExitAssumptions>) => void
   updateScenarios: (scenarios: Scenario[]) => void
+  updateSensitivityTables: (tables: SensitivityTable[]) => void
+  updateSimulation: (data: Partial<MonteCarloSettings>) => void
   
   clearError: () => void
   calculateCompleteness: () => number
@@ -89,6 +96,8 @@ const defaultProject = (): Omit<Project, 'id' | 'user_id' | 'created_at' | 'upda
     hold_period_months: 0,
     granularity: 'annual',
     analysis_type: 'Acquisition' as AnalysisType,
+    discount_rate_levered: null,
+    discount_rate_unlevered: null,
   },
   acquisition: {
     purchase_price: null,
@@ -115,6 +124,9 @@ const defaultProject = (): Omit<Project, 'id' | 'user_id' | 'created_at' | 'upda
       refinance_fee_pct: null,
       construction_management_fee_pct: null,
     },
+    refinances: [],
+    treasury_curve: [],
+    forward_curves: [],
   },
   income: {
     entry_method: 'Summary Entry',
@@ -243,6 +255,16 @@ const defaultProject = (): Omit<Project, 'id' | 'user_id' | 'created_at' | 'upda
       renewal_lc_pct: null,
     },
   },
+  development: {
+    budget: [],
+    hard_cost_contingency_pct: null,
+    soft_cost_contingency_pct: null,
+    construction_months: null,
+    draw_curve: 'S-Curve',
+    lease_up_months: null,
+    takeout_loan: null,
+    takeout_cap_rate: null,
+  },
   growth: {
     rent_growth_method: 'Fixed annual percentage',
     rent_growth_rate: null,
@@ -271,6 +293,12 @@ const defaultProject = (): Omit<Project, 'id' | 'user_id' | 'created_at' | 'upda
     },
   },
   scenarios: [],
+  sensitivity_tables: [],
+  simulation: {
+    iterations: 2000,
+    seed: null,
+    distributions: [],
+  },
 })
 
 export const useProjectStore = create<ProjectState>()(
@@ -415,7 +443,7 @@ export const useProjectStore = create<ProjectState>()(
 
           if (projectError) throw projectError
 
-          const sections = ['property', 'analysis', 'acquisition', 'financing', 'income', 'expenses', 'capital', 'growth', 'exit', 'scenarios']
+          const sections = ['property', 'analysis', 'acquisition', 'financing', 'income', 'expenses', 'capital', 'development', 'growth', 'exit', 'scenarios', 'sensitivity_tables', 'simulation']
           for (const section of sections) {
             const sectionData = project[section as keyof Project]
             if (sectionData !== undefined) {
@@ -522,7 +550,12 @@ export const useProjectStore = create<ProjectState>()(
 
         set({ isSaving: true, error: null })
         const now = new Date().toISOString()
-        const updatedProject = { ...currentProject, updated_at: now }
+        // Scenario results are derived, so they're brought up to date only when saved
+        const updatedProject = {
+          ...currentProject,
+          scenarios: currentProject.scenarios?.map(s => ({ ...s, results: evaluateScenario(currentProject, s) })),
+          updated_at: now,
+        }
 
         // Demo mode - save to localStorage
         if (!isSupabaseConfigured()) {
@@ -556,9 +589,9 @@ export const useProjectStore = create<ProjectState>()(
 
           if (projectError) throw projectError
 
-          const sections = ['property', 'analysis', 'acquisition', 'financing', 'income', 'expenses', 'capital', 'growth', 'exit', 'scenarios']
+          const sections = ['property', 'analysis', 'acquisition', 'financing', 'income', 'expenses', 'capital', 'development', 'growth', 'exit', 'scenarios', 'sensitivity_tables', 'simulation']
           for (const section of sections) {
-            const sectData = currentProject[section as keyof Project]
+            const sectData = updatedProject[section as keyof Project]
             if (sectData !== undefined) {
               await supabase
                 .from('project_data')
@@ -643,9 +676,12 @@ export const useProjectStore = create<ProjectState>()(
           income: project.income,
           expenses: project.expenses,
           capital: project.capital,
+          development: project.development,
           growth: project.growth,
           exit: project.exit,
           scenarios: project.scenarios,
+          sensitivity_tables: project.sensitivity_tables,
+          simulation: project.simulation,
         }
 
         set(() => ({ currentProject: fullProject }))
@@ -739,6 +775,18 @@ export const useProjectStore = create<ProjectState>()(
         }))
       },
 
+      updateDevelopment: (data) => {
+        set(state => ({
+          currentProject: state.currentProject 
+            ? { 
+                ...state.currentProject, 
+                development: { ...state.currentProject.development!, ...data },
+                updated_at: new Date().toISOString()
+              }
+            : null
+        }))
+      },
+
       updateGrowth: (data) => {
         set(state => ({
           currentProject: state.currentProject 
@@ -775,6 +823,30 @@ export const useProjectStore = create<ProjectState>()(
         }))
       },
 
+      updateSensitivityTables: (tables) => {
+        set(state => ({
+          currentProject: state.currentProject 
+            ? { 
+                ...state.currentProject, 
+                sensitivity_tables: tables,
+                updated_at: new Date().toISOString()
+              }
+            : null
+        }))
+      },
+
+      updateSimulation: (data) => {
+        set(state => ({
+          currentProject: state.currentProject 
+            ? { 
+                ...state.currentProject, 
+                simulation: { ...state.currentProject.simulation!, ...data },
+                updated_at: new Date().toISOString()
+              }
+            : null
+        }))
+      },
+
       clearError: () => set({ error: null }),
 
       calculateCompleteness: () => {
@@ -62,9 +62,12 @@ export interface Project {
   income?: Income
   expenses?: OperatingExpenses
   capital?: CapitalExpenditures
+  development?: DevelopmentAssumptions
   growth?: GrowthAssumptions
   exit?: ExitAssumptions
   scenarios?: Scenario[]
+  sensitivity_tables?: SensitivityTable[]
+  simulation?: MonteCarloSettings
 }
 
 // ============================================================================
@@ -110,6 +113,9 @@ export interface AnalysisParameters {
   hold_period_months: number
   granularity: 'annual' | 'monthly' | 'quarterly'
   analysis_type: AnalysisType
+  // Target returns (percent) used to discount levered and unlevered cash flows
+  discount_rate_levered?: number | null
+  discount_rate_unlevered?: number | null
 }
 
 // ============================================================================
@@ -180,9 +186,36 @@ export type AmortizationType =
   | 'Balloon'
   | 'Custom Schedule'
 
+// Where a tranche sits in the capital stack; cash reaches junior layers last
+export type CapitalPosition = 'Senior' | 'Mezzanine' | 'Preferred Equity'
+
+export type RateIndex = 'SOFR' | 'Prime' | 'LIBOR Legacy' | 'Treasury' | 'Custom'
+
+// Year-by-year forward rates (percent) for one index, Year 1 first; the last
+// entered year holds flat beyond the end of the curve
+export interface ForwardIndexCurve {
+  index: RateIndex
+  rates: (number | null)[]
+}
+
+export type PrepaymentType =
+  | 'None'
+  | 'Lockout then Open'
+  | 'Yield Maintenance'
+  | 'Step-Down'
+  | 'Defeasance'
+
+// A point on the Treasury yield curve used to price prepayment
+export interface TreasuryCurvePoint {
+  term_years: number
+  rate: number
+}
+
 export interface DebtTranche {
   id: string
   tranche_name: string
+  // Blank is senior. Preferred equity's rate is its return and its term the redemption month.
+  position?: CapitalPosition
   sizing_method: 'Loan Amount (direct)' | 'LTV' | 'LTC' | 'DSCR Constrained' | 'Debt Yield Constrained'
   loan_amount: number | null
   ltv_percentage: number | null
@@ -191,11 +224,24 @@ export interface DebtTranche {
   target_debt_yield: number | null
   interest_type: InterestType
   interest_rate_annual: number | null
-  index: 'SOFR' | 'Prime' | 'LIBOR Legacy' | 'Treasury' | 'Custom'
+  index: RateIndex
   spread_bps: number | null
+  // Floor and ceiling the loan agreement sets on the index
   floor_rate: number | null
   ceiling_rate: number | null
   index_assumption: number | null
+  // Purchased rate cap: its strike on the index, the upfront premium, the cap's
+  // term, and the cost of each replacement cap bought when it expires (e.g. to
+  // extend the loan)
+  cap_strike_rate?: number | null
+  cap_cost?: number | null
+  cap_term_months?: number | null
+  cap_replacement_cost?: number | null
+  // Fixed rate paid on the swap in place of the index
+  swap_rate?: number | null
+  // Part of the rate added to the balance instead of paid in cash, percent
+  accrual_rate?: number | null
+  step_rate_increase_bps?: number | null
   amortization_type: AmortizationType
   amortization_years: number | null
   io_period_months: number | null
@@ -203,8 +249,12 @@ export interface DebtTranche {
   origination_fee_pct: number | null
   origination_fee_flat: number | null
   exit_fee_pct: number | null
-  prepayment_type: string
+  prepayment_type: PrepaymentType
   prepayment_lockout_months: number | null
+  // Step-down penalty by loan year (percent); blank uses 5-4-3-2-1
+  prepayment_step_down?: number[] | null
+  // Legal, accounting and servicer costs of a defeasance
+  defeasance_fee?: number | null
   other_loan_costs: { description: string; amount: number }[]
   lender_required_reserves: {
     tax_escrow_months: number | null
@@ -217,6 +267,8 @@ export interface DebtTranche {
     min_dscr: number | null
     max_ltv: number | null
     min_debt_yield: number | null
+    // Share of excess cash flow applied to principal while a test is failed, percent
+    cash_sweep_pct?: number | null
   }
 }
 
@@ -251,6 +303,24 @@ export interface Financing {
     refinance_fee_pct?: number | null
     construction_management_fee_pct?: number | null
   }
+  refinances?: RefinanceEvent[]
+  // Yield maintenance and defeasance discount at these rates
+  treasury_curve?: TreasuryCurvePoint[]
+  // Floating-rate debt follows these in place of a tranche's flat index assumption
+  forward_curves?: ForwardIndexCurve[]
+}
+
+// A new loan placed mid-hold that pays off some or all of the existing debt
+export interface RefinanceEvent {
+  id: string
+  // Month of the hold (1-based) in which the refinance closes
+  month: number | null
+  // Loans repaid from the proceeds; empty retires every loan outstanding
+  retired_tranche_ids: string[]
+  // Cap rate on forward NOI for the then-current value; blank uses the exit cap
+  valuation_cap_rate: number | null
+  // Terms of the new loan, sized by LTV and/or DSCR on the refinance basis
+  new_loan: DebtTranche
 }
 
 // ============================================================================
@@ -330,6 +400,8 @@ export interface VacancyAssumptions {
   credit_loss_rate?: number | null
   concession_rate?: number | null
   average_downtime_months?: number | null
+  renewal_probability?: number | null
+  rollover_lease_term_months?: number | null
   vacancy_assumption_rationale?: string
 }
 
@@ -476,6 +548,39 @@ export interface CapitalExpenditures {
   ti_assumptions: TIAssumptions
 }
 
+// ============================================================================
+// DEVELOPMENT
+// ============================================================================
+
+export type DevelopmentCostCategory = 'Hard Costs' | 'Soft Costs'
+
+export interface DevelopmentBudgetItem {
+  id: string
+  category: DevelopmentCostCategory
+  description: string
+  amount: number | null
+}
+
+// How budgeted costs spread over the construction months
+export type DrawCurve = 'S-Curve' | 'Straight-Line'
+
+// Used when the analysis type is Development. The land is the acquisition's
+// purchase price; the budget is drawn from the month after closing.
+export interface DevelopmentAssumptions {
+  budget: DevelopmentBudgetItem[]
+  // Percent of the hard and soft cost budgets
+  hard_cost_contingency_pct: number | null
+  soft_cost_contingency_pct: number | null
+  construction_months: number | null
+  draw_curve: DrawCurve
+  // Months from completion to full occupancy, leased evenly
+  lease_up_months: number | null
+  // Permanent loan placed at stabilization that retires the construction debt
+  takeout_loan: DebtTranche | null
+  // Cap rate on forward NOI for the takeout's value; blank uses the exit cap
+  takeout_cap_rate: number | null
+}
+
 // ============================================================================
 // GROWTH & EXIT
 // ============================================================================
@@ -513,6 +618,14 @@ export interface ExitAssumptions {
 // SCENARIOS & OUTPUTS
 // ============================================================================
 
+// Any other model input, addressed by a dotted path from the project root.
+// Array items are addressed by id (or index when they have none), e.g.
+// "financing.debt_tranches.<id>.loan_term_months"
+export interface ScenarioInputOverride {
+  path: string
+  value: number | boolean | string | null
+}
+
 export interface Scenario {
   id: string
   name: string
@@ -524,11 +637,12 @@ export interface Scenario {
     exit_cap_rate: number
     interest_rate: number
     purchase_price: number
+    inputs: ScenarioInputOverride[]
   }>
   results?: {
-    irr: number
-    equity_multiple: number
-    cash_on_cash: number
+    irr: number | null
+    equity_multiple: number | null
+    cash_on_cash: number | null
     npv: number
   }
 }
@@ -553,22 +667,42 @@ export interface ReturnsMetrics {
   yield_on_cost: number | null
   peak_equity: number | null
   payback_period_years: number | null
+  // At the project's discount rates; XIRR/XNPV use the actual cash flow dates
+  levered_npv: number | null
+  levered_profitability_index: number | null
+  levered_xirr: number | null
+  levered_xnpv: number | null
+  unlevered_npv: number | null
+  unlevered_profitability_index: number | null
 }
 
+export type SensitivityDriver =
+  | 'exit_cap_rate'
+  | 'rent_growth'
+  | 'vacancy_rate'
+  | 'interest_rate'
+  | 'purchase_price'
+  | 'hold_period'
+
 export interface SensitivityTable {
+  id: string
   name: string
   output_metric: 'IRR' | 'Equity Multiple' | 'Cash-on-Cash' | 'DSCR' | 'NPV'
+  // Annual rate (percent) used to discount levered cash flows for NPV
+  discount_rate?: number | null
+  // Variable 1 runs down the rows, variable 2 across the columns
   variable_1: {
-    name: string
+    name: SensitivityDriver
     base: number
     range: number[]
   }
   variable_2: {
-    name: string
+    name: SensitivityDriver
     base: number
     range: number[]
   }
-  results: number[][]
+  // results[row][column]; null where the metric is undefined (e.g. DSCR with no debt)
+  results: (number | null)[][]
 }
 
 // ============================================================================
@@ -583,3 +717,31 @@ export interface User {
   created_at: string
 }
 
+export type SimulationVariable =
+  | 'rent_growth'
+  | 'expense_growth'
+  | 'vacancy_rate'
+  | 'exit_cap_rate'
+  | 'interest_rate_index'
+
+export type DistributionType = 'Normal' | 'Triangular' | 'Uniform'
+
+// Values are percentages. Normal uses mean and std_dev; Triangular uses
+// min, mode and max; Uniform uses min and max.
+export interface SimulationDistribution {
+  variable: SimulationVariable
+  enabled: boolean
+  type: DistributionType
+  mean: number | null
+  std_dev: number | null
+  min: number | null
+  mode: number | null
+  max: number | null
+}
+
+export interface MonteCarloSettings {
+  iterations: number
+  // Fixed seed for repeatable runs; null draws a new one each run
+  seed: number | null
+  distributions: SimulationDistribution[]
+}